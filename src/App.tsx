@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useEffect } from "react";
 import { generateSampleData } from "./lib/localStorage";
 import { hasSession } from "./lib/sessionManager";
+import { useUndoRedoShortcuts } from "@/hooks/use-undo-redo";
 
 // Components
 import Navbar from "@/components/Navbar";
@@ -20,6 +21,7 @@ import DeckPage from "@/pages/DeckPage";
 import EditDeckPage from "@/pages/EditDeckPage";
 import ThemePage from "@/pages/ThemePage";
 import StudyPage from "@/pages/StudyPage";
+import ReviewPage from "@/pages/ReviewPage";
 import NotFound from "@/pages/NotFound";
 import ImportPage from "@/pages/ImportPage";
 import LoginPage from "@/pages/LoginPage";
@@ -28,6 +30,7 @@ import LearningMethodsPage from "@/pages/LearningMethodsPage";
 import StatsPage from "@/pages/StatsPage";
 import SharePage from "@/pages/SharePage";
 import MyDecksPage from "@/pages/MyDecksPage";
+import TrashPage from "@/pages/TrashPage";
 
 const queryClient = new QueryClient();
 
@@ -41,9 +44,13 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 };
 
 const App = () => {
+  useUndoRedoShortcuts();
+
   useEffect(() => {
     // Initialize storage structure on first load
-    generateSampleData();
+    generateSampleData().catch(error => {
+      console.error("Erreur lors de la création des données d'exemple:", error);
+    });
   }, []);
 
   return (
@@ -155,6 +162,18 @@ const App = () => {
                 </ProtectedRoute>
               } />
               
+              <Route path="/review" element={
+                <ProtectedRoute>
+                  <>
+                    <Navbar />
+                    <main className="flex-1">
+                      <ReviewPage />
+                    </main>
+                    <Footer />
+                  </>
+                </ProtectedRoute>
+              } />
+              
               <Route path="/import/:code" element={
                 <ProtectedRoute>
                   <>
@@ -228,6 +247,18 @@ const App = () => {
                 </ProtectedRoute>
               } />
               
+              <Route path="/trash" element={
+                <ProtectedRoute>
+                  <>
+                    <Navbar />
+                    <main className="flex-1">
+                      <TrashPage />
+                    </main>
+                    <Footer />
+                  </>
+                </ProtectedRoute>
+              } />
+              
               <Route path="*" element={<NotFound />} />
             </Routes>
           </div>
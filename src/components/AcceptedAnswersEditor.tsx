@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Plus, X } from "lucide-react";
+
+interface AcceptedAnswersEditorProps {
+  id: string;
+  acceptedAnswers?: string[];
+  displayAnswer?: string;
+  onChange: (changes: { acceptedAnswers?: string[]; displayAnswer?: string }) => void;
+}
+
+// Synonymes acceptés par les correcteurs et réponse de référence à afficher
+const AcceptedAnswersEditor = ({ id, acceptedAnswers = [], displayAnswer, onChange }: AcceptedAnswersEditorProps) => {
+  const [newAnswer, setNewAnswer] = useState("");
+
+  const addAnswer = () => {
+    const answer = newAnswer.trim();
+    if (!answer || acceptedAnswers.includes(answer)) return;
+
+    onChange({ acceptedAnswers: [...acceptedAnswers, answer], displayAnswer });
+    setNewAnswer("");
+  };
+
+  const removeAnswer = (answer: string) => {
+    const remaining = acceptedAnswers.filter(item => item !== answer);
+    onChange({ acceptedAnswers: remaining.length > 0 ? remaining : undefined, displayAnswer });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-accepted`} className="text-sm">Autres réponses acceptées</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${id}-accepted`}
+            value={newAnswer}
+            onChange={(e) => setNewAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addAnswer();
+              }
+            }}
+            placeholder="Ex: synonyme, variante..."
+            className="text-sm"
+          />
+          <Button type="button" variant="outline" size="icon" onClick={addAnswer} disabled={!newAnswer.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {acceptedAnswers.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {acceptedAnswers.map(answer => (
+              <Badge key={answer} variant="secondary" className="gap-1">
+                {answer}
+                <button type="button" onClick={() => removeAnswer(answer)} className="ml-1 hover:text-destructive">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-display`} className="text-sm">Réponse affichée (facultatif)</Label>
+        <Input
+          id={`${id}-display`}
+          value={displayAnswer || ""}
+          onChange={(e) => onChange({ acceptedAnswers: acceptedAnswers.length > 0 ? acceptedAnswers : undefined, displayAnswer: e.target.value || undefined })}
+          placeholder="Par défaut : le texte de ce côté"
+          className="text-sm"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AcceptedAnswersEditor;
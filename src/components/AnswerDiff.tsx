@@ -0,0 +1,26 @@
+import { AnswerDiffSegment } from "@/lib/answerChecker";
+import { cn } from "@/lib/utils";
+
+interface AnswerDiffProps {
+  diff: AnswerDiffSegment[];
+  className?: string;
+}
+
+// Affiche la saisie corrigée : lettres en trop barrées, lettres manquantes soulignées
+const AnswerDiff = ({ diff, className }: AnswerDiffProps) => (
+  <p className={cn("font-mono text-base break-words", className)}>
+    {diff.map((segment, index) => (
+      <span
+        key={index}
+        className={cn(
+          segment.type === "extra" && "line-through text-red-600 dark:text-red-400 bg-red-100/60 dark:bg-red-900/30",
+          segment.type === "missing" && "underline decoration-2 text-green-700 dark:text-green-400 bg-green-100/60 dark:bg-green-900/30"
+        )}
+      >
+        {segment.text}
+      </span>
+    ))}
+  </p>
+);
+
+export default AnswerDiff;
@@ -0,0 +1,62 @@
+import { RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Brackets } from "lucide-react";
+import { getClozeIndices, getNextClozeIndex, renderClozeFront, wrapCloze } from "@/lib/cloze";
+import { cn } from "@/lib/utils";
+
+interface ClozeHelperProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  value: string;
+  onChange: (text: string) => void;
+  className?: string;
+}
+
+// Aide à la saisie des cartes à trous : transforme la sélection en {{cN::...}}
+const ClozeHelper = ({ textareaRef, value, onChange, className }: ClozeHelperProps) => {
+  const indices = getClozeIndices(value);
+  const nextIndex = getNextClozeIndex(value);
+  const lastIndex = indices.length > 0 ? indices[indices.length - 1] : null;
+
+  const insertCloze = (index: number) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const updated = wrapCloze(value, start, end, index);
+    onChange(updated);
+
+    // Replacer le curseur dans le trou (utile quand aucune sélection n'était faite)
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      const cursor = start + `{{c${index}::`.length + (end - start);
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => insertCloze(nextIndex)}>
+          <Brackets className="h-3 w-3 mr-1" /> Nouveau trou (c{nextIndex})
+        </Button>
+        {lastIndex !== null && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => insertCloze(lastIndex)}>
+            Même trou (c{lastIndex})
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {indices.length > 0
+            ? `${indices.length} trou${indices.length > 1 ? "s" : ""} → ${indices.length} carte${indices.length > 1 ? "s" : ""} à étudier`
+            : "Sélectionnez un mot puis cliquez pour le masquer"}
+        </span>
+      </div>
+      {indices.length > 0 && (
+        <p className="text-xs text-muted-foreground border rounded-md p-2 bg-muted/40">
+          Aperçu : {renderClozeFront(value, indices[0])}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClozeHelper;
@@ -6,9 +6,12 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { Download, FileJson, Upload } from "lucide-react";
 import { exportAllData, importAllData } from "@/lib/storage";
+import { parseDataExport, FormatIssue } from "@/lib/formats";
+import FormatIssuesAlert from "@/components/FormatIssuesAlert";
 
 const DataImportExport = () => {
   const [importing, setImporting] = useState(false);
+  const [importIssues, setImportIssues] = useState<FormatIssue[] | null>(null);
   const { toast } = useToast();
   const fileInputRef = useState<HTMLInputElement | null>(null);
 
@@ -67,15 +70,27 @@ const DataImportExport = () => {
     }
     
     setImporting(true);
+    setImportIssues(null);
     
     try {
       const reader = new FileReader();
       reader.onload = async (e) => {
         try {
           const content = e.target?.result as string;
-          const data = JSON.parse(content);
+          const parsed = parseDataExport(JSON.parse(content));
           
-          const success = await importAllData(data);
+          // Les champs invalides sont listés sous la carte
+          if (!parsed.data) {
+            setImportIssues(parsed.issues);
+            toast({
+              title: "Fichier invalide",
+              description: `${parsed.issues.length} champ(s) invalide(s), aucune donnée n'a été importée`,
+              variant: "destructive"
+            });
+            return;
+          }
+          
+          const success = await importAllData(parsed.data);
           
           if (success) {
             toast({
@@ -142,6 +157,11 @@ const DataImportExport = () => {
             <p>L'importation de données peut remplacer certaines de vos données existantes si elles ont le même identifiant.</p>
           </div>
         </ScrollArea>
+        {importIssues && (
+          <div className="mt-4">
+            <FormatIssuesAlert title="Fichier de données invalide" issues={importIssues} />
+          </div>
+        )}
       </CardContent>
       
       <CardFooter className="flex justify-between">
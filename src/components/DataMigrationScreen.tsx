@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import { DatabaseZap } from "lucide-react";
+import { runMigrations, getSchemaState, LATEST_SCHEMA_VERSION } from "@/lib/migrations";
+
+interface DataMigrationScreenProps {
+  onComplete: () => void;
+}
+
+/**
+ * Écran affiché au lancement pendant la mise à jour des données stockées :
+ * les migrations des médias peuvent prendre du temps sur une grande collection
+ */
+const DataMigrationScreen = ({ onComplete }: DataMigrationScreenProps) => {
+  const [currentStep, setCurrentStep] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    // Chaque migration occupe une part égale de la barre de progression
+    const startVersion = getSchemaState().version;
+    const steps = Math.max(LATEST_SCHEMA_VERSION - startVersion, 1);
+
+    runMigrations((migration, done, total) => {
+      setCurrentStep(migration.description);
+      setProgress(((migration.version - startVersion - 1 + done / total) / steps) * 100);
+    })
+      // Une migration en échec sera reprise au prochain lancement
+      .catch(error => {
+        console.error("Erreur lors de la migration des données:", error);
+      })
+      .then(onComplete);
+  }, [onComplete]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md space-y-4 text-center">
+        <DatabaseZap className="h-10 w-10 mx-auto text-primary" />
+        <h1 className="text-xl font-semibold">Mise à jour de vos données</h1>
+        <p className="text-sm text-muted-foreground">
+          Vos decks et vos médias sont convertis au nouveau format de stockage. Ne fermez pas cette page.
+        </p>
+        <Progress value={progress} className="h-2" />
+        {currentStep && (
+          <p className="text-xs text-muted-foreground">{currentStep}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataMigrationScreen;
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -8,6 +8,11 @@ import { Label } from "@/components/ui/label";
 import { X, Plus, Check, Edit } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useToast } from "@/hooks/use-toast";
+import { FlashcardType, StudyDirection } from "@/lib/localStorage";
+import { hasCloze } from "@/lib/cloze";
+import ClozeHelper from "./ClozeHelper";
+import StudyDirectionSelect from "./StudyDirectionSelect";
+import AcceptedAnswersEditor from "./AcceptedAnswersEditor";
 
 // Move the types to a better location
 interface CardSideData {
@@ -15,12 +20,16 @@ interface CardSideData {
   image?: string;
   audio?: string;
   additionalInfo?: string;
+  acceptedAnswers?: string[];
+  displayAnswer?: string;
 }
 
 interface EditFlashCardFormProps {
   initialFront?: CardSideData;
   initialBack?: CardSideData;
-  onSubmit: (front: CardSideData, back: CardSideData) => void;
+  initialType?: FlashcardType;
+  initialStudyDirection?: StudyDirection;
+  onSubmit: (front: CardSideData, back: CardSideData, type: FlashcardType, studyDirection?: StudyDirection) => void;
   onCancel?: () => void;
   isLoading?: boolean;
 }
@@ -32,7 +41,9 @@ const CardSideEditor = ({
   onChange,
   showInfo,
   onToggleInfo,
-  sideLabel
+  sideLabel,
+  clozeEnabled = false,
+  showAcceptedAnswers = true
 }: {
   side: 'front' | 'back';
   data: CardSideData;
@@ -40,9 +51,12 @@ const CardSideEditor = ({
   showInfo: boolean;
   onToggleInfo: (show: boolean) => void;
   sideLabel: string;
+  clozeEnabled?: boolean;
+  showAcceptedAnswers?: boolean;
 }) => {
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -106,15 +120,34 @@ const CardSideEditor = ({
       <div className="space-y-2 mb-3">
         <Label htmlFor={`${side}-text`} className="text-sm">Texte</Label>
         <Textarea
+          ref={textareaRef}
           id={`${side}-text`}
           rows={isMobile ? 2 : 3}
           value={data.text}
           onChange={(e) => onChange({ ...data, text: e.target.value })}
-          placeholder={side === 'front' ? "Ex: Définition, question, mot..." : "Ex: Réponse, traduction..."}
+          placeholder={clozeEnabled ? "Ex: La capitale de la France est {{c1::Paris}}" : side === 'front' ? "Ex: Définition, question, mot..." : "Ex: Réponse, traduction..."}
           className="w-full resize-y text-sm"
         />
+        {clozeEnabled && (
+          <ClozeHelper
+            textareaRef={textareaRef}
+            value={data.text}
+            onChange={(text) => onChange({ ...data, text })}
+          />
+        )}
       </div>
       
+      {showAcceptedAnswers && (
+        <div className="mb-3">
+          <AcceptedAnswersEditor
+            id={side}
+            acceptedAnswers={data.acceptedAnswers}
+            displayAnswer={data.displayAnswer}
+            onChange={(changes) => onChange({ ...data, ...changes })}
+          />
+        </div>
+      )}
+      
       <div className="space-y-2 mb-3">
         <Label htmlFor={`${side}-image`} className="text-sm flex items-center justify-between">
           <span>Image</span>
@@ -226,12 +259,16 @@ const CardSideEditor = ({
 const EditFlashCardForm = ({
   initialFront = { text: "", additionalInfo: "" },
   initialBack = { text: "", additionalInfo: "" },
+  initialType = 'basic',
+  initialStudyDirection,
   onSubmit,
   onCancel,
   isLoading = false
 }: EditFlashCardFormProps) => {
   const [frontData, setFrontData] = useState<CardSideData>(initialFront);
   const [backData, setBackData] = useState<CardSideData>(initialBack);
+  const [cardType, setCardType] = useState<FlashcardType>(initialType);
+  const [studyDirection, setStudyDirection] = useState<StudyDirection | undefined>(initialStudyDirection);
   const [showFrontInfo, setShowFrontInfo] = useState(!!initialFront.additionalInfo);
   const [showBackInfo, setShowBackInfo] = useState(!!initialBack.additionalInfo);
   const isMobile = useIsMobile();
@@ -241,9 +278,11 @@ const EditFlashCardForm = ({
   useEffect(() => {
     setFrontData(initialFront);
     setBackData(initialBack);
+    setCardType(initialType);
+    setStudyDirection(initialStudyDirection);
     setShowFrontInfo(!!initialFront.additionalInfo);
     setShowBackInfo(!!initialBack.additionalInfo);
-  }, [initialFront, initialBack]);
+  }, [initialFront, initialBack, initialType, initialStudyDirection]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -257,7 +296,17 @@ const EditFlashCardForm = ({
       return;
     }
 
-    if (!backData.text.trim() && !backData.image) {
+    if (cardType === 'cloze' && !hasCloze(frontData.text)) {
+      toast({
+        title: "Aucun trou",
+        description: "Ajoutez au moins un trou {{c1::...}} au texte du recto",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Le verso d'une carte à trous est facultatif
+    if (cardType !== 'cloze' && !backData.text.trim() && !backData.image) {
       toast({
         title: "Contenu requis",
         description: "Veuillez ajouter du texte ou une image au verso de la carte",
@@ -274,13 +323,37 @@ const EditFlashCardForm = ({
       {
         ...backData,
         additionalInfo: showBackInfo ? backData.additionalInfo : undefined,
-      }
+      },
+      cardType,
+      cardType === 'cloze' ? undefined : studyDirection
     );
   };
 
   return (
     <div className="w-full max-h-[80vh] overflow-y-auto">
       <form onSubmit={handleSubmit} className={`${isMobile ? "mobile-form-container" : "p-4"}`}>
+        <div className="flex items-center space-x-2 mb-3">
+          <Checkbox
+            id="cloze-type"
+            checked={cardType === 'cloze'}
+            onCheckedChange={(checked) => setCardType(checked ? 'cloze' : 'basic')}
+          />
+          <Label htmlFor="cloze-type" className="text-sm">Texte à trous</Label>
+        </div>
+
+        {cardType !== 'cloze' && (
+          <div className="space-y-2 mb-3">
+            <Label htmlFor="card-study-direction" className="text-sm">Sens d'étude</Label>
+            <StudyDirectionSelect
+              id="card-study-direction"
+              value={studyDirection}
+              onChange={setStudyDirection}
+              allowInherit
+              className="text-sm"
+            />
+          </div>
+        )}
+
         <div className="space-y-2 mb-4">
           <CardSideEditor
             side="front"
@@ -288,7 +361,9 @@ const EditFlashCardForm = ({
             onChange={setFrontData}
             showInfo={showFrontInfo}
             onToggleInfo={setShowFrontInfo}
-            sideLabel="Recto de la carte"
+            sideLabel={cardType === 'cloze' ? "Texte à trous" : "Recto de la carte"}
+            clozeEnabled={cardType === 'cloze'}
+            showAcceptedAnswers={cardType !== 'cloze'}
           />
           
           <CardSideEditor
@@ -297,7 +372,8 @@ const EditFlashCardForm = ({
             onChange={setBackData}
             showInfo={showBackInfo}
             onToggleInfo={setShowBackInfo}
-            sideLabel="Verso de la carte"
+            sideLabel={cardType === 'cloze' ? "Verso (facultatif)" : "Verso de la carte"}
+            showAcceptedAnswers={cardType !== 'cloze'}
           />
         </div>
         
@@ -9,6 +9,7 @@ import {
   TooltipProvider, 
   TooltipTrigger 
 } from "@/components/ui/tooltip";
+import { CLOZE_GAP, parseCloze } from "@/lib/cloze";
 
 export interface FlashCardProps {
   id: string;
@@ -24,18 +25,47 @@ export interface FlashCardProps {
     audio?: string;
     additionalInfo?: string;
   };
+  // Carte à trous : sans index, tous les trous sont masqués au recto
+  cloze?: {
+    text: string;
+    index?: number;
+  };
+  // Face affichée contrôlée par le parent ; sinon la carte se retourne d'elle-même au clic
+  isFlipped?: boolean;
   onCardFlip?: (id: string, isFlipped: boolean) => void;
   className?: string;
 }
 
+const ClozeText = ({ text, index, revealed }: { text: string; index?: number; revealed: boolean }) => (
+  <>
+    {parseCloze(text, index).map((segment, i) => {
+      if (segment.type === 'text') return <span key={i}>{segment.text}</span>;
+      if (!segment.active) return <span key={i}>{segment.answer}</span>;
+
+      return revealed ? (
+        <span key={i} className="font-bold text-purple-700 dark:text-purple-300 underline decoration-dotted underline-offset-4">
+          {segment.answer}
+        </span>
+      ) : (
+        <span key={i} className="inline-block px-2 rounded-md bg-indigo-200/70 dark:bg-indigo-800/70 text-indigo-700 dark:text-indigo-200">
+          {segment.hint ? `[${segment.hint}]` : CLOZE_GAP}
+        </span>
+      );
+    })}
+  </>
+);
+
 const FlashCard = ({
   id,
   front,
   back,
+  cloze,
+  isFlipped: controlledFlipped,
   onCardFlip,
   className
 }: FlashCardProps) => {
-  const [isFlipped, setIsFlipped] = useState(false);
+  const [internalFlipped, setInternalFlipped] = useState(false);
+  const isFlipped = controlledFlipped ?? internalFlipped;
   const [height, setHeight] = useState("auto");
   const [showFrontInfo, setShowFrontInfo] = useState(false);
   const [showBackInfo, setShowBackInfo] = useState(false);
@@ -52,10 +82,10 @@ const FlashCard = ({
         ) + "px"
       );
     }
-  }, [front, back, showFrontInfo, showBackInfo]);
+  }, [front, back, cloze, showFrontInfo, showBackInfo]);
 
   const handleFlip = () => {
-    setIsFlipped(!isFlipped);
+    if (controlledFlipped === undefined) setInternalFlipped(!isFlipped);
     if (onCardFlip) {
       onCardFlip(id, !isFlipped);
     }
@@ -105,7 +135,7 @@ const FlashCard = ({
             </div>
           )}
           <div className="text-xl font-medium text-center text-primary dark:text-primary-foreground">
-            {front.text}
+            {cloze ? <ClozeText text={cloze.text} index={cloze.index} revealed={false} /> : front.text}
           </div>
           
           {front.additionalInfo && (
@@ -176,7 +206,7 @@ const FlashCard = ({
             </div>
           )}
           <div className="text-xl font-medium text-center text-primary dark:text-primary-foreground">
-            {back.text}
+            {cloze ? <ClozeText text={cloze.text} index={cloze.index} revealed /> : back.text}
           </div>
           
           {back.additionalInfo && (
@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -8,9 +8,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Trash2, Save, X } from "lucide-react";
-import { updateFlashcard, deleteFlashcard, Flashcard, getBase64 } from "@/lib/localStorage";
+import { Edit, Trash2, Save, X, GitMerge } from "lucide-react";
+import { Flashcard, StudyDirection, getBase64, resolveSourceConflict } from "@/lib/localStorage";
+import { undoableRepository } from "@/lib/history";
+import UndoToastAction from "./UndoToastAction";
 import FlashCard from "./FlashCard";
+import ClozeHelper from "./ClozeHelper";
+import StudyDirectionSelect from "./StudyDirectionSelect";
+import AcceptedAnswersEditor from "./AcceptedAnswersEditor";
+import { hasCloze } from "@/lib/cloze";
 
 interface FlashCardItemProps {
   card: Flashcard;
@@ -24,18 +30,25 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showFrontAdditionalInfo, setShowFrontAdditionalInfo] = useState(!!card.front.additionalInfo);
   const [showBackAdditionalInfo, setShowBackAdditionalInfo] = useState(!!card.back.additionalInfo);
+  const frontTextRef = useRef<HTMLTextAreaElement>(null);
+  const [studyDirection, setStudyDirection] = useState<StudyDirection | undefined>(card.studyDirection);
+  const isCloze = card.type === 'cloze';
   const [editingCard, setEditingCard] = useState({
     front: { 
       text: card.front.text,
       image: card.front.image,
       audio: card.front.audio,
-      additionalInfo: card.front.additionalInfo || ""
+      additionalInfo: card.front.additionalInfo || "",
+      acceptedAnswers: card.front.acceptedAnswers,
+      displayAnswer: card.front.displayAnswer
     },
     back: { 
       text: card.back.text,
       image: card.back.image,
       audio: card.back.audio,
-      additionalInfo: card.back.additionalInfo || ""
+      additionalInfo: card.back.additionalInfo || "",
+      acceptedAnswers: card.back.acceptedAnswers,
+      displayAnswer: card.back.displayAnswer
     },
   });
 
@@ -120,7 +133,7 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
     }
   };
 
-  const handleUpdate = () => {
+  const handleUpdate = async () => {
     if (!editingCard.front.text.trim() && !editingCard.front.image) {
       toast({
         title: "Contenu requis",
@@ -130,7 +143,17 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
       return;
     }
 
-    if (!editingCard.back.text.trim() && !editingCard.back.image) {
+    if (isCloze && !hasCloze(editingCard.front.text)) {
+      toast({
+        title: "Aucun trou",
+        description: "Ajoutez au moins un trou {{c1::...}} au texte du recto",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Le verso d'une carte à trous est facultatif
+    if (!isCloze && !editingCard.back.text.trim() && !editingCard.back.image) {
       toast({
         title: "Contenu requis",
         description: "Veuillez ajouter du texte ou une image au verso de la carte",
@@ -144,19 +167,24 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
         text: editingCard.front.text.trim(),
         image: editingCard.front.image,
         audio: editingCard.front.audio,
-        additionalInfo: showFrontAdditionalInfo ? editingCard.front.additionalInfo.trim() : undefined
+        additionalInfo: showFrontAdditionalInfo ? editingCard.front.additionalInfo.trim() : undefined,
+        acceptedAnswers: isCloze ? undefined : editingCard.front.acceptedAnswers,
+        displayAnswer: isCloze ? undefined : editingCard.front.displayAnswer?.trim() || undefined
       };
 
       const updatedBack = {
         text: editingCard.back.text.trim(),
         image: editingCard.back.image,
         audio: editingCard.back.audio,
-        additionalInfo: showBackAdditionalInfo ? editingCard.back.additionalInfo.trim() : undefined
+        additionalInfo: showBackAdditionalInfo ? editingCard.back.additionalInfo.trim() : undefined,
+        acceptedAnswers: isCloze ? undefined : editingCard.back.acceptedAnswers,
+        displayAnswer: isCloze ? undefined : editingCard.back.displayAnswer?.trim() || undefined
       };
 
-      const updated = updateFlashcard(card.id, {
+      const updated = await undoableRepository.updateFlashcard(card.id, {
         front: updatedFront,
         back: updatedBack,
+        studyDirection,
       });
 
       if (updated) {
@@ -165,6 +193,7 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
         toast({
           title: "Carte mise à jour",
           description: "La flashcard a été modifiée avec succès",
+          action: <UndoToastAction />,
         });
       }
     } catch (error) {
@@ -177,15 +206,16 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
     }
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     try {
-      const success = deleteFlashcard(card.id);
+      const success = await undoableRepository.deleteFlashcard(card.id);
       if (success) {
         setShowDeleteDialog(false);
         onDelete?.();
         toast({
           title: "Carte supprimée",
-          description: "La flashcard a été supprimée avec succès",
+          description: "La flashcard a été déplacée dans la corbeille",
+          action: <UndoToastAction />,
         });
       }
     } catch (error) {
@@ -198,6 +228,21 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
     }
   };
 
+  // Carte modifiée localement et dans le deck source depuis la dernière mise à jour
+  const handleResolveConflict = async (keep: 'local' | 'source') => {
+    try {
+      const resolved = await resolveSourceConflict(card.id, keep);
+      if (resolved) onUpdate?.(resolved);
+    } catch (error) {
+      console.error("Error resolving source conflict:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'appliquer ce choix",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <>
       <Card className="group relative overflow-hidden transition-all duration-300 hover:shadow-lg">
@@ -221,8 +266,28 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
         </div>
 
         <CardContent className="p-0">
-          <FlashCard {...card} />
+          <FlashCard {...card} cloze={isCloze ? { text: card.front.text } : undefined} />
         </CardContent>
+
+        {card.sourceConflict && (
+          <div className="border-t bg-amber-50 dark:bg-amber-950/30 p-3 space-y-2 text-sm">
+            <p className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300">
+              <GitMerge className="h-4 w-4" />
+              Modifiée ici et dans le deck source
+            </p>
+            <p className="text-xs text-muted-foreground line-clamp-2">
+              Version source : {card.sourceConflict.front.text} — {card.sourceConflict.back.text}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleResolveConflict('local')}>
+                Garder ma version
+              </Button>
+              <Button size="sm" onClick={() => handleResolveConflict('source')}>
+                Prendre la version source
+              </Button>
+            </div>
+          </div>
+        )}
       </Card>
 
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
@@ -230,12 +295,24 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
           <DialogHeader>
             <DialogTitle>Modifier la flashcard</DialogTitle>
           </DialogHeader>
+          {!isCloze && (
+            <div className="space-y-2">
+              <Label htmlFor="edit-card-direction">Sens d'étude</Label>
+              <StudyDirectionSelect
+                id="edit-card-direction"
+                value={studyDirection}
+                onChange={setStudyDirection}
+                allowInherit
+              />
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
             <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Recto de la carte</h3>
+              <h3 className="font-medium">{isCloze ? "Texte à trous" : "Recto de la carte"}</h3>
               <div className="space-y-2">
                 <Label htmlFor="front-text">Texte</Label>
                 <Textarea
+                  ref={frontTextRef}
                   id="front-text"
                   rows={3}
                   value={editingCard.front.text}
@@ -246,7 +323,32 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
                     })
                   }
                 />
+                {isCloze && (
+                  <ClozeHelper
+                    textareaRef={frontTextRef}
+                    value={editingCard.front.text}
+                    onChange={(text) =>
+                      setEditingCard({
+                        ...editingCard,
+                        front: { ...editingCard.front, text },
+                      })
+                    }
+                  />
+                )}
               </div>
+              {!isCloze && (
+                <AcceptedAnswersEditor
+                  id="front"
+                  acceptedAnswers={editingCard.front.acceptedAnswers}
+                  displayAnswer={editingCard.front.displayAnswer}
+                  onChange={(changes) =>
+                    setEditingCard({
+                      ...editingCard,
+                      front: { ...editingCard.front, ...changes },
+                    })
+                  }
+                />
+              )}
               <div className="space-y-2">
                 <Label htmlFor="front-image">Image (optionnelle)</Label>
                 <Input
@@ -336,7 +438,7 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
             </div>
 
             <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Verso de la carte</h3>
+              <h3 className="font-medium">{isCloze ? "Verso (facultatif)" : "Verso de la carte"}</h3>
               <div className="space-y-2">
                 <Label htmlFor="back-text">Texte</Label>
                 <Textarea
@@ -351,6 +453,19 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
                   }
                 />
               </div>
+              {!isCloze && (
+                <AcceptedAnswersEditor
+                  id="back"
+                  acceptedAnswers={editingCard.back.acceptedAnswers}
+                  displayAnswer={editingCard.back.displayAnswer}
+                  onChange={(changes) =>
+                    setEditingCard({
+                      ...editingCard,
+                      back: { ...editingCard.back, ...changes },
+                    })
+                  }
+                />
+              )}
               <div className="space-y-2">
                 <Label htmlFor="back-image">Image (optionnelle)</Label>
                 <Input
@@ -456,7 +571,7 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
           <DialogHeader>
             <DialogTitle>Supprimer la carte</DialogTitle>
             <DialogDescription>
-              Êtes-vous sûr de vouloir supprimer cette flashcard ? Cette action est irréversible.
+              Êtes-vous sûr de vouloir supprimer cette flashcard ? Elle sera déplacée dans la corbeille.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,36 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle } from "lucide-react";
+import { FormatIssue } from "@/lib/formats";
+
+interface FormatIssuesAlertProps {
+  title: string;
+  issues: FormatIssue[];
+}
+
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Liste des champs invalides d'un fichier importé
+ */
+const FormatIssuesAlert = ({ title, issues }: FormatIssuesAlertProps) => (
+  <Alert variant="destructive">
+    <AlertCircle className="h-4 w-4" />
+    <AlertTitle>{title}</AlertTitle>
+    <AlertDescription>
+      <ul className="text-xs space-y-0.5 max-h-40 overflow-y-auto">
+        {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+          <li key={index}>
+            {issue.path && <code className="font-mono">{issue.path}</code>}
+            {issue.path && " : "}
+            {issue.message}
+          </li>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <li>… et {issues.length - MAX_LISTED_ISSUES} autre(s)</li>
+        )}
+      </ul>
+    </AlertDescription>
+  </Alert>
+);
+
+export default FormatIssuesAlert;
@@ -0,0 +1,105 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { CardSchedule, ReviewGrade, getActiveScheduler } from "@/lib/scheduler";
+
+interface GradeButtonsProps {
+  onGrade: (grade: ReviewGrade) => void;
+  cardId: string;
+  schedule?: CardSchedule | null;
+  disabled?: boolean;
+  enableShortcuts?: boolean;
+  className?: string;
+}
+
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; shortcut: string; className: string }[] = [
+  {
+    grade: "again",
+    label: "À revoir",
+    shortcut: "1",
+    className: "border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950",
+  },
+  {
+    grade: "hard",
+    label: "Difficile",
+    shortcut: "2",
+    className: "border-orange-200 hover:bg-orange-50 hover:text-orange-600 dark:border-orange-800 dark:hover:bg-orange-950",
+  },
+  {
+    grade: "good",
+    label: "Bien",
+    shortcut: "3",
+    className: "border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950",
+  },
+  {
+    grade: "easy",
+    label: "Facile",
+    shortcut: "4",
+    className: "border-blue-200 hover:bg-blue-50 hover:text-blue-600 dark:border-blue-800 dark:hover:bg-blue-950",
+  },
+];
+
+const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / (60 * 1000));
+  if (minutes < 60) return `${Math.max(1, minutes)} min`;
+  const days = Math.round(ms / (24 * 60 * 60 * 1000));
+  if (days < 31) return `${Math.max(1, days)} j`;
+  const months = Math.round(days / 30);
+  if (months < 12) return `${months} mois`;
+  return `${Math.round(days / 365)} an(s)`;
+};
+
+const GradeButtons = ({ onGrade, cardId, schedule, disabled, enableShortcuts = true, className }: GradeButtonsProps) => {
+  useEffect(() => {
+    if (!enableShortcuts || disabled) return;
+
+    // Raccourcis clavier 1 à 4, ignorés pendant la saisie d'une réponse
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const option = GRADE_OPTIONS.find(({ shortcut }) => shortcut === e.key);
+      if (option) {
+        e.preventDefault();
+        onGrade(option.grade);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enableShortcuts, disabled, onGrade]);
+
+  const scheduler = getActiveScheduler();
+  const now = Date.now();
+  const current = schedule || scheduler.createSchedule(cardId, now);
+
+  return (
+    <div className={cn("grid grid-cols-2 sm:grid-cols-4 gap-2", className)}>
+      {GRADE_OPTIONS.map(({ grade, label, shortcut, className: gradeClassName }) => {
+        const next = scheduler.review(current, grade, now);
+        return (
+          <Button
+            key={grade}
+            variant="outline"
+            disabled={disabled}
+            onClick={() => onGrade(grade)}
+            className={cn("flex flex-col h-auto py-2", gradeClassName)}
+          >
+            <span className="font-medium">
+              {label}
+              {enableShortcuts && (
+                <kbd className="ml-2 hidden sm:inline text-[10px] px-1 rounded border bg-muted text-muted-foreground">
+                  {shortcut}
+                </kbd>
+              )}
+            </span>
+            <span className="text-xs text-muted-foreground">{formatInterval(next.due - now)}</span>
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GradeButtons;
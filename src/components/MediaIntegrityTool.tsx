@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Check, ImageOff, Search, Trash2, Wrench } from "lucide-react";
+import {
+  getStorageStats,
+  scanMediaIntegrity,
+  deleteOrphanMedia,
+  repairBrokenReferences,
+  MediaIntegrityReport,
+  MediaReference,
+} from "@/lib/storage";
+import { useToast } from "@/hooks/use-toast";
+import { Heading } from "@/components/ui/typography";
+import { formatBytes } from "@/lib/utils";
+
+type StorageStats = Awaited<ReturnType<typeof getStorageStats>>;
+
+const OWNER_LABELS: Record<MediaReference['owner'], string> = {
+  deck: "Deck",
+  theme: "Thème",
+  card: "Carte",
+  user: "Avatar",
+};
+
+/**
+ * Composant vérifiant la cohérence entre les médias stockés et les
+ * références des decks, thèmes, cartes et avatars
+ */
+const MediaIntegrityTool = () => {
+  const { toast } = useToast();
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [report, setReport] = useState<MediaIntegrityReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isFixing, setIsFixing] = useState(false);
+
+  useEffect(() => {
+    getStorageStats().then(setStats);
+  }, []);
+
+  const handleScan = async () => {
+    try {
+      setIsScanning(true);
+      setReport(await scanMediaIntegrity());
+    } catch (error) {
+      console.error('Erreur lors de l\'analyse des médias:', error);
+      toast({
+        title: "Erreur d'analyse",
+        description: "Impossible d'analyser les médias enregistrés.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDeleteOrphans = async () => {
+    if (!report) return;
+
+    try {
+      setIsFixing(true);
+      const deleted = await deleteOrphanMedia(report.orphans);
+      toast({
+        title: "Médias supprimés",
+        description: `${deleted} média(s) inutilisé(s) supprimé(s).`
+      });
+    } catch (error) {
+      console.error('Erreur lors de la suppression des médias:', error);
+      toast({
+        title: "Erreur",
+        description: "Certains médias n'ont pas pu être supprimés.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsFixing(false);
+      await handleScan();
+    }
+  };
+
+  const handleRepair = async () => {
+    if (!report) return;
+
+    try {
+      setIsFixing(true);
+      const { restored, cleared } = await repairBrokenReferences(report.brokenReferences);
+      toast({
+        title: "Références réparées",
+        description: `${restored} média(s) restauré(s), ${cleared} référence(s) retirée(s).`
+      });
+    } finally {
+      setIsFixing(false);
+      await handleScan();
+    }
+  };
+
+  const hasProblems = !!report && (report.orphans.length > 0 || report.brokenReferences.length > 0);
+
+  return (
+    <div className="space-y-4 border p-4 rounded-lg bg-background/50">
+      <Heading as="h3" size="lg" className="flex items-center gap-2">
+        <ImageOff className="h-5 w-5" />
+        Intégrité des médias
+      </Heading>
+
+      {stats && (
+        <p className="text-sm text-muted-foreground">
+          {stats.flashcardCount} carte(s), {stats.mediaCount} média(s) encore en base64 ({formatBytes(stats.storageSize * 1024)})
+        </p>
+      )}
+
+      {report && !hasProblems && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <Check className="h-4 w-4 text-green-600" />
+          <AlertTitle className="font-serif">Aucun problème détecté</AlertTitle>
+          <AlertDescription>
+            Les {report.storedCount} média(s) enregistré(s) correspondent aux {report.referenceCount} référence(s) de vos données.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.orphans.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle className="font-serif">Médias inutilisés</AlertTitle>
+          <AlertDescription>
+            {report.orphans.length} média(s) ne sont utilisés par aucune carte, aucun deck ni aucun thème ({formatBytes(report.orphanSize)}).
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.brokenReferences.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle className="font-serif">Médias manquants</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1 list-disc pl-4">
+              {report.brokenReferences.map(ref => (
+                <li key={`${ref.ownerId}-${ref.field}`}>
+                  {OWNER_LABELS[ref.owner]} « {ref.label || "Sans titre"} » : {ref.type === 'image' ? "image" : "audio"} introuvable
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2 flex-wrap">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleScan}
+          disabled={isScanning || isFixing}
+          className="flex items-center gap-2"
+        >
+          <Search className="h-4 w-4" />
+          {isScanning ? "Analyse en cours..." : "Analyser"}
+        </Button>
+
+        {report && report.orphans.length > 0 && (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={handleDeleteOrphans}
+            disabled={isScanning || isFixing}
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            Supprimer les médias inutilisés
+          </Button>
+        )}
+
+        {report && report.brokenReferences.length > 0 && (
+          <Button
+            size="sm"
+            onClick={handleRepair}
+            disabled={isScanning || isFixing}
+            className="flex items-center gap-2"
+          >
+            <Wrench className="h-4 w-4" />
+            Réparer les références
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        La réparation restaure un média manquant à partir de la copie conservée dans la carte ou le deck, ou retire la référence si aucune copie n'existe. Les médias des éléments de la corbeille sont conservés.
+      </p>
+    </div>
+  );
+};
+
+export default MediaIntegrityTool;
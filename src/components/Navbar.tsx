@@ -1,15 +1,15 @@
 
 import { Link, useLocation } from "react-router-dom";
-import { Home, Plus, Search, User, Menu, X, Folder } from "lucide-react";
+import { Home, Plus, Search, User, Menu, X, Folder, CalendarCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import SearchCommand from "@/components/SearchCommand";
 
 const Navbar = () => {
   const location = useLocation();
-  const { toast } = useToast();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const isMobile = useIsMobile();
   const [showMobileNav, setShowMobileNav] = useState(false);
   
@@ -33,6 +33,19 @@ const Navbar = () => {
     };
   }, [isMobile]);
   
+  // Ctrl+K / Cmd+K ouvre la recherche
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
   // Fermer le menu lorsqu'une route change
   useEffect(() => {
     setIsMenuOpen(false);
@@ -71,17 +84,18 @@ const Navbar = () => {
           <Link to="/my-decks" className={`nav-link ${location.pathname === '/my-decks' ? 'active' : ''}`}>
             Mes Decks
           </Link>
+          <Link to="/review" className={`nav-link ${location.pathname === '/review' ? 'active' : ''}`}>
+            Réviser
+          </Link>
         </nav>
 
         <div className="flex items-center gap-4">
           <Button 
             variant="ghost" 
             size="icon"
-            onClick={() => toast({
-              title: "Recherche",
-              description: "La fonction de recherche sera bientôt disponible",
-            })}
-            className="hidden md:flex"
+            onClick={() => setIsSearchOpen(true)}
+            aria-label="Rechercher (Ctrl+K)"
+            title="Rechercher (Ctrl+K)"
           >
             <Search className="h-5 w-5" />
           </Button>
@@ -166,6 +180,15 @@ const Navbar = () => {
                 <Folder className="h-5 w-5" />
                 <span className="font-heading">Mes Decks</span>
               </Link>
+              
+              <Link 
+                to="/review" 
+                className={`flex items-center gap-3 py-2 touch-target ${location.pathname === '/review' ? 'text-primary font-medium' : 'text-foreground'}`}
+                onClick={toggleMenu}
+              >
+                <CalendarCheck className="h-5 w-5" />
+                <span className="font-heading">Réviser</span>
+              </Link>
             </nav>
             
             <div className="absolute bottom-0 left-0 right-0 p-6 border-t">
@@ -211,6 +234,8 @@ const Navbar = () => {
           </Link>
         </div>
       )}
+      
+      <SearchCommand open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </header>
   );
 };
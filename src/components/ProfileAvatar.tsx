@@ -4,7 +4,7 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Upload, User as UserIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { base64ToBlob, blobToBase64, storeImage, generateMediaId } from "@/lib/indexedDBStorage";
+import { base64ToBlob, blobToBase64, storeMedia } from "@/lib/indexedDBStorage";
 import {
   Tooltip,
   TooltipContent,
@@ -64,12 +64,11 @@ const ProfileAvatar = ({
         setAvatar(base64);
         
         // Stocker l'image dans IndexedDB
-        const avatarId = generateMediaId('img');
         const contentType = file.type;
         const imageBlob = base64ToBlob(base64, contentType);
-        const success = await storeImage(avatarId, imageBlob);
+        const avatarId = await storeMedia('image', imageBlob);
         
-        if (success && onAvatarChange) {
+        if (avatarId && onAvatarChange) {
           onAvatarChange(base64, avatarId);
           
           toast({
@@ -0,0 +1,142 @@
+import { useState, useEffect, ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { BookOpen, FileText, Layers } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { search, highlightMatches, makeSnippet, SearchKind, SearchResponse, SearchResult } from "@/lib/search";
+import { repository } from "@/lib/repository";
+
+interface SearchCommandProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GROUPS: Array<{ kind: SearchKind; heading: string; icon: typeof BookOpen }> = [
+  { kind: 'card', heading: "Cartes", icon: FileText },
+  { kind: 'theme', heading: "Thèmes", icon: Layers },
+  { kind: 'deck', heading: "Decks", icon: BookOpen },
+];
+
+const EMPTY_RESPONSE: SearchResponse = { terms: [], results: [] };
+
+// Chemin de la page où se trouve le résultat ; les cartes sont ciblées par l'ancre
+const getResultPath = ({ document }: SearchResult): string => {
+  if (document.kind === 'deck') return `/deck/${document.deckId}`;
+  if (document.kind === 'theme') return `/deck/${document.deckId}/theme/${document.recordId}`;
+  return `/deck/${document.deckId}#card-${document.recordId}`;
+};
+
+const renderHighlighted = (text: string, terms: string[]): ReactNode =>
+  highlightMatches(text, terms).map((segment, index) =>
+    segment.match ? (
+      <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{segment.text}</mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+
+/**
+ * Palette de recherche dans le texte des cartes, des thèmes et des decks
+ */
+const SearchCommand = ({ open, onOpenChange }: SearchCommandProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [response, setResponse] = useState<SearchResponse>(EMPTY_RESPONSE);
+  const [deckTitles, setDeckTitles] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    repository.getDecks().then(decks => {
+      setDeckTitles(Object.fromEntries(decks.map(deck => [deck.id, deck.title])));
+    });
+  }, [open]);
+
+  // La recherche part quand la saisie marque une pause
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      search(query)
+        .then(result => {
+          if (!cancelled) setResponse(result);
+        })
+        .catch(error => {
+          console.error("Erreur lors de la recherche:", error);
+        });
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setQuery("");
+      setResponse(EMPTY_RESPONSE);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const openResult = (result: SearchResult) => {
+    handleOpenChange(false);
+    navigate(getResultPath(result));
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Rechercher dans les cartes, thèmes et decks..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {response.terms.length > 0 && (
+          <CommandEmpty>Aucun résultat pour « {query} »</CommandEmpty>
+        )}
+        {GROUPS.map(({ kind, heading, icon: Icon }) => {
+          const results = response.results.filter(result => result.document.kind === kind);
+          if (results.length === 0) return null;
+
+          return (
+            <CommandGroup key={kind} heading={heading}>
+              {results.map(result => (
+                <CommandItem
+                  key={result.document.id}
+                  value={result.document.id}
+                  onSelect={() => openResult(result)}
+                  className="items-start gap-2"
+                >
+                  <Icon className="mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium line-clamp-1">
+                      {renderHighlighted(result.document.title || "Sans titre", response.terms)}
+                    </p>
+                    {result.field.text !== result.document.title && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {renderHighlighted(makeSnippet(result.field.text, response.terms), response.terms)}
+                      </p>
+                    )}
+                    {kind !== 'deck' && deckTitles[result.document.deckId] && (
+                      <p className="text-xs text-muted-foreground/70 line-clamp-1">
+                        {deckTitles[result.document.deckId]}
+                      </p>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default SearchCommand;
@@ -3,119 +3,122 @@ import { useState, useEffect } from 'react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, Database, HardDrive, Check, RefreshCw, Trash2 } from "lucide-react";
-import { migrateAllFlashcardMedia, checkForMigrationNeeded, cleanupMigratedData } from "@/utils/mediaMigrationTool";
+import { AlertCircle, Database, HardDrive, Check, RefreshCw } from "lucide-react";
+import { getMigrationReport, runMigrations, MigrationReport } from "@/lib/migrations";
 import { useToast } from "@/hooks/use-toast";
 import { Heading } from "@/components/ui/typography";
 
 /**
- * Composant pour gérer la migration des médias vers IndexedDB
+ * Composant affichant les migrations de données en attente et permettant
+ * de les appliquer
  */
 const StorageMigrationTool = () => {
   const { toast } = useToast();
   const [isMigrating, setIsMigrating] = useState(false);
-  const [isCleaning, setIsCleaning] = useState(false);
-  const [itemsToMigrate, setItemsToMigrate] = useState<number>(0);
+  const [report, setReport] = useState<MigrationReport | null>(null);
   const [migrationProgress, setMigrationProgress] = useState(0);
+  const [currentStep, setCurrentStep] = useState<string | null>(null);
 
   useEffect(() => {
     checkMigrationStatus();
   }, []);
 
   const checkMigrationStatus = async () => {
-    const count = await checkForMigrationNeeded();
-    setItemsToMigrate(count);
+    try {
+      setReport(await getMigrationReport());
+    } catch (error) {
+      console.error('Erreur lors de la vérification des migrations:', error);
+    }
   };
 
   const handleMigration = async () => {
+    if (!report) return;
+    
     try {
       setIsMigrating(true);
       setMigrationProgress(0);
       
-      // Simuler la progression avec des intervalles
-      const interval = setInterval(() => {
-        setMigrationProgress((prev) => {
-          const newValue = prev + Math.random() * 10;
-          return newValue >= 90 ? 90 : newValue;
-        });
-      }, 500);
-      
-      const migratedCount = await migrateAllFlashcardMedia();
+      // Chaque migration occupe une part égale de la barre de progression
+      const steps = report.pending.map(migration => migration.id);
+      const results = await runMigrations((migration, done, total) => {
+        const step = Math.max(steps.indexOf(migration.id), 0);
+        setCurrentStep(migration.description);
+        setMigrationProgress(((step + done / total) / steps.length) * 100);
+      });
       
-      clearInterval(interval);
       setMigrationProgress(100);
       
       // Mettre à jour le statut après migration
       await checkMigrationStatus();
       
+      const migratedCount = results.reduce((sum, result) => sum + result.affected, 0);
       toast({
         title: "Migration terminée",
-        description: `${migratedCount} médias ont été migrés vers IndexedDB.`
+        description: `${results.length} migration(s) appliquée(s), ${migratedCount} élément(s) mis à jour.`
       });
-      
-      // Réinitialiser après un délai
-      setTimeout(() => {
-        setMigrationProgress(0);
-        setIsMigrating(false);
-      }, 2000);
-      
     } catch (error) {
       console.error('Erreur lors de la migration:', error);
+      await checkMigrationStatus();
       toast({
         title: "Erreur de migration",
-        description: "Une erreur est survenue lors de la migration des médias.",
+        description: "La migration a été interrompue. Elle reprendra là où elle s'est arrêtée.",
         variant: "destructive"
       });
-      setIsMigrating(false);
-      setMigrationProgress(0);
+    } finally {
+      // Réinitialiser après un délai
+      setTimeout(() => {
+        setMigrationProgress(0);
+        setCurrentStep(null);
+        setIsMigrating(false);
+      }, 2000);
     }
   };
 
-  const handleCleanup = async () => {
-    try {
-      setIsCleaning(true);
-      
-      const cleanedCount = await cleanupMigratedData();
-      
-      toast({
-        title: "Nettoyage terminé",
-        description: `${cleanedCount} flashcards ont été nettoyées.`
-      });
-      
-      setIsCleaning(false);
-      
-    } catch (error) {
-      console.error('Erreur lors du nettoyage:', error);
-      toast({
-        title: "Erreur de nettoyage",
-        description: "Une erreur est survenue lors du nettoyage des données.",
-        variant: "destructive"
-      });
-      setIsCleaning(false);
-    }
-  };
+  const pendingCount = report?.pending.length ?? 0;
 
   return (
     <div className="space-y-4 border p-4 rounded-lg bg-background/50">
       <Heading as="h3" size="lg" className="flex items-center gap-2">
         <Database className="h-5 w-5" />
-        Gestion du stockage des médias
+        Migrations des données
       </Heading>
       
-      {itemsToMigrate > 0 ? (
+      {report && (
+        <p className="text-sm text-muted-foreground">
+          Version des données : {report.currentVersion} / {report.latestVersion}
+        </p>
+      )}
+      
+      {report?.interrupted && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle className="font-serif">Migration interrompue</AlertTitle>
+          <AlertDescription>
+            La migration « {report.interrupted} » n'a pas pu se terminer. Relancez-la pour reprendre où elle s'est arrêtée.
+          </AlertDescription>
+        </Alert>
+      )}
+      
+      {pendingCount > 0 ? (
         <Alert>
           <AlertCircle className="h-4 w-4" />
-          <AlertTitle className="font-serif">Médias à optimiser</AlertTitle>
+          <AlertTitle className="font-serif">Migrations en attente</AlertTitle>
           <AlertDescription>
-            {itemsToMigrate} flashcard(s) contiennent des médias qui peuvent être optimisés en les déplaçant vers IndexedDB.
+            <ul className="mt-2 space-y-1 list-disc pl-4">
+              {report!.pending.map(migration => (
+                <li key={migration.id}>
+                  {migration.description} : {migration.affected} élément(s)
+                </li>
+              ))}
+            </ul>
           </AlertDescription>
         </Alert>
       ) : (
         <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
           <Check className="h-4 w-4 text-green-600" />
-          <AlertTitle className="font-serif">Stockage optimisé</AlertTitle>
+          <AlertTitle className="font-serif">Données à jour</AlertTitle>
           <AlertDescription>
-            Tous vos médias utilisent déjà le stockage hybride optimisé.
+            Vos données utilisent déjà le format le plus récent.
           </AlertDescription>
         </Alert>
       )}
@@ -134,22 +137,11 @@ const StorageMigrationTool = () => {
         <Button 
           onClick={handleMigration} 
           size="sm"
-          disabled={isMigrating || itemsToMigrate === 0}
+          disabled={isMigrating || pendingCount === 0}
           className="flex items-center gap-2"
         >
           <HardDrive className="h-4 w-4" />
-          {isMigrating ? "Migration en cours..." : "Optimiser le stockage"}
-        </Button>
-        
-        <Button 
-          variant="outline"
-          size="sm"
-          onClick={handleCleanup}
-          disabled={isCleaning || itemsToMigrate > 0}
-          className="flex items-center gap-2"
-        >
-          <Trash2 className="h-4 w-4" />
-          {isCleaning ? "Nettoyage en cours..." : "Nettoyer les données redondantes"}
+          {isMigrating ? "Migration en cours..." : "Appliquer les migrations"}
         </Button>
       </div>
       
@@ -157,7 +149,7 @@ const StorageMigrationTool = () => {
         <div className="space-y-2">
           <Progress value={migrationProgress} className="h-2" />
           <p className="text-xs text-muted-foreground">
-            Migration en cours: {Math.round(migrationProgress)}%
+            {currentStep ? `${currentStep} : ` : "Migration en cours : "}{Math.round(migrationProgress)}%
           </p>
         </div>
       )}
@@ -0,0 +1,313 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, Download, ImageDown, Loader2, RefreshCw, VolumeX } from "lucide-react";
+import {
+  getStorageUsage,
+  recompressDeckImages,
+  stripDeckAudio,
+  exportDeckWithMedia,
+  offloadDeck,
+  getTrashRetentionDays,
+  DeckStorageUsage,
+  StorageUsageReport,
+} from "@/lib/storage";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/utils";
+
+// 'confirm-offload' : le deck a été téléchargé, l'utilisateur doit confirmer que le fichier est enregistré
+type PendingAction = { type: 'strip-audio' | 'offload' | 'confirm-offload'; deck: DeckStorageUsage };
+
+// Délai avant de libérer l'URL du fichier, le temps que le navigateur l'enregistre
+const DOWNLOAD_URL_LIFETIME_MS = 60 * 1000;
+
+const deckFileName = (title: string) => `${title.replace(/\s+/g, '_')}_deck.json`;
+
+// Télécharge un deck exporté au format JSON
+const downloadDeck = (data: object, title: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = deckFileName(title);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+/**
+ * Tableau de bord de l'espace de stockage : répartition par deck et par
+ * type de média, cartes les plus lourdes et actions pour libérer de la place
+ */
+const StorageUsageDashboard = () => {
+  const { toast } = useToast();
+  const [report, setReport] = useState<StorageUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyDeckId, setBusyDeckId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setReport(await getStorageUsage());
+    } catch (error) {
+      console.error('Erreur lors du calcul de l\'espace utilisé:', error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de calculer l'espace utilisé",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Exécute une action sur un deck puis recalcule l'espace utilisé
+  const runDeckAction = async (deck: DeckStorageUsage, action: () => Promise<string>) => {
+    try {
+      setBusyDeckId(deck.deckId);
+      const description = await action();
+      toast({ title: deck.title, description });
+    } catch (error) {
+      console.error('Erreur lors de l\'action sur le deck:', error);
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "L'action n'a pas pu être effectuée",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyDeckId(null);
+      await refresh();
+    }
+  };
+
+  const handleRecompress = (deck: DeckStorageUsage) =>
+    runDeckAction(deck, async () => {
+      const count = await recompressDeckImages(deck.deckId);
+      return `${count} image(s) recompressée(s)`;
+    });
+
+  // Rien ne garantit que le téléchargement a abouti : l'utilisateur le confirme avant l'effacement
+  const handleDownloadDeck = async (deck: DeckStorageUsage) => {
+    try {
+      setBusyDeckId(deck.deckId);
+      downloadDeck(await exportDeckWithMedia(deck.deckId), deck.title);
+      setPendingAction({ type: 'confirm-offload', deck });
+    } catch (error) {
+      console.error('Erreur lors de l\'export du deck:', error);
+      toast({
+        title: "Erreur",
+        description: "Le deck n'a pas pu être exporté",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyDeckId(null);
+    }
+  };
+
+  const downloadAgain = (deck: DeckStorageUsage) => {
+    setPendingAction(null);
+    handleDownloadDeck(deck);
+  };
+
+  const handleConfirmAction = () => {
+    if (!pendingAction) return;
+    const { type, deck } = pendingAction;
+    setPendingAction(null);
+
+    if (type === 'strip-audio') {
+      runDeckAction(deck, async () => {
+        const count = await stripDeckAudio(deck.deckId);
+        return `Audio retiré de ${count} carte(s)`;
+      });
+    } else if (type === 'offload') {
+      handleDownloadDeck(deck);
+    } else {
+      runDeckAction(deck, async () => {
+        offloadDeck(deck.deckId);
+        return `Deck placé dans la corbeille : il sera effacé de cet appareil dans ${getTrashRetentionDays()} jour(s)`;
+      });
+    }
+  };
+
+  const usagePercent = report?.quota ? Math.min(100, ((report.usage || 0) / report.quota) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Utilisation de l'espace</CardTitle>
+        <CardDescription>
+          Un média partagé par plusieurs decks est compté dans chacun d'eux.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report?.quota !== undefined && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Espace utilisé par l'application</span>
+              <span>{formatBytes(report.usage || 0)} / {formatBytes(report.quota)}</span>
+            </div>
+            <Progress value={usagePercent} className="h-2" />
+          </div>
+        )}
+
+        {report?.nearQuota && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle className="font-serif">Espace presque plein</AlertTitle>
+            <AlertDescription>
+              Le navigateur pourrait refuser de nouveaux médias. Recompressez les images ou exportez les decks que vous n'étudiez plus.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {report && (
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-primary/10 rounded-lg p-4 text-center">
+              <span className="text-xl font-bold">{formatBytes(report.imageSize)}</span>
+              <p className="text-xs text-muted-foreground">Images</p>
+            </div>
+            <div className="bg-primary/10 rounded-lg p-4 text-center">
+              <span className="text-xl font-bold">{formatBytes(report.audioSize)}</span>
+              <p className="text-xs text-muted-foreground">Audio</p>
+            </div>
+            <div className="bg-primary/10 rounded-lg p-4 text-center">
+              <span className="text-xl font-bold">{formatBytes(report.recordsSize)}</span>
+              <p className="text-xs text-muted-foreground">Decks et cartes</p>
+            </div>
+          </div>
+        )}
+
+        {report && report.decks.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold font-serif">Par deck</h4>
+            {report.decks.map(deck => (
+              <div key={deck.deckId} className="border rounded-lg p-3 space-y-2">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="font-medium line-clamp-1">{deck.title || "Sans titre"}</span>
+                  <span className="shrink-0">{formatBytes(deck.totalSize)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {deck.cardCount} carte(s) · images {formatBytes(deck.imageSize)} · audio {formatBytes(deck.audioSize)} · données {formatBytes(deck.recordsSize)}
+                </p>
+                <div className="flex gap-2 flex-wrap">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!!busyDeckId || deck.imageSize === 0}
+                    onClick={() => handleRecompress(deck)}
+                  >
+                    {busyDeckId === deck.deckId ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <ImageDown className="h-4 w-4 mr-1" />
+                    )}
+                    Recompresser les images
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!!busyDeckId || deck.audioSize === 0}
+                    onClick={() => setPendingAction({ type: 'strip-audio', deck })}
+                  >
+                    <VolumeX className="h-4 w-4 mr-1" />
+                    Retirer l'audio
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!!busyDeckId}
+                    onClick={() => setPendingAction({ type: 'offload', deck })}
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Exporter et libérer
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report && report.largestCards.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold font-serif">Cartes les plus lourdes</h4>
+            <ul className="space-y-1 text-sm">
+              {report.largestCards.map(card => (
+                <li key={card.cardId} className="flex justify-between gap-2">
+                  <span className="line-clamp-1">
+                    {card.label || "Sans texte"}
+                    <span className="text-muted-foreground">
+                      {" "}— {report.decks.find(deck => deck.deckId === card.deckId)?.title}
+                    </span>
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">{formatBytes(card.size)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full mt-2"
+          onClick={refresh}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Actualiser les statistiques d'espace
+        </Button>
+      </CardContent>
+
+      <Dialog open={!!pendingAction} onOpenChange={open => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction?.type === 'strip-audio'
+                ? "Retirer l'audio"
+                : pendingAction?.type === 'confirm-offload'
+                  ? "Le fichier est-il enregistré ?"
+                  : "Exporter et libérer"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.type === 'strip-audio'
+                ? `Les sons des cartes de « ${pendingAction.deck.title} » seront supprimés. Cette action est irréversible.`
+                : pendingAction?.type === 'confirm-offload'
+                  ? `Vérifiez que le fichier ${deckFileName(pendingAction.deck.title)} a bien été enregistré. Le deck sera ensuite placé dans la corbeille, où il restera ${getTrashRetentionDays()} jour(s) avant d'être effacé de cet appareil.`
+                  : `« ${pendingAction?.deck.title} » sera téléchargé au format JSON. Une fois le fichier enregistré, vous pourrez le retirer de cet appareil et le réimporter plus tard depuis ce fichier.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Annuler
+            </Button>
+            {pendingAction?.type === 'confirm-offload' && (
+              <Button variant="outline" onClick={() => downloadAgain(pendingAction.deck)}>
+                Télécharger à nouveau
+              </Button>
+            )}
+            <Button
+              variant={pendingAction?.type === 'offload' ? "default" : "destructive"}
+              onClick={handleConfirmAction}
+            >
+              {pendingAction?.type === 'offload'
+                ? "Télécharger"
+                : pendingAction?.type === 'confirm-offload'
+                  ? "Fichier enregistré, retirer le deck"
+                  : "Confirmer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default StorageUsageDashboard;
@@ -0,0 +1,44 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StudyDirection } from "@/lib/localStorage";
+
+interface StudyDirectionSelectProps {
+  id?: string;
+  value?: StudyDirection;
+  onChange: (value: StudyDirection | undefined) => void;
+  // Propose l'option « Selon le deck » (valeur undefined) pour les cartes
+  allowInherit?: boolean;
+  className?: string;
+}
+
+const INHERIT_VALUE = "inherit";
+
+const STUDY_DIRECTION_LABELS: Record<StudyDirection, string> = {
+  forward: "Recto → Verso",
+  reverse: "Verso → Recto",
+  both: "Les deux sens",
+};
+
+const StudyDirectionSelect = ({ id, value, onChange, allowInherit = false, className }: StudyDirectionSelectProps) => {
+  const selected = value || (allowInherit ? INHERIT_VALUE : "forward");
+
+  return (
+    <Select
+      value={selected}
+      onValueChange={(next) => onChange(next === INHERIT_VALUE ? undefined : next as StudyDirection)}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Sens d'étude" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowInherit && <SelectItem value={INHERIT_VALUE}>Selon le deck</SelectItem>}
+        {(Object.keys(STUDY_DIRECTION_LABELS) as StudyDirection[]).map(direction => (
+          <SelectItem key={direction} value={direction}>
+            {STUDY_DIRECTION_LABELS[direction]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default StudyDirectionSelect;
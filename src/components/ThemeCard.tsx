@@ -9,10 +9,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Layers, ArrowRight, Edit, Trash2, Save } from "lucide-react";
 import { Link } from "react-router-dom";
-import { updateTheme, deleteTheme, Theme } from "@/lib/localStorage";
+import { Theme } from "@/lib/localStorage";
+import { undoableRepository } from "@/lib/history";
 import ThemeImageUploader from "./ThemeImageUploader";
+import UndoToastAction from "./UndoToastAction";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { migrateBase64MediaToIndexedDB } from "@/lib/storage/mediaStorage";
 
 export interface ThemeCardProps {
   id: string;
@@ -45,21 +46,7 @@ const ThemeCard = ({
   });
   const isMobile = useIsMobile();
 
-  // Optimisation : migration automatique des images en base64 vers IndexedDB
-  useState(() => {
-    if (coverImage && coverImage.startsWith('data:')) {
-      migrateBase64MediaToIndexedDB(coverImage).then(({ imageId }) => {
-        if (imageId && onUpdate) {
-          // Mettre à jour silencieusement le thème pour utiliser la référence IndexedDB
-          updateTheme(id, { coverImageId: imageId });
-        }
-      }).catch(error => {
-        console.error("Échec de migration automatique d'image:", error);
-      });
-    }
-  });
-
-  const handleUpdate = () => {
+  const handleUpdate = async () => {
     if (!editingTheme.title.trim()) {
       toast({
         title: "Titre requis",
@@ -70,7 +57,7 @@ const ThemeCard = ({
     }
 
     try {
-      const updated = updateTheme(id, {
+      const updated = await undoableRepository.updateTheme(id, {
         title: editingTheme.title.trim(),
         description: editingTheme.description.trim(),
         coverImage: editingTheme.coverImage
@@ -82,6 +69,7 @@ const ThemeCard = ({
         toast({
           title: "Thème mis à jour",
           description: "Le thème a été modifié avec succès",
+          action: <UndoToastAction />,
         });
       }
     } catch (error) {
@@ -94,15 +82,16 @@ const ThemeCard = ({
     }
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     try {
-      const success = deleteTheme(id);
+      const success = await undoableRepository.deleteTheme(id);
       if (success) {
         setShowDeleteDialog(false);
         onDelete?.();
         toast({
           title: "Thème supprimé",
-          description: "Le thème a été supprimé avec succès",
+          description: "Le thème a été déplacé dans la corbeille",
+          action: <UndoToastAction />,
         });
       }
     } catch (error) {
@@ -257,7 +246,7 @@ const ThemeCard = ({
           <DialogHeader>
             <DialogTitle className="font-serif">Supprimer le thème</DialogTitle>
             <DialogDescription>
-              Êtes-vous sûr de vouloir supprimer ce thème ? Cette action est irréversible.
+              Êtes-vous sûr de vouloir supprimer ce thème ? Il sera déplacé dans la corbeille.
             </DialogDescription>
           </DialogHeader>
           
@@ -0,0 +1,24 @@
+import { useState } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { getLastCommandId } from "@/lib/history";
+import { undoWithToast } from "@/hooks/use-undo-redo";
+
+/**
+ * Bouton "Annuler" à placer dans le toast qui suit une modification :
+ * il annule la commande enregistrée juste avant l'affichage du toast
+ */
+const UndoToastAction = () => {
+  const [commandId] = useState(() => getLastCommandId());
+
+  return (
+    <ToastAction
+      altText="Annuler cette action"
+      disabled={!commandId}
+      onClick={() => commandId && undoWithToast(commandId)}
+    >
+      Annuler
+    </ToastAction>
+  );
+};
+
+export default UndoToastAction;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, ArrowRight, FileUp } from "lucide-react";
+import { decodeText, detectDelimiter, parseCsv, CsvDelimiter } from "@/lib/csv";
+import { guessColumnRoles, mapCsvRows, importCsvCards, getUser, CsvColumnRole, Deck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { useToast } from "@/hooks/use-toast";
+
+interface CsvImporterProps {
+  onImported: (deckId: string) => void;
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': "Virgule",
+  ';': "Point-virgule",
+  '\t': "Tabulation",
+};
+
+const ROLE_LABELS: Record<CsvColumnRole, string> = {
+  ignore: "Ignorer",
+  front: "Recto",
+  back: "Verso",
+  additionalInfo: "Infos complémentaires",
+  theme: "Thème",
+  tags: "Étiquettes",
+};
+
+const NEW_DECK = "new";
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * Assistant d'import de cartes depuis un fichier CSV, TSV ou séparé par des
+ * points-virgules : choix des colonnes, aperçu et erreurs ligne par ligne
+ */
+const CsvImporter = ({ onImported }: CsvImporterProps) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<'source' | 'mapping'>('source');
+  const [text, setText] = useState("");
+  const [encoding, setEncoding] = useState<string | null>(null);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [roles, setRoles] = useState<CsvColumnRole[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [targetDeckId, setTargetDeckId] = useState(NEW_DECK);
+  const [newDeckTitle, setNewDeckTitle] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const user = getUser();
+    if (!user) return;
+    repository.getDecksByUser(user.id).then(setDecks);
+  }, []);
+
+  const parsed = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const header = hasHeader ? parsed.rows[0]?.cells || null : null;
+  const dataRows = useMemo(() => (hasHeader ? parsed.rows.slice(1) : parsed.rows), [parsed, hasHeader]);
+  const mapping = useMemo(() => mapCsvRows(dataRows, roles), [dataRows, roles]);
+  const errors = [...parsed.errors, ...mapping.errors].sort((a, b) => a.line - b.line);
+  const errorLines = new Set(errors.map(error => error.line));
+
+  // Les rôles sont devinés à nouveau dès que le découpage du fichier change
+  const resetRoles = (source: string, sourceDelimiter: CsvDelimiter, withHeader: boolean) => {
+    const rows = parseCsv(source, sourceDelimiter).rows;
+    const columnCount = Math.max(0, ...rows.slice(0, 50).map(row => row.cells.length));
+    setRoles(guessColumnRoles(withHeader ? rows[0]?.cells || null : null, columnCount));
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const decoded = decodeText(await file.arrayBuffer());
+    setText(decoded.text);
+    setEncoding(decoded.encoding);
+    setDelimiter(detectDelimiter(decoded.text));
+    setNewDeckTitle(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleContinue = () => {
+    resetRoles(text, delimiter, hasHeader);
+    setStep('mapping');
+  };
+
+  const handleDelimiterChange = (value: CsvDelimiter) => {
+    setDelimiter(value);
+    resetRoles(text, value, hasHeader);
+  };
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHasHeader(checked);
+    resetRoles(text, delimiter, checked);
+  };
+
+  // Recto, verso et les autres rôles ne sont attribués qu'à une seule colonne
+  const handleRoleChange = (index: number, role: CsvColumnRole) => {
+    setRoles(roles.map((current, i) => {
+      if (i === index) return role;
+      return role !== 'ignore' && current === role ? 'ignore' : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsImporting(true);
+      const deckId = await importCsvCards(
+        mapping.cards,
+        targetDeckId === NEW_DECK ? { title: newDeckTitle.trim() } : { deckId: targetDeckId }
+      );
+
+      toast({
+        title: "Import terminé",
+        description: errors.length > 0
+          ? `${mapping.cards.length} carte(s) importée(s), ${errors.length} ligne(s) ignorée(s)`
+          : `${mapping.cards.length} carte(s) importée(s)`,
+      });
+      onImported(deckId);
+    } catch (error) {
+      console.error("Erreur lors de l'import CSV:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'importer les cartes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (step === 'source') {
+    return (
+      <div className="space-y-4">
+        <div className="grid w-full items-center gap-1.5">
+          <Label htmlFor="csv-file">Fichier CSV ou TSV</Label>
+          <Input id="csv-file" type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} />
+          {encoding && (
+            <p className="text-xs text-muted-foreground">Encodage détecté : {encoding}</p>
+          )}
+        </div>
+
+        <div className="grid w-full items-center gap-1.5">
+          <Label htmlFor="csv-text">Ou collez le contenu</Label>
+          <Textarea
+            id="csv-text"
+            value={text}
+            onChange={e => {
+              setText(e.target.value);
+              setEncoding(null);
+              setDelimiter(detectDelimiter(e.target.value));
+            }}
+            placeholder={"recto;verso\nbonjour;hello"}
+            rows={8}
+            className="font-mono text-xs"
+          />
+        </div>
+
+        <Button onClick={handleContinue} className="w-full" disabled={!text.trim()}>
+          Continuer
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const missingRoles = !roles.includes('front') || !roles.includes('back');
+  const canImport = mapping.cards.length > 0 && !missingRoles && (targetDeckId !== NEW_DECK || !!newDeckTitle.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-1.5">
+          <Label>Séparateur</Label>
+          <Select value={delimiter} onValueChange={value => handleDelimiterChange(value as CsvDelimiter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Checkbox id="csv-header" checked={hasHeader} onCheckedChange={checked => handleHeaderChange(checked === true)} />
+          <Label htmlFor="csv-header" className="text-sm">La première ligne contient les en-têtes</Label>
+        </div>
+        {encoding && (
+          <p className="text-xs text-muted-foreground pb-2">Encodage : {encoding}</p>
+        )}
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Ligne</TableHead>
+              {roles.map((role, index) => (
+                <TableHead key={index} className="min-w-40 py-2 align-top">
+                  <Select value={role} onValueChange={value => handleRoleChange(index, value as CsvColumnRole)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {header && (
+                    <p className="mt-1 text-xs font-normal line-clamp-1">{header[index]}</p>
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dataRows.slice(0, PREVIEW_ROWS).map(row => (
+              <TableRow key={row.line} className={errorLines.has(row.line) ? "bg-destructive/10" : undefined}>
+                <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                {roles.map((role, index) => (
+                  <TableCell key={index} className={role === 'ignore' ? "text-muted-foreground/60" : undefined}>
+                    <span className="line-clamp-2">{row.cells[index]}</span>
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {dataRows.length > PREVIEW_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          Aperçu des {PREVIEW_ROWS} premières lignes sur {dataRows.length}
+        </p>
+      )}
+
+      {missingRoles && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Choisissez la colonne du recto et celle du verso</AlertDescription>
+        </Alert>
+      )}
+
+      {!missingRoles && errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="mb-1">{errors.length} ligne(s) ne seront pas importées :</p>
+            <ul className="text-xs space-y-0.5 max-h-40 overflow-y-auto">
+              {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <li key={index}>Ligne {error.line} : {error.message}</li>
+              ))}
+              {errors.length > MAX_LISTED_ERRORS && (
+                <li>… et {errors.length - MAX_LISTED_ERRORS} autre(s)</li>
+              )}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-1.5">
+          <Label>Importer dans</Label>
+          <Select value={targetDeckId} onValueChange={setTargetDeckId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_DECK}>Nouveau deck</SelectItem>
+              {decks.map(deck => (
+                <SelectItem key={deck.id} value={deck.id}>{deck.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {targetDeckId === NEW_DECK && (
+          <div className="grid gap-1.5">
+            <Label htmlFor="csv-deck-title">Titre du deck</Label>
+            <Input id="csv-deck-title" value={newDeckTitle} onChange={e => setNewDeckTitle(e.target.value)} />
+          </div>
+        )}
+      </div>
+      {roles.includes('tags') && (
+        <p className="text-xs text-muted-foreground">Les étiquettes sont ajoutées à celles du deck.</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setStep('source')} disabled={isImporting}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour
+        </Button>
+        <Button onClick={handleImport} className="flex-1" disabled={!canImport || isImporting}>
+          {isImporting ? (
+            <>
+              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+              Importation...
+            </>
+          ) : (
+            <>
+              <FileUp className="mr-2 h-4 w-4" />
+              Importer {mapping.cards.length} carte(s)
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImporter;
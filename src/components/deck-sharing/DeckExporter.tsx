@@ -1,11 +1,12 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Download } from "lucide-react";
-import { exportDeckToJson, getDecks } from "@/lib/localStorage";
+import { AlertCircle, Download, FileJson } from "lucide-react";
+import { exportDeckToJson, exportDeckBundle, Deck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 import { useToast } from "@/hooks/use-toast";
 
 interface DeckExporterProps {
@@ -13,13 +14,29 @@ interface DeckExporterProps {
   onDeckSelect: (deckId: string) => void;
 }
 
+// Télécharge un fichier généré dans le navigateur
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
   const [jsonContent, setJsonContent] = useState<string>("");
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const { toast } = useToast();
-  const decks = getDecks().filter(deck => !deck.isPublished);
+  const [decks, setDecks] = useState<Deck[]>([]);
+
+  useEffect(() => {
+    repository.getDecks().then(allDecks => setDecks(allDecks.filter(deck => !deck.isPublished)));
+  }, []);
   
-  const handleExport = async () => {
+  const handleExport = async (format: 'bundle' | 'json') => {
     if (!selectedDeck) {
       toast({
         title: "Erreur",
@@ -31,20 +48,26 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
     
     try {
       setIsExporting(true);
+      
+      if (format === 'bundle') {
+        // Archive zip : deck.json et les images et sons des cartes
+        const bundle = await exportDeckBundle(selectedDeck);
+        setJsonContent("");
+        downloadBlob(bundle.blob, `${bundle.title.replace(/\s+/g, '_')}_deck.zip`);
+        
+        toast({
+          title: "Deck exporté avec succès",
+          description: bundle.missingMediaCount > 0
+            ? `L'archive contient ${bundle.mediaCount} média(s) ; ${bundle.missingMediaCount} média(s) introuvable(s) n'ont pas pu être inclus`
+            : `L'archive contient ${bundle.mediaCount} média(s)`,
+        });
+        return;
+      }
+      
       const exportedDeck = exportDeckToJson(selectedDeck);
       const jsonString = JSON.stringify(exportedDeck, null, 2);
       setJsonContent(jsonString);
-      
-      // Create download link
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${exportedDeck.title.replace(/\s+/g, '_')}_deck.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob([jsonString], { type: 'application/json' }), `${exportedDeck.title.replace(/\s+/g, '_')}_deck.json`);
       
       toast({
         title: "Deck exporté avec succès",
@@ -65,7 +88,7 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
   return (
     <div className="space-y-4">
       <p className="text-sm text-muted-foreground">
-        Exportez votre deck au format JSON pour le partager avec d'autres utilisateurs.
+        Exportez votre deck pour le partager avec d'autres utilisateurs. L'archive .zip contient aussi les images et les sons des cartes.
       </p>
       
       {decks.length > 0 ? (
@@ -74,33 +97,45 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
             <Label htmlFor="deck-select">Sélectionnez un deck</Label>
             <select 
               id="deck-select"
-              value={selectedDeck}
+              value={selectedDeck || ""}
               onChange={(e) => onDeckSelect(e.target.value)}
               className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
             >
+              <option value="" disabled>Choisir un deck</option>
               {decks.map(deck => (
                 <option key={deck.id} value={deck.id}>{deck.title}</option>
               ))}
             </select>
           </div>
           
-          <Button 
-            onClick={handleExport} 
-            className="w-full"
-            disabled={!selectedDeck || isExporting}
-          >
-            {isExporting ? (
-              <>
-                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                Exportation...
-              </>
-            ) : (
-              <>
-                <Download className="mr-2 h-4 w-4" />
-                Exporter le deck
-              </>
-            )}
-          </Button>
+          <div className="flex gap-2">
+            <Button 
+              onClick={() => handleExport('bundle')} 
+              className="flex-1"
+              disabled={!selectedDeck || isExporting}
+            >
+              {isExporting ? (
+                <>
+                  <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                  Exportation...
+                </>
+              ) : (
+                <>
+                  <Download className="mr-2 h-4 w-4" />
+                  Exporter le deck (.zip)
+                </>
+              )}
+            </Button>
+            
+            <Button 
+              onClick={() => handleExport('json')} 
+              variant="outline"
+              disabled={!selectedDeck || isExporting}
+            >
+              <FileJson className="mr-2 h-4 w-4" />
+              JSON seul
+            </Button>
+          </div>
         </div>
       ) : (
         <Alert>
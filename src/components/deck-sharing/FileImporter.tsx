@@ -5,40 +5,118 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, FileUp, RefreshCcw } from "lucide-react";
-import { importDeckFromJson, updateDeckFromJson, getUser, SharedDeckExport } from "@/lib/localStorage";
+import { AlertCircle, FileArchive, FileUp, Package, RefreshCcw } from "lucide-react";
+import { importDeckFromJson, updateDeckFromJson, importAnkiPackage, readDeckBundle, getUser, SharedDeckExport, DeckMergeReport } from "@/lib/localStorage";
+import { readAnkiPackage, AnkiPackage } from "@/lib/anki";
+import { parseDeckExport, FormatIssue } from "@/lib/formats";
+import FormatIssuesAlert from "@/components/FormatIssuesAlert";
 import { useToast } from "@/hooks/use-toast";
 
 interface FileImporterProps {
   onClose: () => void;
 }
 
+const describeMerge = (report: DeckMergeReport): string => {
+  const parts = [
+    report.added > 0 && `${report.added} carte(s) ajoutée(s)`,
+    report.updated > 0 && `${report.updated} mise(s) à jour`,
+    report.removed > 0 && `${report.removed} retirée(s)`,
+    report.conflicts > 0 && `${report.conflicts} modifiée(s) des deux côtés, à vérifier`,
+    report.detached > 0 && `${report.detached} retirée(s) de la source mais gardée(s) car modifiée(s)`,
+    report.deckUpdated && "titre, description ou couverture du deck mis à jour",
+    report.themesAdded > 0 && `${report.themesAdded} thème(s) ajouté(s)`,
+    report.themesUpdated > 0 && `${report.themesUpdated} thème(s) mis à jour`,
+    report.themesRemoved > 0 && `${report.themesRemoved} thème(s) retiré(s)`,
+    report.themesKept > 0 && `${report.themesKept} thème(s) modifié(s) localement, gardé(s) tel(s) quel(s)`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "Le deck était déjà à jour";
+};
+
 const FileImporter = ({ onClose }: FileImporterProps) => {
   const [jsonContent, setJsonContent] = useState<string>("");
   const [isImporting, setIsImporting] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<FormatIssue[] | null>(null);
+  const [ankiPackage, setAnkiPackage] = useState<AnkiPackage | null>(null);
+  const [bundleDeck, setBundleDeck] = useState<SharedDeckExport | null>(null);
+  const [isReadingFile, setIsReadingFile] = useState<boolean>(false);
   const { toast } = useToast();
 
+  // Les fichiers des versions précédentes sont convertis au format courant
   const validateDeckJson = (jsonString: string): SharedDeckExport | null => {
+    let data: unknown;
     try {
-      const data = JSON.parse(jsonString);
-      if (!data.id || !data.originalId || !data.title || !Array.isArray(data.themes) || !Array.isArray(data.flashcards)) {
-        setImportError("Format de deck invalide");
-        return null;
-      }
-      return data as SharedDeckExport;
+      data = JSON.parse(jsonString);
     } catch (error) {
       setImportError("Erreur lors de l'analyse du JSON");
       return null;
     }
+
+    const result = parseDeckExport(data);
+    if (!result.data) setImportIssues(result.issues);
+    return result.data;
+  };
+
+  // Deck à importer : archive avec médias ou contenu JSON
+  const getDeckData = (): SharedDeckExport | null => bundleDeck ?? validateDeckJson(jsonContent);
+
+  // Les médias de l'archive sont chargés avant l'import
+  const loadDeckBundle = async (file: File) => {
+    try {
+      setIsReadingFile(true);
+      const result = await readDeckBundle(await file.arrayBuffer());
+      if (result.data) {
+        setBundleDeck(result.data);
+      } else {
+        setImportIssues(result.issues);
+      }
+    } catch (error) {
+      console.error("Erreur lors de la lecture de l'archive:", error);
+      setImportError(error instanceof Error ? error.message : "Impossible de lire l'archive");
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  // Les paquets Anki sont lus entièrement avant l'import pour en afficher le contenu
+  const loadAnkiPackage = async (file: File) => {
+    try {
+      setIsReadingFile(true);
+      const result = await readAnkiPackage(await file.arrayBuffer());
+      if (result.cardCount === 0) {
+        setImportError("Ce paquet Anki ne contient aucune carte");
+        return;
+      }
+      setAnkiPackage(result);
+    } catch (error) {
+      console.error("Erreur lors de la lecture du paquet Anki:", error);
+      setImportError(error instanceof Error ? error.message : "Impossible de lire le paquet Anki");
+    } finally {
+      setIsReadingFile(false);
+    }
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     setImportError(null);
+    setImportIssues(null);
+    setAnkiPackage(null);
+    setBundleDeck(null);
     const file = event.target.files?.[0];
     if (!file) return;
     
+    if (file.name.toLowerCase().endsWith('.apkg')) {
+      setJsonContent("");
+      loadAnkiPackage(file);
+      return;
+    }
+    
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      setJsonContent("");
+      loadDeckBundle(file);
+      return;
+    }
+    
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
@@ -58,12 +136,17 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
       return;
     }
     
-    const deckData = validateDeckJson(jsonContent);
+    if (ankiPackage) {
+      await handleAnkiImport(user.id);
+      return;
+    }
+    
+    const deckData = getDeckData();
     if (!deckData) return;
     
     try {
       setIsImporting(true);
-      const newDeckId = importDeckFromJson(deckData, user.id);
+      const newDeckId = await importDeckFromJson(deckData, user.id);
       
       toast({
         title: "Deck importé avec succès",
@@ -79,18 +162,37 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
     }
   };
 
+  const handleAnkiImport = async (userId: string) => {
+    try {
+      setIsImporting(true);
+      const deckIds = await importAnkiPackage(ankiPackage!, userId);
+      
+      toast({
+        title: "Paquet Anki importé avec succès",
+        description: `${deckIds.length} deck(s) et ${ankiPackage!.cardCount} carte(s) ajoutés à votre collection`,
+      });
+      
+      onClose();
+    } catch (error) {
+      console.error("Erreur lors de l'importation du paquet Anki:", error);
+      setImportError("Impossible d'importer le paquet Anki");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleUpdate = async () => {
-    const deckData = validateDeckJson(jsonContent);
+    const deckData = getDeckData();
     if (!deckData) return;
     
     try {
       setIsUpdating(true);
-      const success = updateDeckFromJson(deckData);
+      const report = await updateDeckFromJson(deckData);
       
-      if (success) {
+      if (report) {
         toast({
           title: "Deck mis à jour avec succès",
-          description: "Les modifications ont été appliquées",
+          description: describeMerge(report),
         });
         onClose();
       } else {
@@ -112,12 +214,56 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
           <Input 
             id="deck-file" 
             type="file" 
-            accept=".json" 
+            accept=".json,.zip,.apkg" 
             onChange={handleFileUpload}
           />
         </div>
+        <p className="text-xs text-muted-foreground">
+          Deck exporté (.zip avec médias ou .json) ou paquet Anki (.apkg)
+        </p>
       </div>
 
+      {isReadingFile && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+          Lecture du fichier...
+        </div>
+      )}
+
+      {bundleDeck && (
+        <div className="rounded-lg border p-4">
+          <div className="flex items-center gap-2 font-medium">
+            <FileArchive className="h-4 w-4" />
+            {bundleDeck.title}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {bundleDeck.flashcards.length} carte(s), {bundleDeck.themes.length} thème(s)
+          </p>
+        </div>
+      )}
+
+      {ankiPackage && (
+        <div className="rounded-lg border p-4 space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <Package className="h-4 w-4" />
+            Paquet Anki : {ankiPackage.cardCount} carte(s), {ankiPackage.mediaCount} média(s)
+          </div>
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {ankiPackage.decks.map(deck => (
+              <li key={deck.title}>
+                {deck.title} — {deck.cards.length + deck.themes.reduce((total, theme) => total + theme.cards.length, 0)} carte(s)
+                {deck.themes.length > 0 && `, ${deck.themes.length} thème(s)`}
+              </li>
+            ))}
+          </ul>
+          {ankiPackage.missingMediaCount > 0 && (
+            <p className="text-xs text-amber-600">
+              {ankiPackage.missingMediaCount} média(s) cité(s) dans les notes sont absents du paquet ou dans un format non pris en charge.
+            </p>
+          )}
+        </div>
+      )}
+
       {jsonContent && (
         <div className="mt-4">
           <Label htmlFor="import-json">Contenu JSON</Label>
@@ -127,6 +273,7 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
             onChange={e => {
               setJsonContent(e.target.value);
               setImportError(null);
+              setImportIssues(null);
             }}
             rows={8} 
             className="font-mono text-xs"
@@ -140,12 +287,16 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
           <AlertDescription>{importError}</AlertDescription>
         </Alert>
       )}
+
+      {importIssues && (
+        <FormatIssuesAlert title="Format de deck invalide" issues={importIssues} />
+      )}
       
       <div className="flex gap-2">
         <Button 
           onClick={handleImport} 
           className="flex-1"
-          disabled={!jsonContent || isImporting}
+          disabled={(!jsonContent && !ankiPackage && !bundleDeck) || isImporting}
         >
           {isImporting ? (
             <>
@@ -160,23 +311,25 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
           )}
         </Button>
         
-        <Button 
-          onClick={handleUpdate} 
-          variant="outline"
-          disabled={!jsonContent || isUpdating}
-        >
-          {isUpdating ? (
-            <>
-              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-              Mise à jour...
-            </>
-          ) : (
-            <>
-              <RefreshCcw className="mr-2 h-4 w-4" />
-              Mettre à jour existant
-            </>
-          )}
-        </Button>
+        {!ankiPackage && (
+          <Button 
+            onClick={handleUpdate} 
+            variant="outline"
+            disabled={(!jsonContent && !bundleDeck) || isUpdating}
+          >
+            {isUpdating ? (
+              <>
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                Mise à jour...
+              </>
+            ) : (
+              <>
+                <RefreshCcw className="mr-2 h-4 w-4" />
+                Mettre à jour existant
+              </>
+            )}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-primary', 'ring-offset-2', 'rounded-lg'];
+const HIGHLIGHT_DURATION_MS = 2000;
+
+/**
+ * Hook qui fait défiler la page jusqu'à l'élément désigné par l'ancre de
+ * l'URL (ex: #card-123) et le met brièvement en évidence. `ready` indique
+ * que le contenu de la page est affiché.
+ */
+export function useScrollToHash(ready: boolean) {
+  const { hash } = useLocation();
+
+  useEffect(() => {
+    if (!ready || !hash) return;
+
+    const element = document.getElementById(decodeURIComponent(hash.slice(1)));
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add(...HIGHLIGHT_CLASSES);
+    const timeout = setTimeout(() => element.classList.remove(...HIGHLIGHT_CLASSES), HIGHLIGHT_DURATION_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      element.classList.remove(...HIGHLIGHT_CLASSES);
+    };
+  }, [ready, hash]);
+}
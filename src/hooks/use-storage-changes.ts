@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import { StorageChangeEvent, StorageEntity, subscribeToChanges } from '@/lib/repository';
+
+/**
+ * Hook qui appelle `onChange` à chaque modification des entités indiquées,
+ * faite dans cet onglet ou dans un autre. Avec `deckId`, seules les
+ * modifications de ce deck sont signalées.
+ */
+export function useStorageChanges(
+  onChange: (events: StorageChangeEvent[]) => void,
+  entities?: StorageEntity[],
+  deckId?: string
+) {
+  const onChangeRef = useRef(onChange);
+  const entityKey = entities ? entities.join(',') : '';
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    const watched = entityKey ? entityKey.split(',') : null;
+
+    return subscribeToChanges(events => {
+      const relevant = events.filter(event =>
+        (!watched || watched.includes(event.entity)) &&
+        (!deckId || !event.deckId || event.deckId === deckId)
+      );
+      if (relevant.length > 0) {
+        onChangeRef.current(relevant);
+      }
+    });
+  }, [entityKey, deckId]);
+}
+
+/**
+ * Hook qui charge des données avec `query` et les recharge lorsque les
+ * entités indiquées changent. `query` doit être stable (useCallback).
+ */
+export function useStorageQuery<T>(query: () => Promise<T>, entities: StorageEntity[], deckId?: string) {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    query()
+      .then(result => {
+        if (!cancelled) setData(result);
+      })
+      .catch(error => {
+        console.error("Erreur lors du chargement des données:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, version]);
+
+  // Plusieurs modifications rapprochées ne provoquent qu'un rechargement (regroupement des rendus)
+  useStorageChanges(() => setVersion(current => current + 1), entities, deckId);
+
+  return { data, isLoading };
+}
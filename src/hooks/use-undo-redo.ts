@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { undo, redo } from '@/lib/history';
+
+// Les champs de saisie gardent leur propre annulation (texte)
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Undo the most recent command (or `commandId` only if it is still the
+ * most recent one) and report the outcome in a toast
+ */
+export async function undoWithToast(commandId?: string): Promise<void> {
+  try {
+    const command = await undo(commandId);
+    if (command) {
+      toast({ title: "Action annulée", description: command.label });
+    } else if (commandId) {
+      toast({
+        title: "Annulation impossible",
+        description: "D'autres modifications ont été faites depuis cette action",
+        variant: "destructive",
+      });
+    }
+  } catch (error) {
+    console.error("Erreur lors de l'annulation:", error);
+    toast({
+      title: "Annulation impossible",
+      description: error instanceof Error ? error.message : "Les données ont changé depuis cette action",
+      variant: "destructive",
+    });
+  }
+}
+
+/**
+ * Apply again the most recently undone command and report the outcome
+ */
+export async function redoWithToast(): Promise<void> {
+  try {
+    const command = await redo();
+    if (command) {
+      toast({ title: "Action rétablie", description: command.label });
+    }
+  } catch (error) {
+    console.error("Erreur lors du rétablissement:", error);
+    toast({
+      title: "Rétablissement impossible",
+      description: error instanceof Error ? error.message : "Les données ont changé depuis cette action",
+      variant: "destructive",
+    });
+  }
+}
+
+/**
+ * Hook qui associe Ctrl+Z (annuler) et Ctrl+Maj+Z / Ctrl+Y (rétablir)
+ * à l'historique des modifications
+ */
+export function useUndoRedoShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoWithToast();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoWithToast();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,270 @@
+// Lecture des paquets Anki (.apkg) : une archive zip contenant la collection
+// SQLite et les médias, renommés 0, 1, 2... et décrits par le fichier "media"
+import { readZip, ZipEntry } from '../zip';
+import { blobToBase64 } from '../indexedDBStorage';
+import { FlashcardSide } from '../storage/types';
+import { openSqliteDatabase, SqliteRow } from './sqlite';
+import { AnkiCard, AnkiDeck, AnkiPackage, AnkiTheme } from './types';
+
+const FIELD_SEPARATOR = '\u001f';
+const DECK_SEPARATOR = '::';
+const THEME_SEPARATOR = ' › ';
+const MODEL_TYPE_CLOZE = 1;
+
+interface AnkiModel {
+  type: number;
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: Array<{ qfmt: string; afmt: string; ord: number }>;
+}
+
+interface AnkiDeckInfo {
+  name: string;
+  desc?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+interface ConvertedField {
+  text: string;
+  images: string[]; // Noms des fichiers cités dans le champ
+  sounds: string[];
+}
+
+// Champ HTML d'Anki → texte brut, en gardant les retours à la ligne et les médias cités
+const convertField = (html: string): ConvertedField => {
+  const images: string[] = [];
+  const sounds: string[] = [];
+
+  const text = html
+    .replace(/\[sound:([^\]]+)\]/g, (_, name: string) => {
+      sounds.push(name);
+      return '';
+    })
+    .replace(/<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi, (_, double, single, bare) => {
+      images.push(decodeEntities(double ?? single ?? bare));
+      return '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+
+  return {
+    text: decodeEntities(text).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim(),
+    images,
+    sounds,
+  };
+};
+
+// Champs cités par un modèle de carte, dans l'ordre : {{Recto}}, {{cloze:Texte}}, {{type:Verso}}...
+const getTemplateFields = (template: string, fieldNames: string[]): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{\{([^}]+)\}\}/g)) {
+    const reference = match[1].trim();
+    if (/^[#/^]/.test(reference)) continue;
+    const name = reference.split(':').pop()!.trim();
+    if (fieldNames.includes(name) && !names.includes(name)) names.push(name);
+  }
+  return names;
+};
+
+const parseJson = <T>(value: unknown): T => {
+  try {
+    return JSON.parse(typeof value === 'string' ? value : '{}') as T;
+  } catch {
+    return {} as T;
+  }
+};
+
+// Les versions récentes d'Anki n'incluent la collection lisible que si l'option
+// « Prendre en charge les anciennes versions d'Anki » est cochée à l'export
+const findCollection = (entries: Map<string, ZipEntry>): ZipEntry => {
+  const collection = entries.get('collection.anki21');
+  if (collection) return collection;
+  if (entries.has('collection.anki21b')) {
+    throw new Error(
+      "Ce paquet utilise le nouveau format d'Anki. Exportez-le de nouveau en cochant « Prendre en charge les anciennes versions d'Anki »."
+    );
+  }
+  const legacyCollection = entries.get('collection.anki2');
+  if (!legacyCollection) throw new Error("Ce fichier n'est pas un paquet Anki (.apkg)");
+  return legacyCollection;
+};
+
+/**
+ * Read an Anki package: top-level decks become decks, subdecks become
+ * themes and each note becomes one card. Images and audio bundled with
+ * the package are attached to the cards as data URLs.
+ */
+export async function readAnkiPackage(buffer: ArrayBuffer): Promise<AnkiPackage> {
+  const entries = readZip(buffer);
+  const database = openSqliteDatabase(new Uint8Array(await findCollection(entries).read()));
+
+  const collection = database.readTable('col')[0];
+  const models = parseJson<Record<string, AnkiModel>>(collection?.models);
+  const deckInfos = parseJson<Record<string, AnkiDeckInfo>>(collection?.decks);
+  if (Object.keys(models).length === 0) {
+    throw new Error("Les modèles de notes de ce paquet Anki sont illisibles");
+  }
+
+  // Fichiers du paquet, indexés par leur nom d'origine
+  const mediaNames = parseJson<Record<string, string>>(
+    entries.has('media') ? new TextDecoder().decode(await entries.get('media')!.read()) : '{}'
+  );
+  const mediaEntries = new Map<string, ZipEntry>();
+  for (const [entryName, fileName] of Object.entries(mediaNames)) {
+    const entry = entries.get(entryName);
+    if (entry) mediaEntries.set(fileName, entry);
+  }
+
+  const loadedMedia = new Map<string, Promise<string | null>>();
+  const missingMedia = new Set<string>();
+  const loadMedia = (fileName: string): Promise<string | null> => {
+    if (!loadedMedia.has(fileName)) {
+      const entry = mediaEntries.get(fileName);
+      const mimeType = MIME_TYPES[fileName.split('.').pop()!.toLowerCase()];
+      if (!entry || !mimeType) {
+        missingMedia.add(fileName);
+        loadedMedia.set(fileName, Promise.resolve(null));
+      } else {
+        loadedMedia.set(fileName, entry.read().then(data => blobToBase64(new Blob([data], { type: mimeType }))));
+      }
+    }
+    return loadedMedia.get(fileName)!;
+  };
+
+  // Premier média disponible parmi ceux cités par les champs
+  const findMedia = async (names: string[]): Promise<string | undefined> => {
+    for (const name of names) {
+      const dataUrl = await loadMedia(name);
+      if (dataUrl) return dataUrl;
+    }
+    return undefined;
+  };
+
+  const buildSide = async (main: ConvertedField | undefined, extras: ConvertedField[]): Promise<FlashcardSide> => {
+    const fields = main ? [main, ...extras] : extras;
+    const additionalInfo = extras.map(field => field.text).filter(Boolean).join('\n');
+    return {
+      text: main?.text || '',
+      image: await findMedia(fields.flatMap(field => field.images)),
+      audio: await findMedia(fields.flatMap(field => field.sounds)),
+      additionalInfo: additionalInfo || undefined,
+    };
+  };
+
+  // Cartes Anki de chaque note : paquet d'origine et modèles utilisés
+  const noteCards = new Map<number, SqliteRow[]>();
+  for (const card of database.readTable('cards')) {
+    const noteId = Number(card.nid);
+    if (!noteCards.has(noteId)) noteCards.set(noteId, []);
+    noteCards.get(noteId)!.push(card);
+  }
+
+  const decks = new Map<string, AnkiDeck>();
+  const themes = new Map<string, AnkiTheme>();
+  let cardCount = 0;
+
+  for (const note of database.readTable('notes')) {
+    const model = models[String(note.mid)];
+    const cards = (noteCards.get(Number(note.id)) || []).sort((a, b) => Number(a.ord) - Number(b.ord));
+    if (!model || cards.length === 0) continue;
+
+    const values = String(note.flds ?? '').split(FIELD_SEPARATOR);
+    const fieldNames = [...model.flds].sort((a, b) => a.ord - b.ord).map(field => field.name);
+    const fields = new Map(fieldNames.map((name, index) => [name, convertField(values[index] || '')]));
+    const template = [...model.tmpls].sort((a, b) => a.ord - b.ord)[0];
+    const isCloze = model.type === MODEL_TYPE_CLOZE;
+
+    // Recto : premier champ de la question ; verso : premier champ propre à la réponse
+    const questionFields = getTemplateFields(template?.qfmt || '', fieldNames);
+    const frontName = questionFields[0] ?? fieldNames[0];
+    const backName = isCloze
+      ? fieldNames.find(name => name !== frontName)
+      : getTemplateFields(template?.afmt || '', fieldNames).find(name => !questionFields.includes(name))
+        ?? fieldNames.find(name => name !== frontName);
+    const extras = fieldNames
+      .filter(name => name !== frontName && name !== backName)
+      .map(name => fields.get(name)!);
+
+    const front = await buildSide(fields.get(frontName), []);
+    if (!front.text && !front.image && !front.audio) continue;
+
+    const ankiCard: AnkiCard = {
+      type: isCloze ? 'cloze' : 'basic',
+      // Une note qui a produit une carte inversée s'étudie dans les deux sens
+      studyDirection: !isCloze && cards.some(card => Number(card.ord) > 0) ? 'both' : undefined,
+      front,
+      back: await buildSide(backName ? fields.get(backName) : undefined, extras),
+    };
+
+    // Les cartes d'un paquet filtré gardent leur paquet d'origine dans odid
+    const deckId = Number(cards[0].odid) || Number(cards[0].did);
+    const [deckName, ...subdeckNames] = (deckInfos[String(deckId)]?.name || 'Anki').split(DECK_SEPARATOR);
+
+    let deck = decks.get(deckName);
+    if (!deck) {
+      const info = Object.values(deckInfos).find(candidate => candidate.name === deckName);
+      deck = { title: deckName, description: convertField(info?.desc || '').text, cards: [], themes: [] };
+      decks.set(deckName, deck);
+    }
+
+    if (subdeckNames.length === 0) {
+      deck.cards.push(ankiCard);
+    } else {
+      const title = subdeckNames.join(THEME_SEPARATOR);
+      const key = `${deckName}${DECK_SEPARATOR}${title}`;
+      let theme = themes.get(key);
+      if (!theme) {
+        theme = { title, cards: [] };
+        themes.set(key, theme);
+        deck.themes.push(theme);
+      }
+      theme.cards.push(ankiCard);
+    }
+    cardCount++;
+  }
+
+  const sortedDecks = [...decks.values()].sort((a, b) => a.title.localeCompare(b.title));
+  sortedDecks.forEach(deck => deck.themes.sort((a, b) => a.title.localeCompare(b.title)));
+
+  return {
+    decks: sortedDecks,
+    cardCount,
+    mediaCount: loadedMedia.size - missingMedia.size,
+    missingMediaCount: missingMedia.size,
+  };
+}
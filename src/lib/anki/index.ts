@@ -0,0 +1,3 @@
+// Import of Anki packages (.apkg)
+export * from './types';
+export { readAnkiPackage } from './ankiPackage';
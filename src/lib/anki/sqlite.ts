@@ -0,0 +1,204 @@
+// Lecteur SQLite minimal : parcourt les tables d'un fichier de base de données
+// sans moteur SQL, ce qui suffit pour extraire les collections Anki
+
+export type SqliteValue = number | string | Uint8Array | null;
+
+export type SqliteRow = Record<string, SqliteValue>;
+
+/**
+ * A read-only SQLite database file
+ */
+export interface SqliteDatabase {
+  hasTable: (name: string) => boolean;
+  readTable: (name: string) => SqliteRow[];
+}
+
+const HEADER = 'SQLite format 3\u0000';
+
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_TABLE = 0x0d;
+
+interface TableSchema {
+  rootPage: number;
+  columns: string[];
+  rowidColumn: number; // Colonne INTEGER PRIMARY KEY, stockée comme rowid (-1 si aucune)
+}
+
+// Entier de longueur variable : [valeur, nombre d'octets lus]
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+// Noms des colonnes d'une instruction CREATE TABLE
+const parseColumns = (sql: string): { columns: string[]; rowidColumn: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current.trim());
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const definition of definitions) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) continue;
+    const name = definition.match(/^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/);
+    if (!name) continue;
+    if (/^\S+\s+integer\s+primary\s+key\b/i.test(definition)) rowidColumn = columns.length;
+    columns.push(name[1] || name[2] || name[3] || name[4]);
+  }
+  return { columns, rowidColumn };
+};
+
+/**
+ * Open a SQLite database file. Only UTF-8 databases are supported.
+ */
+export function openSqliteDatabase(data: Uint8Array): SqliteDatabase {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  if (decoder.decode(data.subarray(0, 16)) !== HEADER) {
+    throw new Error("Base de données SQLite invalide");
+  }
+  if (view.getUint32(56) > 1) {
+    throw new Error("Seules les bases de données SQLite en UTF-8 sont prises en charge");
+  }
+
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - data[20];
+
+  const pageOffset = (page: number) => (page - 1) * pageSize;
+
+  // Contenu d'une cellule, en suivant les pages de débordement
+  const readPayload = (offset: number, size: number): Uint8Array => {
+    const maxLocal = usableSize - 35;
+    if (size <= maxLocal) return data.subarray(offset, offset + size);
+
+    const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+    const candidate = minLocal + ((size - minLocal) % (usableSize - 4));
+    const localSize = candidate <= maxLocal ? candidate : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(data.subarray(offset, offset + localSize));
+    let written = localSize;
+    let overflowPage = view.getUint32(offset + localSize);
+    while (written < size && overflowPage) {
+      const start = pageOffset(overflowPage);
+      const chunk = Math.min(size - written, usableSize - 4);
+      payload.set(data.subarray(start + 4, start + 4 + chunk), written);
+      written += chunk;
+      overflowPage = view.getUint32(start);
+    }
+    return payload;
+  };
+
+  const decodeRecord = (payload: Uint8Array): SqliteValue[] => {
+    const record = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerLength] = readVarint(payload, 0);
+    const types: number[] = [];
+    for (let offset = headerLength; offset < headerSize;) {
+      const [type, length] = readVarint(payload, offset);
+      types.push(type);
+      offset += length;
+    }
+
+    const values: SqliteValue[] = [];
+    let offset = headerSize;
+    for (const type of types) {
+      switch (type) {
+        case 0: values.push(null); break;
+        case 1: values.push(record.getInt8(offset)); offset += 1; break;
+        case 2: values.push(record.getInt16(offset)); offset += 2; break;
+        case 3: values.push((record.getInt8(offset) << 16) | record.getUint16(offset + 1)); offset += 3; break;
+        case 4: values.push(record.getInt32(offset)); offset += 4; break;
+        case 5: values.push(record.getInt16(offset) * 2 ** 32 + record.getUint32(offset + 2)); offset += 6; break;
+        case 6: values.push(Number(record.getBigInt64(offset))); offset += 8; break;
+        case 7: values.push(record.getFloat64(offset)); offset += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          const length = Math.floor((type - 12) / 2);
+          const bytes = payload.subarray(offset, offset + length);
+          values.push(type % 2 === 0 ? bytes : decoder.decode(bytes));
+          offset += length;
+        }
+      }
+    }
+    return values;
+  };
+
+  // Parcours d'un arbre B de table, dans l'ordre des rowid
+  const readBTree = (rootPage: number): Array<{ rowid: number; values: SqliteValue[] }> => {
+    const rows: Array<{ rowid: number; values: SqliteValue[] }> = [];
+    const pages = [rootPage];
+
+    while (pages.length > 0) {
+      const page = pages.pop()!;
+      const header = pageOffset(page) + (page === 1 ? 100 : 0);
+      const pageType = data[header];
+      const cellCount = view.getUint16(header + 3);
+
+      if (pageType === PAGE_INTERIOR_TABLE) {
+        // Empilées à l'envers pour garder l'ordre des rowid
+        pages.push(view.getUint32(header + 8));
+        for (let i = cellCount - 1; i >= 0; i--) {
+          const cell = pageOffset(page) + view.getUint16(header + 12 + i * 2);
+          pages.push(view.getUint32(cell));
+        }
+      } else if (pageType === PAGE_LEAF_TABLE) {
+        for (let i = 0; i < cellCount; i++) {
+          let cell = pageOffset(page) + view.getUint16(header + 8 + i * 2);
+          const [size, sizeLength] = readVarint(data, cell);
+          cell += sizeLength;
+          const [rowid, rowidLength] = readVarint(data, cell);
+          cell += rowidLength;
+          rows.push({ rowid, values: decodeRecord(readPayload(cell, size)) });
+        }
+      } else {
+        throw new Error(`Page SQLite inattendue (type ${pageType})`);
+      }
+    }
+    return rows;
+  };
+
+  const schemas = new Map<string, TableSchema>();
+  for (const { values } of readBTree(1)) {
+    const [type, name, , rootPage, sql] = values;
+    if (type !== 'table' || typeof name !== 'string' || typeof sql !== 'string') continue;
+    schemas.set(name, { rootPage: Number(rootPage), ...parseColumns(sql) });
+  }
+
+  return {
+    hasTable: (name) => schemas.has(name),
+
+    readTable: (name) => {
+      const schema = schemas.get(name);
+      if (!schema) throw new Error(`Table SQLite introuvable : ${name}`);
+
+      return readBTree(schema.rootPage).map(({ rowid, values }) => {
+        const row: SqliteRow = {};
+        schema.columns.forEach((column, index) => {
+          // Les colonnes ajoutées après coup sont absentes des anciens enregistrements
+          row[column] = index === schema.rowidColumn ? rowid : values[index] ?? null;
+        });
+        return row;
+      });
+    },
+  };
+}
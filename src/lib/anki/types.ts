@@ -0,0 +1,38 @@
+// Type definitions of the Anki package (.apkg) import
+import { FlashcardSide, FlashcardType, StudyDirection } from '../storage/types';
+
+/**
+ * An Anki note converted to our card format. The media are inline
+ * base64 data URLs, stored in IndexedDB when the card is created.
+ */
+export interface AnkiCard {
+  type: FlashcardType;
+  studyDirection?: StudyDirection;
+  front: FlashcardSide;
+  back: FlashcardSide;
+}
+
+/**
+ * An Anki subdeck, imported as a theme
+ */
+export interface AnkiTheme {
+  title: string; // Chemin du sous-deck, ex: "Verbes › Irréguliers"
+  cards: AnkiCard[];
+}
+
+/**
+ * A top-level Anki deck, imported as a deck
+ */
+export interface AnkiDeck {
+  title: string;
+  description: string;
+  cards: AnkiCard[]; // Cartes rangées directement dans le deck
+  themes: AnkiTheme[];
+}
+
+export interface AnkiPackage {
+  decks: AnkiDeck[];
+  cardCount: number;
+  mediaCount: number;
+  missingMediaCount: number; // Médias cités dans les notes mais absents du paquet
+}
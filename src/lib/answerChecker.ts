@@ -0,0 +1,189 @@
+// Vérification locale des réponses saisies (sans API, fonctionne hors ligne)
+import { FlashcardSide } from './storage/types';
+
+export interface AnswerDiffSegment {
+  type: 'equal' | 'missing' | 'extra'; // 'missing' : attendu mais absent, 'extra' : saisi en trop
+  text: string;
+}
+
+export interface AnswerCheckResult {
+  isCorrect: boolean;
+  isExact: boolean; // Identique après normalisation (casse, accents, ponctuation, articles)
+  matchedAnswer: string; // Réponse acceptée la plus proche de la saisie
+  distance: number; // Distance de Levenshtein entre les formes normalisées
+  diff: AnswerDiffSegment[];
+}
+
+// Séparateurs de réponses alternatives dans un même texte : "voiture / automobile".
+// Le "/" doit être entouré d'espaces pour ne pas couper "km/h" ou "1/2".
+const ALTERNATIVE_SEPARATOR = /\s*[;|]\s*|\s+\/\s+/;
+const LEADING_ARTICLE = /^(?:l|le|la|les|un|une|des|du|the|a|an)\s+/;
+
+/**
+ * Normalize an answer for comparison: lower case, no accents,
+ * no punctuation, no leading article, single spaces
+ */
+export function normalizeAnswer(text: string): string {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[’']/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const withoutArticle = normalized.replace(LEADING_ARTICLE, '');
+  return withoutArticle || normalized;
+}
+
+/**
+ * Split an expected answer into its accepted alternatives. Text in
+ * parentheses is optional: "(to) run" accepts "to run" and "run".
+ */
+export function getAcceptedAnswers(text: string): string[] {
+  const answers = new Set<string>();
+
+  text.split(ALTERNATIVE_SEPARATOR).forEach(part => {
+    const answer = part.trim();
+    if (!answer) return;
+
+    answers.add(answer);
+    const withoutOptional = answer.replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+    if (withoutOptional) answers.add(withoutOptional);
+  });
+
+  return [...answers];
+}
+
+/**
+ * Get every answer accepted for a card side: its display answer, its
+ * text and its additional accepted answers
+ */
+export function getSideAnswers(side: FlashcardSide): string[] {
+  const answers = [side.displayAnswer, side.text, ...(side.acceptedAnswers || [])]
+    .map(answer => answer?.trim())
+    .filter((answer): answer is string => !!answer);
+  return [...new Set(answers)];
+}
+
+/**
+ * Get the answer shown to the learner after a check
+ */
+export function getDisplayAnswer(side: FlashcardSide): string {
+  return side.displayAnswer?.trim() || side.text;
+}
+
+/**
+ * Levenshtein edit distance between two strings, counting a swap of two
+ * adjacent characters as a single edit
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      // Inversion de deux lettres voisines
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for an answer of the given (normalized) length
+ */
+export function getAllowedDistance(length: number): number {
+  if (length <= 3) return 0;
+  return Math.max(1, Math.floor(length / 5));
+}
+
+/**
+ * Character-level diff between what was typed and the expected answer,
+ * ignoring case
+ */
+export function diffAnswer(userAnswer: string, expected: string): AnswerDiffSegment[] {
+  const typed = [...userAnswer.trim()];
+  const target = [...expected.trim()];
+  const same = (x: string, y: string) => x.toLowerCase() === y.toLowerCase();
+
+  // Table de plus longue sous-séquence commune
+  const lcs: number[][] = Array.from({ length: typed.length + 1 }, () => new Array(target.length + 1).fill(0));
+  for (let i = typed.length - 1; i >= 0; i--) {
+    for (let j = target.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(typed[i], target[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (type: AnswerDiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += char;
+    } else {
+      segments.push({ type, text: char });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < typed.length && j < target.length) {
+    if (same(typed[i], target[j])) {
+      push('equal', target[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('extra', typed[i++]);
+    } else {
+      push('missing', target[j++]);
+    }
+  }
+  while (i < typed.length) push('extra', typed[i++]);
+  while (j < target.length) push('missing', target[j++]);
+
+  return segments;
+}
+
+/**
+ * Check a typed answer against the accepted answers (each of which may
+ * hold "/"-separated alternatives) with accent, punctuation and typo
+ * tolerance
+ */
+export function checkAnswer(userAnswer: string, accepted: string | string[]): AnswerCheckResult {
+  const candidates = (Array.isArray(accepted) ? accepted : [accepted]).flatMap(getAcceptedAnswers);
+  const typed = normalizeAnswer(userAnswer);
+
+  let best = { answer: candidates[0] || '', distance: Infinity, length: 0 };
+  for (const candidate of candidates) {
+    const normalized = normalizeAnswer(candidate);
+    const distance = levenshtein(typed, normalized);
+    if (distance < best.distance) {
+      best = { answer: candidate, distance, length: normalized.length };
+    }
+  }
+
+  const isExact = best.distance === 0 && typed.length > 0;
+  return {
+    isCorrect: isExact || (typed.length > 0 && best.distance <= getAllowedDistance(best.length)),
+    isExact,
+    matchedAnswer: best.answer,
+    distance: best.distance,
+    diff: diffAnswer(userAnswer, best.answer),
+  };
+}
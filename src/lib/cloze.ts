@@ -0,0 +1,108 @@
+// Texte à trous : syntaxe {{c1::réponse}} ou {{c1::réponse::indice}}
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export const CLOZE_GAP = "[...]";
+
+export type ClozeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'cloze'; index: number; answer: string; hint?: string; active: boolean };
+
+/**
+ * Check whether a text contains at least one cloze marker
+ */
+export function hasCloze(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text);
+}
+
+/**
+ * Get the distinct cloze indices used in a text, in ascending order
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    indices.add(Number(match[1]));
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Get the index to use for the next cloze added to a text
+ */
+export function getNextClozeIndex(text: string): number {
+  const indices = getClozeIndices(text);
+  return indices.length > 0 ? indices[indices.length - 1] + 1 : 1;
+}
+
+/**
+ * Split a text into plain and cloze segments. The clozes matching
+ * activeIndex are flagged as active; without activeIndex, all are.
+ */
+export function parseCloze(text: string, activeIndex?: number): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, start) });
+    }
+
+    const index = Number(match[1]);
+    segments.push({
+      type: 'cloze',
+      index,
+      answer: match[2],
+      hint: match[3] || undefined,
+      active: activeIndex === undefined || index === activeIndex,
+    });
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Render the question side: active clozes become gaps (or their hint),
+ * the others show their answer
+ */
+export function renderClozeFront(text: string, activeIndex?: number): string {
+  return parseCloze(text, activeIndex)
+    .map(segment => {
+      if (segment.type === 'text') return segment.text;
+      if (!segment.active) return segment.answer;
+      return segment.hint ? `[${segment.hint}]` : CLOZE_GAP;
+    })
+    .join('');
+}
+
+/**
+ * Render the answer side: every cloze shows its answer
+ */
+export function renderClozeBack(text: string): string {
+  return parseCloze(text)
+    .map(segment => (segment.type === 'text' ? segment.text : segment.answer))
+    .join('');
+}
+
+/**
+ * Get the expected answer for a cloze index
+ */
+export function getClozeAnswer(text: string, activeIndex: number): string {
+  return parseCloze(text, activeIndex)
+    .filter((segment): segment is Extract<ClozeSegment, { type: 'cloze' }> => segment.type === 'cloze' && segment.active)
+    .map(segment => segment.answer)
+    .join(', ');
+}
+
+/**
+ * Wrap the [start, end) range of a text in a cloze marker
+ */
+export function wrapCloze(text: string, start: number, end: number, index: number = getNextClozeIndex(text)): string {
+  const selected = text.slice(start, end);
+  return `${text.slice(0, start)}{{c${index}::${selected}}}${text.slice(end)}`;
+}
@@ -0,0 +1,134 @@
+// Lecture des fichiers CSV, TSV et séparés par des points-virgules
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+export interface CsvRow {
+  line: number; // Ligne du fichier où commence l'enregistrement (à partir de 1)
+  cells: string[];
+}
+
+/**
+ * A problem found on one row of the file
+ */
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: CsvRow[];
+  errors: CsvRowError[];
+}
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+/**
+ * Decode a text file: UTF-8 or UTF-16 when a byte order mark is present,
+ * otherwise UTF-8 if the bytes are valid, else Windows-1252 (Excel exports)
+ */
+export function decodeText(buffer: ArrayBuffer): DecodedText {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+}
+
+/**
+ * Guess the delimiter: the candidate found the same number of times,
+ * outside quotes, on the most of the first lines
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(line => line.replace(/"[^"]*"/g, '').split(delimiter).length - 1);
+    const frequencies = new Map<number, number>();
+    counts.filter(count => count > 0).forEach(count => frequencies.set(count, (frequencies.get(count) || 0) + 1));
+    const score = Math.max(0, ...frequencies.values());
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse delimited text (RFC 4180): quoted fields may contain the
+ * delimiter, line breaks and doubled quotes. Empty lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter): CsvParseResult {
+  const rows: CsvRow[] = [];
+  const errors: CsvRowError[] = [];
+
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim()) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else if (char !== '\r' || text[i + 1] !== '\n') {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      // Les guillemets n'ouvrent un champ qu'en début de cellule
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: rowLine, message: "Guillemet non fermé : la fin du fichier a été lue comme un seul champ" });
+  }
+  if (cell || cells.length > 0) endRow();
+
+  return { rows, errors };
+}
@@ -0,0 +1,45 @@
+// Format of the full backup written by exportAllData
+import { z } from 'zod';
+import { ExportedData } from '../storage/types';
+import { FormatParseResult, VersionedFormat } from './types';
+import {
+  deckRecordSchema,
+  flashcardRecordSchema,
+  themeRecordSchema,
+  userRecordSchema,
+  studySessionRecordSchema,
+  reviewLogRecordSchema,
+  cardScheduleRecordSchema,
+  recordsById,
+} from './schemas';
+import { parseVersionedFormat } from './validation';
+
+const dataExportFormat: VersionedFormat = {
+  name: "une sauvegarde de données",
+  upgrades: [
+    // 1 → 2 : le champ texte `version` ('1.0') est remplacé par formatVersion
+    ({ version, ...data }) => data,
+  ],
+  schema: z.object({
+    formatVersion: z.literal(2),
+    timestamp: z.number(),
+    user: recordsById(userRecordSchema).optional(),
+    decks: recordsById(deckRecordSchema).optional(),
+    flashcards: recordsById(flashcardRecordSchema).optional(),
+    themes: recordsById(themeRecordSchema).optional(),
+    studySessions: recordsById(studySessionRecordSchema).optional(),
+    reviewLogs: recordsById(reviewLogRecordSchema).optional(),
+    cardSchedules: recordsById(cardScheduleRecordSchema, 'cardId').optional(),
+    shareCodes: z.record(z.unknown()).optional(),
+    mediaIds: z.array(z.string()).optional(),
+  }).passthrough(),
+};
+
+export const DATA_EXPORT_VERSION = dataExportFormat.upgrades.length + 1;
+
+/**
+ * Validate a full backup, upgrading files of older versions
+ */
+export function parseDataExport(data: unknown): FormatParseResult<ExportedData> {
+  return parseVersionedFormat<ExportedData>(dataExportFormat, data);
+}
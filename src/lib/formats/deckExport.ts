@@ -0,0 +1,45 @@
+// Format of an exported deck: JSON file or deck.json of a bundle
+import { z } from 'zod';
+import { SharedDeckExport } from '../storage/types';
+import { FormatParseResult, VersionedFormat } from './types';
+import { flashcardSchema, studyDirectionSchema, themeSchema } from './schemas';
+import { parseVersionedFormat } from './validation';
+
+const deckExportFormat: VersionedFormat = {
+  name: "un deck exporté",
+  upgrades: [
+    // 1 → 2 : la description et les dates, facultatives auparavant, sont toujours présentes
+    data => {
+      const createdAt = typeof data.createdAt === 'number' ? data.createdAt : Date.now();
+      return {
+        ...data,
+        description: typeof data.description === 'string' ? data.description : '',
+        createdAt,
+        updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : createdAt,
+      };
+    },
+  ],
+  schema: z.object({
+    formatVersion: z.literal(2),
+    id: z.string().min(1),
+    originalId: z.string().min(1),
+    title: z.string().trim().min(1),
+    description: z.string(),
+    studyDirection: studyDirectionSchema.optional(),
+    coverImage: z.string().optional(),
+    coverImageId: z.string().optional(),
+    themes: z.array(themeSchema),
+    flashcards: z.array(flashcardSchema),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+  }).passthrough(),
+};
+
+export const DECK_EXPORT_VERSION = deckExportFormat.upgrades.length + 1;
+
+/**
+ * Validate an exported deck, upgrading files of older versions
+ */
+export function parseDeckExport(data: unknown): FormatParseResult<SharedDeckExport> {
+  return parseVersionedFormat<SharedDeckExport>(deckExportFormat, data);
+}
@@ -0,0 +1,5 @@
+// Versioned formats of the exported files and their validation
+export * from './types';
+export * from './deckExport';
+export * from './dataExport';
+export * from './sessionExport';
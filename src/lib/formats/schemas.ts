@@ -0,0 +1,110 @@
+// Schemas of the records found in the exported files. Unknown fields are
+// kept so that data written by other versions is not lost.
+import { z } from 'zod';
+
+const id = z.string().min(1);
+
+export const studyDirectionSchema = z.enum(['forward', 'reverse', 'both']);
+
+export const flashcardSideSchema = z.object({
+  text: z.string(),
+  image: z.string().optional(),
+  imageId: z.string().optional(),
+  audio: z.string().optional(),
+  audioId: z.string().optional(),
+  additionalInfo: z.string().optional(),
+  // Les réponses acceptées non textuelles sont écartées à l'import
+  acceptedAnswers: z.array(z.unknown()).optional(),
+  displayAnswer: z.string().optional(),
+}).passthrough();
+
+export const flashcardSchema = z.object({
+  id,
+  themeId: z.string().optional(),
+  type: z.enum(['basic', 'cloze']).optional(),
+  studyDirection: studyDirectionSchema.optional(),
+  front: flashcardSideSchema,
+  back: flashcardSideSchema,
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+}).passthrough();
+
+export const themeSchema = z.object({
+  id,
+  title: z.string(),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  coverImageId: z.string().optional(),
+}).passthrough();
+
+// Enregistrements tels que stockés, dans les sauvegardes complètes
+export const flashcardRecordSchema = flashcardSchema.extend({
+  deckId: id,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const themeRecordSchema = themeSchema.extend({
+  deckId: id,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const deckRecordSchema = z.object({
+  id,
+  title: z.string(),
+  // Champs absents des decks les plus anciens
+  description: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  authorId: z.string(),
+  isPublic: z.boolean().default(false),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  studyDirection: studyDirectionSchema.optional(),
+}).passthrough();
+
+export const userRecordSchema = z.object({
+  id,
+  username: z.string(),
+  email: z.string(),
+}).passthrough();
+
+export const studySessionRecordSchema = z.object({
+  id,
+  deckId: z.string(),
+  startTime: z.number(),
+}).passthrough();
+
+export const reviewLogRecordSchema = z.object({
+  id,
+  cardId: z.string(),
+  deckId: z.string(),
+  timestamp: z.number(),
+  grade: z.enum(['again', 'hard', 'good', 'easy']),
+}).passthrough();
+
+export const cardScheduleRecordSchema = z.object({
+  cardId: id,
+  algorithm: z.string(),
+  state: z.enum(['new', 'learning', 'review', 'relearning']),
+  ease: z.number(),
+  interval: z.number(),
+  due: z.number(),
+  reps: z.number(),
+  lapses: z.number(),
+}).passthrough();
+
+/**
+ * Records stored by id: each key must be the id of its record
+ */
+export const recordsById = <T extends z.ZodTypeAny>(schema: T, idField = 'id') =>
+  z.record(schema).superRefine((records, ctx) => {
+    for (const [key, record] of Object.entries(records)) {
+      if ((record as Record<string, unknown>)[idField] !== key) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key, idField],
+          message: "L'identifiant ne correspond pas à la clé de l'enregistrement",
+        });
+      }
+    }
+  });
@@ -0,0 +1,41 @@
+// Format of the session data written by exportSessionData
+import { z } from 'zod';
+import { FormatParseResult, VersionedFormat } from './types';
+import { parseVersionedFormat } from './validation';
+
+/**
+ * Session key with the data stored under it and the app data
+ */
+export interface SessionExport {
+  formatVersion: number;
+  sessionKey: string;
+  exportDate: string;
+  userData: Record<string, unknown>;
+  appData: Record<string, unknown>; // Clés localStorage de l'application et leur valeur
+  stats?: Record<string, unknown> | null;
+}
+
+const sessionExportFormat: VersionedFormat = {
+  name: "une session exportée",
+  upgrades: [
+    // 1 → 2 : seul formatVersion est ajouté
+    data => data,
+  ],
+  schema: z.object({
+    formatVersion: z.literal(2),
+    sessionKey: z.string().regex(/^[A-Z0-9]+$/, "Clé de session invalide"),
+    exportDate: z.string(),
+    userData: z.record(z.unknown()),
+    appData: z.record(z.unknown()),
+    stats: z.record(z.unknown()).nullable().optional(),
+  }).passthrough(),
+};
+
+export const SESSION_EXPORT_VERSION = sessionExportFormat.upgrades.length + 1;
+
+/**
+ * Validate exported session data, upgrading files of older versions
+ */
+export function parseSessionExport(data: unknown): FormatParseResult<SessionExport> {
+  return parseVersionedFormat<SessionExport>(sessionExportFormat, data);
+}
@@ -0,0 +1,37 @@
+// Type definitions of the versioned file formats
+import { z } from 'zod';
+
+/**
+ * A problem found in an imported file, located by the path of the field
+ */
+export interface FormatIssue {
+  path: string; // Ex. : flashcards[3].front.text, vide pour le fichier entier
+  message: string;
+}
+
+/**
+ * Outcome of reading a file: the data upgraded to the current version,
+ * or the problems that prevent its import
+ */
+export interface FormatParseResult<T> {
+  data: T | null; // null quand le fichier est invalide
+  issues: FormatIssue[];
+  upgradedFrom?: number; // Version du fichier quand il a été converti
+}
+
+/**
+ * A step that brings a file from version N to version N + 1. Upgrades run
+ * before validation and must not assume well-formed data.
+ */
+export type FormatUpgrade = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * A file format written with a `formatVersion` field. Files without the
+ * field are version 1.
+ */
+export interface VersionedFormat {
+  name: string;
+  // Les versions se suivent sans trou : upgrades[N - 1] amène un fichier de la version N à N + 1
+  upgrades: FormatUpgrade[];
+  schema: z.ZodTypeAny; // Schéma de la version courante
+}
@@ -0,0 +1,92 @@
+// Version upgrades and validation of the imported files
+import { z } from 'zod';
+import { FormatIssue, FormatParseResult, VersionedFormat } from './types';
+
+const TYPE_NAMES: Record<string, string> = {
+  string: "texte",
+  number: "nombre",
+  integer: "nombre entier",
+  boolean: "booléen",
+  object: "objet",
+  array: "liste",
+  null: "null",
+  undefined: "rien",
+};
+
+const typeName = (type: string) => TYPE_NAMES[type] || type;
+
+// Messages en français pour les erreurs de validation
+const errorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === 'undefined') return { message: "Champ obligatoire manquant" };
+      return { message: `Type attendu : ${typeName(issue.expected)} (trouvé : ${typeName(issue.received)})` };
+    case z.ZodIssueCode.invalid_literal:
+      return { message: `Valeur attendue : ${JSON.stringify(issue.expected)}` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `Valeur non reconnue, attendue : ${issue.options.map(option => JSON.stringify(option)).join(', ')}` };
+    case z.ZodIssueCode.too_small:
+      if (issue.type === 'string' && issue.minimum === 1) return { message: "Ne doit pas être vide" };
+      return { message: `Valeur trop petite (minimum ${issue.minimum})` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+/**
+ * Format the path of a field: flashcards[3].front.text
+ */
+export function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`;
+    return result ? `${result}.${key}` : key;
+  }, '');
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrade a file to the current version of its format, then validate it.
+ * Files written by a newer version of the application are rejected.
+ */
+export function parseVersionedFormat<T>(format: VersionedFormat, input: unknown): FormatParseResult<T> {
+  if (!isRecord(input)) {
+    return { data: null, issues: [{ path: '', message: `Le fichier ne contient pas ${format.name}` }] };
+  }
+
+  const currentVersion = format.upgrades.length + 1;
+  const version = input.formatVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { data: null, issues: [{ path: 'formatVersion', message: "Version de format invalide" }] };
+  }
+  if (version > currentVersion) {
+    return {
+      data: null,
+      issues: [{
+        path: 'formatVersion',
+        message: `Fichier créé par une version plus récente de l'application (format ${version}, pris en charge jusqu'au format ${currentVersion})`,
+      }],
+    };
+  }
+
+  let data = input;
+  for (let step = version; step < currentVersion; step++) {
+    data = { ...format.upgrades[step - 1](data), formatVersion: step + 1 };
+  }
+
+  const result = format.schema.safeParse(data, { errorMap });
+  if (!result.success) {
+    const issues: FormatIssue[] = result.error.issues.map(issue => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    }));
+    return { data: null, issues };
+  }
+
+  return {
+    data: result.data as T,
+    issues: [],
+    upgradedFrom: version < currentVersion ? version : undefined,
+  };
+}
@@ -0,0 +1,134 @@
+// Undo and redo stacks of the commands applied in this tab
+import { Command, HistoryEntry, HistoryState } from './types';
+import { generateId } from '../storage/types';
+
+const MAX_HISTORY = 50;
+
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+let isRunning = false;
+const listeners = new Set<(state: HistoryState) => void>();
+
+// Les commandes qui quittent l'historique libèrent ce qu'elles gardaient
+const disposeEntries = (entries: HistoryEntry[]) => {
+  entries.forEach(entry => {
+    entry.dispose?.().catch(error => {
+      console.error(`Erreur lors de la libération de la commande "${entry.label}":`, error);
+    });
+  });
+};
+
+const notify = () => {
+  const state = getHistoryState();
+  listeners.forEach(listener => listener(state));
+};
+
+/**
+ * Add a command that has just been applied to the history. Returns its id.
+ */
+export function recordCommand(command: Command): string {
+  const entry: HistoryEntry = { ...command, id: generateId() };
+  const stack = [...undoStack, entry];
+  undoStack = stack.slice(-MAX_HISTORY);
+  // Une nouvelle modification rend l'historique des annulations caduc
+  disposeEntries([...stack.slice(0, -MAX_HISTORY), ...redoStack]);
+  redoStack = [];
+  notify();
+  return entry.id;
+}
+
+/**
+ * Get the id of the most recent command that can be undone
+ */
+export function getLastCommandId(): string | null {
+  return undoStack.length > 0 ? undoStack[undoStack.length - 1].id : null;
+}
+
+/**
+ * Get what can currently be undone or redone
+ */
+export function getHistoryState(): HistoryState {
+  const lastUndo = undoStack[undoStack.length - 1];
+  const lastRedo = redoStack[redoStack.length - 1];
+  return {
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label,
+    redoLabel: lastRedo?.label,
+  };
+}
+
+/**
+ * Listen to history changes. Returns a function that stops listening.
+ */
+export function subscribeToHistory(listener: (state: HistoryState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Exécute une annulation ou un rétablissement ; une commande qui échoue
+// est retirée de l'historique car les données ne lui correspondent plus
+const runEntry = async (
+  from: HistoryEntry[],
+  action: (entry: HistoryEntry) => Promise<void>,
+  commandId?: string
+): Promise<{ entry: HistoryEntry; remaining: HistoryEntry[] } | null> => {
+  const entry = from[from.length - 1];
+  if (!entry || isRunning) return null;
+  if (commandId && entry.id !== commandId) return null;
+
+  isRunning = true;
+  const remaining = from.slice(0, -1);
+  try {
+    await action(entry);
+    return { entry, remaining };
+  } catch (error) {
+    if (from === undoStack) undoStack = remaining;
+    else redoStack = remaining;
+    disposeEntries([entry]);
+    notify();
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Undo the most recent command. With `commandId`, only undo it if it is
+ * still the most recent one. Resolves with the undone command, or null
+ * if there was nothing to undo.
+ */
+export async function undo(commandId?: string): Promise<HistoryEntry | null> {
+  const result = await runEntry(undoStack, entry => entry.undo(), commandId);
+  if (!result) return null;
+
+  undoStack = result.remaining;
+  redoStack = [...redoStack, result.entry];
+  notify();
+  return result.entry;
+}
+
+/**
+ * Apply again the most recently undone command
+ */
+export async function redo(): Promise<HistoryEntry | null> {
+  const result = await runEntry(redoStack, entry => entry.redo());
+  if (!result) return null;
+
+  redoStack = result.remaining;
+  undoStack = [...undoStack, result.entry];
+  notify();
+  return result.entry;
+}
+
+/**
+ * Forget every command (e.g. after an import or a logout)
+ */
+export function clearHistory(): void {
+  disposeEntries([...undoStack, ...redoStack]);
+  undoStack = [];
+  redoStack = [];
+  notify();
+}
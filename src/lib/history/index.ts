@@ -0,0 +1,4 @@
+// Application-level undo/redo history of editing operations
+export * from './types';
+export * from './commandHistory';
+export { undoableRepository } from './undoableRepository';
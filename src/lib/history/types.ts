@@ -0,0 +1,26 @@
+// Type definitions of the undo/redo command history
+
+/**
+ * A change that has already been applied and can be reverted, then
+ * applied again
+ */
+export interface Command {
+  label: string; // Libellé affiché à l'utilisateur (ex: "Suppression de la carte")
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+  dispose?(): Promise<void>; // Appelé quand la commande quitte définitivement l'historique
+}
+
+export interface HistoryEntry extends Command {
+  id: string;
+}
+
+/**
+ * What can currently be undone or redone
+ */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
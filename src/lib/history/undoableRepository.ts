@@ -0,0 +1,208 @@
+// Repository operations recorded in the undo/redo history
+import { repository } from '../repository';
+import { getRecord, putRecord } from '../repository/recordStore';
+import { CollectionName, RecordCollections, Repository } from '../repository/types';
+import { TrashedEntity } from '../storage/types';
+import { findTrashEntry } from '../storage/trashStorage';
+import { getRecordMedia, releaseMedia, retainMedia, unretainMedia } from '../storage/mediaReferences';
+import { Command } from './types';
+import { recordCommand } from './commandHistory';
+
+type UndoableRepository = Pick<
+  Repository,
+  | 'updateDeck'
+  | 'deleteDeck'
+  | 'createTheme'
+  | 'updateTheme'
+  | 'deleteTheme'
+  | 'createFlashcard'
+  | 'updateFlashcard'
+  | 'deleteFlashcard'
+> & {
+  moveFlashcardsToTheme(flashcardIds: string[], themeId: string | undefined): Promise<number>;
+  deleteFlashcards(flashcardIds: string[]): Promise<number>;
+};
+
+// Collections dont les enregistrements sont modifiables
+type EditableCollection = Exclude<CollectionName, 'trash' | 'reviewLogs'>;
+
+const DELETE_OPERATIONS: Record<TrashedEntity, (id: string) => Promise<boolean>> = {
+  deck: id => repository.deleteDeck(id),
+  theme: id => repository.deleteTheme(id),
+  card: id => repository.deleteFlashcard(id),
+};
+
+// Les suppressions passent par la corbeille : on annule en restaurant
+const restoreDeleted = async (entity: TrashedEntity, id: string) => {
+  const entry = findTrashEntry(entity, id);
+  if (!entry) throw new Error("L'élément supprimé n'est plus dans la corbeille");
+  await repository.restoreFromTrash(entry.id);
+};
+
+const deleteRecord = async (entity: TrashedEntity, id: string) => {
+  await DELETE_OPERATIONS[entity](id);
+};
+
+const creationCommand = (label: string, entity: TrashedEntity, id: string): Command => ({
+  label,
+  undo: () => deleteRecord(entity, id),
+  redo: () => restoreDeleted(entity, id),
+});
+
+const deletionCommand = (label: string, entity: TrashedEntity, id: string): Command => ({
+  label,
+  undo: () => restoreDeleted(entity, id),
+  redo: () => deleteRecord(entity, id),
+});
+
+// Une modification est annulée en réécrivant l'enregistrement tel qu'il
+// était, sans repasser par le traitement des médias : les médias des deux
+// versions sont gardés tant que la commande reste dans l'historique
+const updateCommand = <K extends EditableCollection>(
+  label: string,
+  collection: K,
+  before: RecordCollections[K],
+  after: RecordCollections[K]
+): Command => {
+  const media = [...getRecordMedia(before), ...getRecordMedia(after)];
+  retainMedia(media);
+  return {
+    label,
+    undo: () => putRecord(collection, before),
+    redo: () => putRecord(collection, after),
+    dispose: async () => {
+      unretainMedia(media);
+      await releaseMedia(media);
+    },
+  };
+};
+
+const batchCommand = (label: string, commands: Command[]): Command => ({
+  label,
+  undo: async () => {
+    for (const command of [...commands].reverse()) {
+      await command.undo();
+    }
+  },
+  redo: async () => {
+    for (const command of commands) {
+      await command.redo();
+    }
+  },
+  dispose: async () => {
+    for (const command of commands) {
+      await command.dispose?.();
+    }
+  },
+});
+
+// Applique une modification et l'enregistre si elle a eu lieu. Le média
+// qu'elle remplace ne doit pas être supprimé par le dépôt : l'annulation
+// le remettrait en place
+const trackUpdate = async <K extends EditableCollection, T>(
+  label: string,
+  collection: K,
+  id: string,
+  update: () => Promise<T | null>
+): Promise<T | null> => {
+  const before = getRecord(collection, id);
+  const beforeMedia = before ? getRecordMedia(before) : [];
+  retainMedia(beforeMedia);
+
+  let result: T | null;
+  try {
+    result = await update();
+  } finally {
+    unretainMedia(beforeMedia);
+  }
+
+  // Relu une fois les médias de la modification enregistrés
+  const after = getRecord(collection, id);
+  if (result && before && after) {
+    recordCommand(updateCommand(label, collection, before, after));
+  } else {
+    await releaseMedia(beforeMedia);
+  }
+  return result;
+};
+
+/**
+ * Same operations as the repository, recorded in the history so that
+ * they can be undone with undo() and applied again with redo()
+ */
+export const undoableRepository: UndoableRepository = {
+  updateDeck: (deckId, updates) =>
+    trackUpdate("Modification du deck", 'decks', deckId, () => repository.updateDeck(deckId, updates)),
+
+  async deleteDeck(deckId) {
+    const deleted = await repository.deleteDeck(deckId);
+    if (deleted) recordCommand(deletionCommand("Suppression du deck", 'deck', deckId));
+    return deleted;
+  },
+
+  async createTheme(themeData) {
+    const theme = await repository.createTheme(themeData);
+    recordCommand(creationCommand("Création du thème", 'theme', theme.id));
+    return theme;
+  },
+
+  updateTheme: (themeId, updates) =>
+    trackUpdate("Modification du thème", 'themes', themeId, () => repository.updateTheme(themeId, updates)),
+
+  async deleteTheme(themeId) {
+    const deleted = await repository.deleteTheme(themeId);
+    if (deleted) recordCommand(deletionCommand("Suppression du thème", 'theme', themeId));
+    return deleted;
+  },
+
+  async createFlashcard(flashcardData) {
+    const flashcard = await repository.createFlashcard(flashcardData);
+    recordCommand(creationCommand("Création de la carte", 'card', flashcard.id));
+    return flashcard;
+  },
+
+  updateFlashcard: (flashcardId, updates) =>
+    trackUpdate("Modification de la carte", 'flashcards', flashcardId, () => repository.updateFlashcard(flashcardId, updates)),
+
+  async deleteFlashcard(flashcardId) {
+    const deleted = await repository.deleteFlashcard(flashcardId);
+    if (deleted) recordCommand(deletionCommand("Suppression de la carte", 'card', flashcardId));
+    return deleted;
+  },
+
+  async moveFlashcardsToTheme(flashcardIds, themeId) {
+    const commands: Command[] = [];
+    try {
+      for (const flashcardId of flashcardIds) {
+        const before = getRecord('flashcards', flashcardId);
+        if (!before || before.themeId === themeId) continue;
+
+        await repository.updateFlashcard(flashcardId, { themeId });
+        const after = getRecord('flashcards', flashcardId);
+        if (after) commands.push(updateCommand("Déplacement de la carte", 'flashcards', before, after));
+      }
+    } finally {
+      // Même interrompue, la partie déjà faite reste annulable
+      if (commands.length > 0) {
+        recordCommand(batchCommand(`Déplacement de ${commands.length} carte(s)`, commands));
+      }
+    }
+    return commands.length;
+  },
+
+  async deleteFlashcards(flashcardIds) {
+    const commands: Command[] = [];
+    try {
+      for (const flashcardId of flashcardIds) {
+        if (await repository.deleteFlashcard(flashcardId)) {
+          commands.push(deletionCommand("Suppression de la carte", 'card', flashcardId));
+        }
+      }
+    } finally {
+      if (commands.length > 0) {
+        recordCommand(batchCommand(`Suppression de ${commands.length} carte(s)`, commands));
+      }
+    }
+    return commands.length;
+  },
+};
@@ -1,10 +1,11 @@
 /**
  * Service de gestion du stockage des médias dans IndexedDB avec compression
  */
+import { StorageChangeType, broadcastChanges, notifyChanges } from './repository/changeEvents';
 
 // Constantes de configuration de la base de données
 const DB_NAME = 'MediaDB';
-const DB_VERSION = 2; // Augmenté la version pour gérer la migration
+const DB_VERSION = 2; // Version de la structure des stores ; les données migrent via lib/migrations
 const IMAGES_STORE = 'imagesStore';
 const AUDIO_STORE = 'audioStore';
 const COMPRESSED_STORE = 'compressedStore'; // Nouveau store pour les données compressées
@@ -18,9 +19,28 @@ interface DBError {
   error?: Error;
 }
 
+// Média enregistré, tel que listé par listStoredMedia
+export interface StoredMedia {
+  id: string;
+  type: 'image' | 'audio';
+  size: number; // Taille stockée en octets (compressée le cas échéant)
+  storedAt?: number; // Connue seulement pour les médias enregistrés depuis cet onglet
+}
+
+// Dernier enregistrement de chaque média depuis cet onglet : un média
+// récent peut appartenir à un enregistrement en cours d'écriture
+const lastStoredAt = new Map<string, number>();
+
 // Type pour les callbacks de résultats
 type ResultCallback<T> = (result: T | null, error: DBError | null) => void;
 
+// Signale la modification d'un média à cet onglet et aux autres
+const publishMediaChange = (id: string, type: StorageChangeType) => {
+  const events = [{ entity: 'media' as const, type, id }];
+  notifyChanges(events);
+  broadcastChanges(events);
+};
+
 /**
  * Ouvre une connexion à la base de données IndexedDB
  */
@@ -112,11 +132,12 @@ async function decompressBlob(compressedBlob: Blob): Promise<Blob> {
 }
 
 /**
- * Optimise une image avant stockage (redimensionnement et compression)
+ * Optimise une image avant stockage (redimensionnement et compression).
+ * Avec `force`, même les petites images sont réencodées.
  */
-async function optimizeImage(imageBlob: Blob): Promise<Blob> {
+async function optimizeImage(imageBlob: Blob, quality: number = 0.85, force: boolean = false): Promise<Blob> {
   // Si c'est une image de moins de 50KB, pas besoin d'optimiser
-  if (imageBlob.size <= 50 * 1024) {
+  if (!force && imageBlob.size <= 50 * 1024) {
     return imageBlob;
   }
   
@@ -163,7 +184,7 @@ async function optimizeImage(imageBlob: Blob): Promise<Blob> {
     
     // Convertir en blob avec compression
     const optimizedBlob = await new Promise<Blob>((resolve) => {
-      canvas.toBlob((blob) => resolve(blob!), 'image/jpeg', 0.85);
+      canvas.toBlob((blob) => resolve(blob!), 'image/jpeg', quality);
     });
     
     return optimizedBlob;
@@ -173,75 +194,120 @@ async function optimizeImage(imageBlob: Blob): Promise<Blob> {
   }
 }
 
-/**
- * Stocke une image (Blob) dans IndexedDB avec optimisation
- */
-export const storeImage = async (imageId: string, imageBlob: Blob): Promise<boolean> => {
+// Enregistre un blob déjà préparé (image optimisée) sous l'id donné
+const writeMedia = async (type: StoredMedia['type'], mediaId: string, blob: Blob): Promise<boolean> => {
   try {
-    // Optimiser l'image avant stockage
-    const optimizedBlob = await optimizeImage(imageBlob);
+    const compressedBlob = await compressBlob(blob);
     
-    // Compresser le blob optimisé
-    const compressedBlob = await compressBlob(optimizedBlob);
-    
-    // Déterminer dans quel store sauvegarder le blob
-    const storeName = compressionSupported ? COMPRESSED_STORE : IMAGES_STORE;
+    // Déterminer dans quel store sauvegarder le blob ; le store compressé
+    // préfixe les clés pour identifier le type
+    const prefix = type === 'image' ? 'img_' : 'aud_';
+    const storeName = compressionSupported ? COMPRESSED_STORE : type === 'image' ? IMAGES_STORE : AUDIO_STORE;
+    const key = compressionSupported ? `${prefix}${mediaId}` : mediaId;
     
     const db = await openDatabase();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([storeName], 'readwrite');
       const store = transaction.objectStore(storeName);
+      const request = store.put(compressedBlob, key);
       
-      // Stocker le blob avec un préfixe pour identifier le type
-      const request = store.put(compressedBlob, `img_${imageId}`);
-      
-      request.onsuccess = () => resolve(true);
       request.onerror = () => {
-        console.error('Erreur lors du stockage de l\'image:', request.error);
+        console.error(`Erreur lors du stockage du média (${type}):`, request.error);
         reject(request.error);
       };
       
-      transaction.oncomplete = () => db.close();
+      // Ne confirmer qu'une fois la transaction validée sur disque
+      transaction.oncomplete = () => {
+        db.close();
+        lastStoredAt.set(mediaId, Date.now());
+        publishMediaChange(mediaId, 'created');
+        resolve(true);
+      };
+      transaction.onabort = () => {
+        db.close();
+        reject(transaction.error);
+      };
     });
   } catch (error) {
-    console.error('Erreur dans storeImage:', error);
+    console.error(`Erreur dans writeMedia (${type}):`, error);
     return false;
   }
 };
 
+/**
+ * Stocke une image (Blob) dans IndexedDB avec optimisation
+ */
+export const storeImage = async (imageId: string, imageBlob: Blob): Promise<boolean> => {
+  return writeMedia('image', imageId, await optimizeImage(imageBlob));
+};
+
 /**
  * Stocke un fichier audio (Blob) dans IndexedDB avec compression
  */
 export const storeAudio = async (audioId: string, audioBlob: Blob): Promise<boolean> => {
+  return writeMedia('audio', audioId, audioBlob);
+};
+
+/**
+ * Stocke un média sous un id dérivé de son contenu. Un contenu déjà
+ * enregistré n'est pas dupliqué : son id est simplement renvoyé.
+ * Renvoie null si le média n'a pas pu être enregistré.
+ */
+export const storeMedia = async (type: StoredMedia['type'], blob: Blob): Promise<string | null> => {
+  const prepared = type === 'image' ? await optimizeImage(blob) : blob;
+  return storeMediaContent(type, prepared);
+};
+
+// Enregistre le contenu tel quel sous son id de contenu
+const storeMediaContent = async (type: StoredMedia['type'], blob: Blob): Promise<string | null> => {
   try {
-    // Compresser le blob audio
-    const compressedBlob = await compressBlob(audioBlob);
-    
-    // Déterminer dans quel store sauvegarder le blob
-    const storeName = compressionSupported ? COMPRESSED_STORE : AUDIO_STORE;
-    
-    const db = await openDatabase();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([storeName], 'readwrite');
-      const store = transaction.objectStore(storeName);
-      
-      // Stocker le blob avec un préfixe pour identifier le type
-      const request = store.put(compressedBlob, `aud_${audioId}`);
-      
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => {
-        console.error('Erreur lors du stockage de l\'audio:', request.error);
-        reject(request.error);
-      };
-      
-      transaction.oncomplete = () => db.close();
-    });
+    const mediaId = await computeMediaId(type === 'image' ? 'img' : 'aud', blob);
+    if (await mediaExists(mediaId, type)) {
+      lastStoredAt.set(mediaId, Date.now());
+      return mediaId;
+    }
+    return await writeMedia(type, mediaId, blob) ? mediaId : null;
   } catch (error) {
-    console.error('Erreur dans storeAudio:', error);
-    return false;
+    console.error(`Erreur dans storeMedia (${type}):`, error);
+    return null;
   }
 };
 
+/**
+ * Réenregistre un média existant sous son id de contenu et renvoie ce
+ * nouvel id. L'ancien média n'est pas supprimé.
+ */
+export const rehashStoredMedia = async (mediaId: string, type: StoredMedia['type']): Promise<string | null> => {
+  const blob = type === 'image' ? await getImage(mediaId) : await getAudio(mediaId);
+  if (!blob) return null;
+  // Le blob stocké est déjà optimisé : il ne doit pas l'être une seconde fois
+  return storeMediaContent(type, blob);
+};
+
+/**
+ * Réencode une image stockée avec une qualité plus faible et l'enregistre
+ * sous l'id de son nouveau contenu : l'image d'origine, qui peut être
+ * partagée avec d'autres enregistrements, n'est ni modifiée ni supprimée.
+ * Renvoie le nouvel id et le blob, ou null si le réencodage ne fait rien gagner.
+ */
+export const recompressStoredImage = async (
+  imageId: string,
+  quality: number = 0.7
+): Promise<{ id: string; blob: Blob } | null> => {
+  const blob = await getImage(imageId);
+  if (!blob) return null;
+  
+  const recompressed = await optimizeImage(blob, quality, true);
+  if (recompressed.size >= blob.size) return null;
+  const id = await storeMediaContent('image', recompressed);
+  return id ? { id, blob: recompressed } : null;
+};
+
+/**
+ * Date à laquelle ce média a été enregistré ou réutilisé depuis cet onglet
+ */
+export const getMediaStoredAt = (mediaId: string): number | undefined => lastStoredAt.get(mediaId);
+
 /**
  * Récupère une image depuis IndexedDB
  */
@@ -329,6 +395,7 @@ export const deleteImage = async (imageId: string): Promise<boolean> => {
     // Supprimer également depuis le store non compressé
     const standardSuccess = await deleteFromStore(IMAGES_STORE, imageId);
     
+    publishMediaChange(imageId, 'deleted');
     return success && standardSuccess;
   } catch (error) {
     console.error('Erreur dans deleteImage:', error);
@@ -352,6 +419,7 @@ export const deleteAudio = async (audioId: string): Promise<boolean> => {
     // Supprimer également depuis le store non compressé
     const standardSuccess = await deleteFromStore(AUDIO_STORE, audioId);
     
+    publishMediaChange(audioId, 'deleted');
     return success && standardSuccess;
   } catch (error) {
     console.error('Erreur dans deleteAudio:', error);
@@ -484,6 +552,26 @@ export const generateMediaId = (prefix: 'img' | 'aud'): string => {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
 };
 
+const CONTENT_ID_PATTERN = /^(img|aud)_[0-9a-f]{64}$/;
+
+/**
+ * Crée l'id d'un média à partir de l'empreinte SHA-256 de son contenu.
+ * Sans SubtleCrypto (contexte non sécurisé), l'id est aléatoire.
+ */
+export const computeMediaId = async (prefix: 'img' | 'aud', blob: Blob): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return generateMediaId(prefix);
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${prefix}_${hash}`;
+};
+
+/**
+ * Indique si l'id d'un média est dérivé de son contenu
+ */
+export const isContentMediaId = (mediaId: string): boolean => CONTENT_ID_PATTERN.test(mediaId);
+
 /**
  * Vérifie si une chaîne est au format base64 (pour la migration)
  */
@@ -504,28 +592,26 @@ export const migrateBase64MediaToIndexedDB = async (
   try {
     // Migre l'image si présente
     if (isBase64String(imageBase64)) {
-      const imageId = generateMediaId('img');
       const contentType = imageBase64!.split(';')[0].split(':')[1];
       const imageBlob = base64ToBlob(imageBase64!, contentType);
       
       // Optimiser et compresser l'image
-      const success = await storeImage(imageId, imageBlob);
+      const imageId = await storeMedia('image', imageBlob);
       
-      if (success) {
+      if (imageId) {
         result.imageId = imageId;
       }
     }
     
     // Migre l'audio si présent
     if (isBase64String(audioBase64)) {
-      const audioId = generateMediaId('aud');
       const contentType = audioBase64!.split(';')[0].split(':')[1];
       const audioBlob = base64ToBlob(audioBase64!, contentType);
       
       // Compresser l'audio
-      const success = await storeAudio(audioId, audioBlob);
+      const audioId = await storeMedia('audio', audioBlob);
       
-      if (success) {
+      if (audioId) {
         result.audioId = audioId;
       }
     }
@@ -538,45 +624,82 @@ export const migrateBase64MediaToIndexedDB = async (
 };
 
 /**
- * Migre les données existantes vers le format compressé
+ * Migre les données existantes vers le format compressé. Les médias déjà
+ * présents dans le store compressé sont ignorés ; avec `dryRun`, renvoie
+ * seulement le nombre de médias à compresser.
  */
-export const migrateToCompressedFormat = async (): Promise<number> => {
-  // Si la compression n'est pas supportée, ne rien faire
-  if (!compressionSupported) {
+export const migrateToCompressedFormat = async (dryRun: boolean = false): Promise<number> => {
+  // Si la compression ou IndexedDB ne sont pas supportés, ne rien faire
+  if (!compressionSupported || typeof indexedDB === 'undefined') {
     return 0;
   }
   
+  const db = await openDatabase();
   try {
-    const db = await openDatabase();
+    const compressedKeys = new Set(Object.keys(await getAllBlobs(db, COMPRESSED_STORE)));
+    
+    // Récupérer les blobs d'images et d'audio pas encore compressés
+    const pending: [string, Blob][] = [];
+    for (const [storeName, prefix] of [[IMAGES_STORE, 'img_'], [AUDIO_STORE, 'aud_']]) {
+      const blobs = await getAllBlobs(db, storeName);
+      for (const [key, blob] of Object.entries(blobs)) {
+        if (!compressedKeys.has(`${prefix}${key}`)) {
+          pending.push([`${prefix}${key}`, blob]);
+        }
+      }
+    }
     
-    // Récupérer tous les blobs d'images
-    const imageBlobs = await getAllBlobs(db, IMAGES_STORE);
-    let migratedCount = 0;
+    if (dryRun) return pending.length;
     
-    // Migrer chaque image
-    for (const [key, blob] of Object.entries(imageBlobs)) {
-      // Compresser et stocker dans le nouveau format
+    // Compresser et stocker dans le nouveau format
+    for (const [key, blob] of pending) {
       const compressedBlob = await compressBlob(blob);
-      await storeBlobInStore(db, COMPRESSED_STORE, `img_${key}`, compressedBlob);
-      migratedCount++;
+      await storeBlobInStore(db, COMPRESSED_STORE, key, compressedBlob);
     }
     
-    // Récupérer tous les blobs audio
-    const audioBlobs = await getAllBlobs(db, AUDIO_STORE);
+    return pending.length;
+  } catch (error) {
+    console.error('Erreur lors de la migration vers le format compressé:', error);
+    throw error;
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Liste les médias présents dans IndexedDB, tous stores confondus, avec
+ * la place qu'ils occupent
+ */
+export const listStoredMedia = async (): Promise<StoredMedia[]> => {
+  if (typeof indexedDB === 'undefined') return [];
+  
+  const db = await openDatabase();
+  try {
+    const media = new Map<string, StoredMedia>();
+    const addMedia = (id: string, type: StoredMedia['type'], blob: Blob) => {
+      const key = `${type}:${id}`;
+      media.set(key, {
+        id,
+        type,
+        size: (media.get(key)?.size || 0) + (blob?.size || 0),
+        storedAt: lastStoredAt.get(id),
+      });
+    };
     
-    // Migrer chaque audio
-    for (const [key, blob] of Object.entries(audioBlobs)) {
-      // Compresser et stocker dans le nouveau format
-      const compressedBlob = await compressBlob(blob);
-      await storeBlobInStore(db, COMPRESSED_STORE, `aud_${key}`, compressedBlob);
-      migratedCount++;
+    // Les clés du store compressé sont préfixées par le type du média
+    for (const [key, blob] of Object.entries(await getAllBlobs(db, COMPRESSED_STORE))) {
+      addMedia(key.slice(4), key.startsWith('aud_') ? 'audio' : 'image', blob);
+    }
+    for (const [key, blob] of Object.entries(await getAllBlobs(db, IMAGES_STORE))) {
+      addMedia(key, 'image', blob);
+    }
+    for (const [key, blob] of Object.entries(await getAllBlobs(db, AUDIO_STORE))) {
+      addMedia(key, 'audio', blob);
     }
     
+    return Array.from(media.values());
+  } finally {
     db.close();
-    return migratedCount;
-  } catch (error) {
-    console.error('Erreur lors de la migration vers le format compressé:', error);
-    return 0;
   }
 };
 
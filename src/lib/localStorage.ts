@@ -2,17 +2,14 @@
 // Legacy file that re-exports the modular storage API for backward compatibility
 // This allows existing code to keep using imports from localStorage.ts
 
-import * as Storage from './storage';
 import { User } from './storage/types';
 import { getUser, updateUser } from './storage/userStorage';
 import { hasSession, clearSessionKey } from './sessionManager';
+import { setRecords } from './repository/recordStore';
 
 // Re-export everything from the modular storage system
 export * from './storage';
 
-// Generate sample data on first load
-Storage.generateSampleData();
-
 // Profile management functions
 export function getProfile(): User | null {
   const user = getUser();
@@ -56,9 +53,10 @@ export function resetUserData() {
   // Clear user-related data
   localStorage.removeItem('users');
   localStorage.removeItem('sessionId');
-  localStorage.removeItem('decks');
-  localStorage.removeItem('flashcards');
-  localStorage.removeItem('themes');
+  setRecords('decks', {});
+  setRecords('flashcards', {});
+  setRecords('themes', {});
+  setRecords('trash', {});
   return true;
 }
 
@@ -0,0 +1,119 @@
+// Ordered migrations of the persisted data and the runner applying them
+import { Migration, MigrationReport, MigrationResult, SchemaState } from './types';
+import {
+  flashcardMediaMigration,
+  coverImageMigration,
+  compressedMediaMigration,
+  contentAddressedMediaMigration,
+} from './mediaMigrations';
+import { reviewLogCollectionMigration } from './recordMigrations';
+import { initRepository, flushRecords } from '../repository';
+import { getLocalStorageItem, setLocalStorageItem } from '../storage/utils';
+
+export * from './types';
+
+const SCHEMA_STATE_KEY = 'dataSchema';
+const MIGRATION_LOCK = 'cds-flashcard-migrations';
+
+// Les versions se suivent sans trou : la migration N amène les données à la version N
+const MIGRATIONS: Migration[] = [
+  flashcardMediaMigration,
+  coverImageMigration,
+  compressedMediaMigration,
+  contentAddressedMediaMigration,
+  reviewLogCollectionMigration,
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the schema version recorded with the data (0 before any migration)
+ */
+export function getSchemaState(): SchemaState {
+  const state = getLocalStorageItem(SCHEMA_STATE_KEY);
+  return state && typeof state.version === 'number' ? state : { version: 0, updatedAt: 0 };
+}
+
+const saveSchemaState = (state: SchemaState) => {
+  if (!setLocalStorageItem(SCHEMA_STATE_KEY, state)) {
+    throw new Error("Impossible d'enregistrer la version du schéma de données");
+  }
+};
+
+const getPendingMigrations = (): Migration[] => {
+  const { version } = getSchemaState();
+  return MIGRATIONS.filter(migration => migration.version > version);
+};
+
+// Un seul onglet migre à la fois quand le navigateur le permet
+const withMigrationLock = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+
+  let result: T;
+  await navigator.locks.request(MIGRATION_LOCK, async () => {
+    result = await task();
+  });
+  return result!;
+};
+
+/**
+ * Whether some migrations have not been applied to the stored data yet
+ */
+export function hasPendingMigrations(): boolean {
+  return getPendingMigrations().length > 0;
+}
+
+/**
+ * Simulate the pending migrations and report what they would change
+ */
+export async function getMigrationReport(): Promise<MigrationReport> {
+  await initRepository();
+  const state = getSchemaState();
+
+  const pending: MigrationResult[] = [];
+  for (const migration of getPendingMigrations()) {
+    pending.push({
+      version: migration.version,
+      id: migration.id,
+      description: migration.description,
+      affected: await migration.run({ dryRun: true }),
+    });
+  }
+
+  return {
+    currentVersion: state.version,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    interrupted: state.running,
+    pending,
+  };
+}
+
+/**
+ * Apply the pending migrations in order. The schema version is saved
+ * after each one, so an interrupted run resumes where it stopped. Rejects
+ * with the error of the failing migration; the following ones are not run.
+ */
+export async function runMigrations(
+  onProgress?: (migration: Migration, done: number, total: number) => void
+): Promise<MigrationResult[]> {
+  await initRepository();
+
+  return withMigrationLock(async () => {
+    // Relire l'état : un autre onglet a pu migrer pendant l'attente du verrou
+    const results: MigrationResult[] = [];
+    for (const migration of getPendingMigrations()) {
+      saveSchemaState({ ...getSchemaState(), running: migration.id });
+
+      const affected = await migration.run({
+        dryRun: false,
+        onProgress: (done, total) => onProgress?.(migration, done, total),
+      });
+      await flushRecords();
+
+      saveSchemaState({ version: migration.version, updatedAt: Date.now() });
+      console.log(`Migration ${migration.version} (${migration.id}) terminée : ${affected} élément(s)`);
+      results.push({ version: migration.version, id: migration.id, description: migration.description, affected });
+    }
+    return results;
+  });
+}
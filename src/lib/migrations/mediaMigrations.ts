@@ -0,0 +1,164 @@
+// Migrations moving inline (base64) media to the IndexedDB media store
+import { Migration } from './types';
+import { FlashcardSide, MediaType, User } from '../storage/types';
+import { getLocalStorageItem, isBase64String, setLocalStorageItem } from '../storage/utils';
+import { getMediaKey } from '../storage/mediaReferences';
+import { flushRecords, getRecords, putRecord, setRecords } from '../repository/recordStore';
+import {
+  storeMedia,
+  base64ToBlob,
+  deleteImage,
+  deleteAudio,
+  isContentMediaId,
+  listStoredMedia,
+  rehashStoredMedia,
+  migrateToCompressedFormat
+} from '../indexedDBStorage';
+
+// Stocke un média base64 et renvoie son id ; échoue si le stockage échoue
+const storeInlineMedia = async (dataUrl: string, type: MediaType): Promise<string> => {
+  const contentType = dataUrl.split(';')[0].split(':')[1];
+  const mediaId = await storeMedia(type, base64ToBlob(dataUrl, contentType));
+  if (!mediaId) {
+    throw new Error(`Impossible d'enregistrer le média (${type})`);
+  }
+  return mediaId;
+};
+
+const sideHasInlineMedia = (side: FlashcardSide): boolean =>
+  (isBase64String(side.image) && !side.imageId) ||
+  (isBase64String(side.audio) && !side.audioId);
+
+// Le base64 est conservé : l'affichage l'utilise directement
+const migrateSide = async (side: FlashcardSide): Promise<FlashcardSide> => {
+  const result = { ...side };
+  if (isBase64String(side.image) && !side.imageId) {
+    result.imageId = await storeInlineMedia(side.image!, 'image');
+  }
+  if (isBase64String(side.audio) && !side.audioId) {
+    result.audioId = await storeInlineMedia(side.audio!, 'audio');
+  }
+  return result;
+};
+
+export const flashcardMediaMigration: Migration = {
+  version: 1,
+  id: 'flashcard-media-ids',
+  description: "Copie des images et sons des cartes vers IndexedDB",
+  async run({ dryRun, onProgress }) {
+    const cards = Object.values(getRecords('flashcards'))
+      .filter(card => sideHasInlineMedia(card.front) || sideHasInlineMedia(card.back));
+    if (dryRun) return cards.length;
+
+    // Chaque carte est enregistrée dès que ses médias le sont : une
+    // migration interrompue reprend aux cartes restantes
+    for (const [index, card] of cards.entries()) {
+      await putRecord('flashcards', {
+        ...card,
+        front: await migrateSide(card.front),
+        back: await migrateSide(card.back),
+      });
+      onProgress?.(index + 1, cards.length);
+    }
+    return cards.length;
+  },
+};
+
+export const coverImageMigration: Migration = {
+  version: 2,
+  id: 'cover-image-ids',
+  description: "Copie des images de couverture des decks et thèmes vers IndexedDB",
+  async run({ dryRun, onProgress }) {
+    const hasInlineCover = (record: { coverImage?: string; coverImageId?: string }) =>
+      isBase64String(record.coverImage) && !record.coverImageId;
+    const decks = Object.values(getRecords('decks')).filter(hasInlineCover);
+    const themes = Object.values(getRecords('themes')).filter(hasInlineCover);
+    const total = decks.length + themes.length;
+    if (dryRun) return total;
+
+    for (const [index, deck] of decks.entries()) {
+      await putRecord('decks', { ...deck, coverImageId: await storeInlineMedia(deck.coverImage!, 'image') });
+      onProgress?.(index + 1, total);
+    }
+    for (const [index, theme] of themes.entries()) {
+      await putRecord('themes', { ...theme, coverImageId: await storeInlineMedia(theme.coverImage!, 'image') });
+      onProgress?.(decks.length + index + 1, total);
+    }
+    return total;
+  },
+};
+
+export const compressedMediaMigration: Migration = {
+  version: 3,
+  id: 'compressed-media',
+  description: "Compression des médias enregistrés avant la prise en charge de la compression",
+  run: ({ dryRun }) => migrateToCompressedFormat(dryRun),
+};
+
+// Remplace les anciens ids de médias par leur id de contenu dans tous les
+// enregistrements, corbeille et avatars compris
+const renameMediaReferences = (renamed: Map<string, string>) => {
+  const rename = (id: string | undefined, type: MediaType) =>
+    id ? renamed.get(getMediaKey(id, type)) ?? id : id;
+  const renameSide = (side: FlashcardSide): FlashcardSide => ({
+    ...side,
+    imageId: rename(side.imageId, 'image'),
+    audioId: rename(side.audioId, 'audio'),
+  });
+  const renameCard = <T extends { front: FlashcardSide; back: FlashcardSide }>(card: T): T => ({
+    ...card,
+    front: renameSide(card.front),
+    back: renameSide(card.back),
+  });
+  const renameCover = <T extends { coverImageId?: string }>(record: T): T => ({
+    ...record,
+    coverImageId: rename(record.coverImageId, 'image'),
+  });
+  const mapRecords = <T>(records: Record<string, T>, map: (record: T) => T) =>
+    Object.fromEntries(Object.entries(records).map(([id, record]) => [id, map(record)]));
+
+  setRecords('decks', mapRecords(getRecords('decks'), renameCover));
+  setRecords('themes', mapRecords(getRecords('themes'), renameCover));
+  setRecords('flashcards', mapRecords(getRecords('flashcards'), renameCard));
+  setRecords('trash', mapRecords(getRecords('trash'), entry => ({
+    ...entry,
+    decks: entry.decks.map(renameCover),
+    themes: entry.themes.map(renameCover),
+    flashcards: entry.flashcards.map(renameCard),
+  })));
+
+  const users: Record<string, User> = getLocalStorageItem('users') || {};
+  setLocalStorageItem('users', mapRecords(users, user => ({ ...user, avatarId: rename(user.avatarId, 'image') })));
+};
+
+export const contentAddressedMediaMigration: Migration = {
+  version: 4,
+  id: 'content-addressed-media',
+  description: "Regroupement des médias identiques sous un id dérivé de leur contenu",
+  async run({ dryRun, onProgress }) {
+    const legacy = (await listStoredMedia()).filter(media => !isContentMediaId(media.id));
+    if (dryRun) return legacy.length;
+
+    // Les anciens médias restent en place tant que les références n'ont
+    // pas été mises à jour : une migration interrompue peut reprendre
+    const renamed = new Map<string, string>();
+    for (const [index, media] of legacy.entries()) {
+      const mediaId = await rehashStoredMedia(media.id, media.type);
+      if (mediaId) renamed.set(getMediaKey(media.id, media.type), mediaId);
+      onProgress?.(index + 1, legacy.length);
+    }
+
+    renameMediaReferences(renamed);
+    await flushRecords();
+
+    for (const media of legacy) {
+      if (!renamed.has(getMediaKey(media.id, media.type))) continue;
+      if (media.type === 'image') {
+        await deleteImage(media.id);
+      } else {
+        await deleteAudio(media.id);
+      }
+    }
+    return renamed.size;
+  },
+};
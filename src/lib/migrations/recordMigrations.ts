@@ -0,0 +1,34 @@
+// Migrations moving data kept in raw localStorage keys into the repository
+import { Migration } from './types';
+import { ReviewLog } from '../storage/types';
+import { getLocalStorageItem } from '../storage/utils';
+import { flushRecords, getActiveBackend, getRecords, setRecords } from '../repository/recordStore';
+
+const REVIEW_LOGS_KEY = 'reviewLogs';
+
+export const reviewLogCollectionMigration: Migration = {
+  version: 5,
+  id: 'review-log-collection',
+  description: "Déplacement du journal des révisions vers la base de données",
+  async run({ dryRun, onProgress }) {
+    // Le backend localStorage range déjà cette collection sous la même clé
+    const backend = getActiveBackend();
+    if (backend?.name === 'localStorage') return 0;
+
+    const legacyLogs: Record<string, ReviewLog> = getLocalStorageItem(REVIEW_LOGS_KEY) || {};
+    const currentLogs = getRecords('reviewLogs');
+    const missing = Object.keys(legacyLogs).filter(id => !currentLogs[id]);
+    if (dryRun || Object.keys(legacyLogs).length === 0) return missing.length;
+
+    // La clé n'est effacée qu'une fois les entrées enregistrées durablement
+    if (backend?.name !== 'indexedDB') {
+      throw new Error("Le journal des révisions ne peut être déplacé que vers IndexedDB");
+    }
+
+    setRecords('reviewLogs', { ...legacyLogs, ...currentLogs });
+    await flushRecords();
+    localStorage.removeItem(REVIEW_LOGS_KEY);
+    onProgress?.(missing.length, missing.length);
+    return missing.length;
+  },
+};
@@ -0,0 +1,51 @@
+// Type definitions of the data schema migrations
+
+/**
+ * Options passed to a migration when it runs
+ */
+export interface MigrationContext {
+  dryRun: boolean; // Compter les éléments concernés sans rien modifier
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * A step that brings stored data from `version - 1` to `version`.
+ * Migrations must be idempotent: an interrupted migration is simply run
+ * again and skips what it already converted.
+ */
+export interface Migration {
+  version: number;
+  id: string;
+  description: string;
+  // Renvoie le nombre d'éléments modifiés (ou à modifier en simulation)
+  run(context: MigrationContext): Promise<number>;
+}
+
+/**
+ * Schema version recorded with the data
+ */
+export interface SchemaState {
+  version: number;
+  updatedAt: number;
+  running?: string; // Migration commencée mais pas terminée
+}
+
+/**
+ * Outcome of a migration, real or simulated
+ */
+export interface MigrationResult {
+  version: number;
+  id: string;
+  description: string;
+  affected: number;
+}
+
+/**
+ * What running the pending migrations would do
+ */
+export interface MigrationReport {
+  currentVersion: number;
+  latestVersion: number;
+  interrupted?: string; // Migration interrompue, reprise au prochain lancement
+  pending: MigrationResult[];
+}
@@ -0,0 +1,69 @@
+// Génération de QCM : les distracteurs sont les réponses d'autres cartes
+import { StudyItem } from "./storage/studyItems";
+import { getDisplayAnswer, getSideAnswers } from "./answerChecker";
+
+export const DEFAULT_CHOICE_COUNT = 4;
+export const MIN_CHOICE_COUNT = 2;
+export const MAX_CHOICE_COUNT = 6;
+
+export interface MultipleChoiceQuestion {
+  itemId: string;
+  options: string[];
+  correctIndex: number;
+}
+
+const normalizeChoice = (text: string): string => text.trim().toLowerCase();
+
+const shuffle = <T>(array: T[]): T[] => {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Build a multiple-choice question for a study item. Distractors are
+ * drawn from the answers of the other items of the pool, preferring
+ * items of the same theme, then items studied the same way (direction,
+ * cloze or not), then the rest of the deck.
+ */
+export function buildMultipleChoiceQuestion(
+  item: StudyItem,
+  pool: StudyItem[],
+  optionCount: number = DEFAULT_CHOICE_COUNT
+): MultipleChoiceQuestion {
+  const answer = getDisplayAnswer(item.back).trim();
+  // Aucun distracteur ne doit correspondre à une réponse acceptée de la carte
+  const seen = new Set(getSideAnswers(item.back).map(normalizeChoice));
+  const isSameKind = (other: StudyItem) => other.direction === item.direction && !!other.cloze === !!item.cloze;
+
+  const candidates = pool.filter(other => other.cardId !== item.cardId && getDisplayAnswer(other.back).trim());
+  const tiers = [
+    candidates.filter(other => isSameKind(other) && item.themeId && other.themeId === item.themeId),
+    candidates.filter(other => isSameKind(other)),
+    candidates,
+  ];
+
+  const distractors: string[] = [];
+  for (const tier of tiers) {
+    for (const other of shuffle(tier)) {
+      if (distractors.length >= optionCount - 1) break;
+
+      const text = getDisplayAnswer(other.back).trim();
+      const key = normalizeChoice(text);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      distractors.push(text);
+    }
+  }
+
+  const options = shuffle([answer, ...distractors]);
+  return {
+    itemId: item.id,
+    options,
+    correctIndex: options.indexOf(answer),
+  };
+}
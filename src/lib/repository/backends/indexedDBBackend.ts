@@ -0,0 +1,99 @@
+// IndexedDB backend: primary storage, not limited by the localStorage quota
+import { CollectionName, RecordCollections, RecordMap, StorageBackend } from '../types';
+
+const DB_NAME = 'cds-flashcard-db';
+const DB_VERSION = 4; // 3 : ajout de la corbeille, 4 : journal des révisions
+const COLLECTIONS: CollectionName[] = ['decks', 'themes', 'flashcards', 'trash', 'reviewLogs'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        COLLECTIONS.forEach(collection => {
+          if (!db.objectStoreNames.contains(collection)) {
+            db.createObjectStore(collection, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Impossible d'ouvrir la base IndexedDB"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Exécute une transaction et attend qu'elle soit validée sur disque
+const runTransaction = async (
+  collection: CollectionName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(collection, mode);
+    operation(transaction.objectStore(collection));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction IndexedDB annulée'));
+  });
+};
+
+/**
+ * Create a backend storing each collection in its own IndexedDB object store
+ */
+export function createIndexedDBBackend(): StorageBackend {
+  return {
+    name: 'indexedDB',
+
+    async isAvailable() {
+      if (typeof indexedDB === 'undefined' || indexedDB === null) return false;
+      try {
+        await openDatabase();
+        return true;
+      } catch (error) {
+        console.error("IndexedDB n'est pas disponible:", error);
+        return false;
+      }
+    },
+
+    async getAll<K extends CollectionName>(collection: K): Promise<RecordMap<K>> {
+      const records: RecordMap<K> = {};
+      await runTransaction(collection, 'readonly', store => {
+        const request = store.getAll();
+        request.onsuccess = () => {
+          (request.result as RecordCollections[K][]).forEach(record => {
+            records[record.id] = record;
+          });
+        };
+      });
+      return records;
+    },
+
+    async putMany<K extends CollectionName>(collection: K, records: RecordCollections[K][]): Promise<void> {
+      if (records.length === 0) return;
+      await runTransaction(collection, 'readwrite', store => {
+        records.forEach(record => store.put(record));
+      });
+    },
+
+    async deleteMany(collection: CollectionName, ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      await runTransaction(collection, 'readwrite', store => {
+        ids.forEach(id => store.delete(id));
+      });
+    },
+
+    async clear(collection: CollectionName): Promise<void> {
+      await runTransaction(collection, 'readwrite', store => store.clear());
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// localStorage backend: one JSON map per collection, limited to ~5 MB
+import { CollectionName, RecordCollections, RecordMap, StorageBackend } from '../types';
+import { getLocalStorageItem, setLocalStorageItem } from '../../storage/utils';
+
+const writeCollection = (collection: CollectionName, records: RecordMap<CollectionName>) => {
+  if (!setLocalStorageItem(collection, records)) {
+    throw new Error(`Impossible d'enregistrer ${collection} dans localStorage (quota atteint ?)`);
+  }
+};
+
+/**
+ * Create a backend storing each collection under its own localStorage key,
+ * in the format used before the repository existed
+ */
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    name: 'localStorage',
+
+    async isAvailable() {
+      try {
+        const key = '__storage_test__';
+        localStorage.setItem(key, key);
+        localStorage.removeItem(key);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async getAll<K extends CollectionName>(collection: K): Promise<RecordMap<K>> {
+      return getLocalStorageItem(collection) || {};
+    },
+
+    async putMany<K extends CollectionName>(collection: K, records: RecordCollections[K][]): Promise<void> {
+      const current = getLocalStorageItem(collection) || {};
+      records.forEach(record => {
+        current[record.id] = record;
+      });
+      writeCollection(collection, current);
+    },
+
+    async deleteMany(collection: CollectionName, ids: string[]): Promise<void> {
+      const current = getLocalStorageItem(collection) || {};
+      ids.forEach(id => delete current[id]);
+      writeCollection(collection, current);
+    },
+
+    async clear(collection: CollectionName): Promise<void> {
+      localStorage.removeItem(collection);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// In-memory backend: nothing survives a reload, useful for tests
+import { CollectionName, RecordCollections, RecordMap, StorageBackend } from '../types';
+
+/**
+ * Create a backend that keeps its records in memory
+ */
+export function createMemoryBackend(initialData: Partial<{ [K in CollectionName]: RecordMap<K> }> = {}): StorageBackend {
+  const collections = new Map<CollectionName, Map<string, string>>();
+
+  // Les enregistrements sont sérialisés pour ne jamais partager de référence
+  const getCollection = (collection: CollectionName): Map<string, string> => {
+    if (!collections.has(collection)) {
+      collections.set(collection, new Map());
+    }
+    return collections.get(collection)!;
+  };
+
+  (Object.keys(initialData) as CollectionName[]).forEach(collection => {
+    Object.values(initialData[collection] || {}).forEach(record => {
+      getCollection(collection).set(record.id, JSON.stringify(record));
+    });
+  });
+
+  return {
+    name: 'memory',
+
+    async isAvailable() {
+      return true;
+    },
+
+    async getAll<K extends CollectionName>(collection: K): Promise<RecordMap<K>> {
+      const records: RecordMap<K> = {};
+      getCollection(collection).forEach((value, id) => {
+        records[id] = JSON.parse(value);
+      });
+      return records;
+    },
+
+    async putMany<K extends CollectionName>(collection: K, records: RecordCollections[K][]): Promise<void> {
+      const store = getCollection(collection);
+      records.forEach(record => store.set(record.id, JSON.stringify(record)));
+    },
+
+    async deleteMany(collection: CollectionName, ids: string[]): Promise<void> {
+      const store = getCollection(collection);
+      ids.forEach(id => store.delete(id));
+    },
+
+    async clear(collection: CollectionName): Promise<void> {
+      getCollection(collection).clear();
+    },
+  };
+}
@@ -0,0 +1,120 @@
+// Change notifications for stored data, shared between the tabs of the app
+export type StorageEntity = 'deck' | 'theme' | 'card' | 'media' | 'trash' | 'reviewLog';
+
+export type StorageChangeType = 'created' | 'updated' | 'deleted';
+
+export interface StorageChangeEvent {
+  entity: StorageEntity;
+  type: StorageChangeType;
+  id: string;
+  deckId?: string; // Deck concerné, pour les decks, thèmes et cartes
+  origin: 'local' | 'remote'; // 'remote' : modification faite dans un autre onglet
+}
+
+export type StorageChangeListener = (events: StorageChangeEvent[]) => void;
+
+type RemoteChangeHandler = (events: StorageChangeEvent[]) => Promise<void> | void;
+
+const CHANNEL_NAME = 'cds-flashcard-changes';
+const STORAGE_EVENT_KEY = 'cds-flashcard-changes';
+
+const listeners = new Set<StorageChangeListener>();
+let remoteHandler: RemoteChangeHandler | null = null;
+let channel: BroadcastChannel | null = null;
+let bridgeConnected = false;
+
+const dispatch = (events: StorageChangeEvent[]) => {
+  listeners.forEach(listener => {
+    try {
+      listener(events);
+    } catch (error) {
+      console.error("Erreur dans un écouteur de modifications:", error);
+    }
+  });
+};
+
+// Les modifications d'un autre onglet sont d'abord prises en compte
+// (rechargement du cache) avant d'être signalées aux vues
+const receiveRemoteChanges = async (events: StorageChangeEvent[]) => {
+  const remoteEvents = events.map(event => ({ ...event, origin: 'remote' as const }));
+  try {
+    await remoteHandler?.(remoteEvents);
+  } catch (error) {
+    console.error("Erreur lors de la synchronisation avec un autre onglet:", error);
+  }
+  dispatch(remoteEvents);
+};
+
+const connectBridge = () => {
+  if (bridgeConnected || typeof window === 'undefined') return;
+  bridgeConnected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent<StorageChangeEvent[]>) => {
+      receiveRemoteChanges(message.data);
+    };
+    return;
+  }
+
+  // Repli : l'événement "storage" n'est reçu que par les autres onglets
+  window.addEventListener('storage', event => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      receiveRemoteChanges(JSON.parse(event.newValue).events);
+    } catch (error) {
+      console.error("Message de modification illisible:", error);
+    }
+  });
+};
+
+/**
+ * Listen to data changes made in this tab or in another one.
+ * Returns a function that stops listening.
+ */
+export function subscribeToChanges(listener: StorageChangeListener): () => void {
+  connectBridge();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Register the function that brings this tab up to date when another
+ * tab changed the data
+ */
+export function setRemoteChangeHandler(handler: RemoteChangeHandler): void {
+  connectBridge();
+  remoteHandler = handler;
+}
+
+/**
+ * Notify the listeners of this tab
+ */
+export function notifyChanges(events: Omit<StorageChangeEvent, 'origin'>[]): void {
+  if (events.length === 0) return;
+  dispatch(events.map(event => ({ ...event, origin: 'local' })));
+}
+
+/**
+ * Tell the other tabs that data changed. Call it once the change is
+ * stored so that they read the new data.
+ */
+export function broadcastChanges(events: Omit<StorageChangeEvent, 'origin'>[]): void {
+  if (events.length === 0 || typeof window === 'undefined') return;
+  connectBridge();
+
+  const payload = events.map(event => ({ ...event, origin: 'local' as const }));
+  if (channel) {
+    channel.postMessage(payload);
+    return;
+  }
+
+  try {
+    // Le nonce garantit un événement même si le contenu est identique
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ events: payload, nonce: Math.random() }));
+  } catch (error) {
+    console.error("Impossible de prévenir les autres onglets:", error);
+  }
+}
@@ -0,0 +1,87 @@
+// Repository: the single, promise-based entry point to decks, themes, flashcards and the trash
+import { Repository, StorageBackend, BackendName } from './types';
+import { initRecordStore, flushRecords, getActiveBackend } from './recordStore';
+import { createIndexedDBBackend } from './backends/indexedDBBackend';
+import { createLocalStorageBackend } from './backends/localStorageBackend';
+import * as decks from '../storage/deckStorage';
+import * as themes from '../storage/themeStorage';
+import * as flashcards from '../storage/flashcardStorage';
+import * as trash from '../storage/trashStorage';
+
+export * from './types';
+export * from './changeEvents';
+export { createIndexedDBBackend } from './backends/indexedDBBackend';
+export { createLocalStorageBackend } from './backends/localStorageBackend';
+export { createMemoryBackend } from './backends/memoryBackend';
+export { flushRecords } from './recordStore';
+
+let initPromise: Promise<BackendName> | null = null;
+
+/**
+ * Initialize the repository with the first available backend: IndexedDB,
+ * then localStorage. Tests can pass their own backends (e.g. in memory).
+ */
+export function initRepository(
+  backends: StorageBackend[] = [createIndexedDBBackend(), createLocalStorageBackend()]
+): Promise<BackendName> {
+  if (!initPromise) {
+    initPromise = initRecordStore(backends).catch(error => {
+      initPromise = null;
+      throw error;
+    });
+  }
+  return initPromise;
+}
+
+/**
+ * Forget the current initialization so that initRepository can pick
+ * other backends (used by tests)
+ */
+export function resetRepository(): void {
+  initPromise = null;
+}
+
+// Lecture : les données sont déjà en cache après l'initialisation
+const read = async <T>(query: () => T): Promise<T> => {
+  await initRepository();
+  return query();
+};
+
+// Écriture : résout une fois l'enregistrement et ses médias stockés
+const write = async <T>(mutation: () => T | Promise<T>): Promise<T> => {
+  await initRepository();
+  const result = await mutation();
+  await flushRecords();
+  return result;
+};
+
+export const repository: Repository = {
+  getBackendName: () => getActiveBackend()?.name || 'localStorage',
+
+  getDecks: () => read(() => decks.getDecks()),
+  getDecksByUser: (userId) => read(() => decks.getDecksByUser(userId)),
+  getDeck: (deckId) => read(() => decks.getDeck(deckId)),
+  createDeck: (deckData) => write(() => decks.createDeck(deckData)),
+  updateDeck: (deckId, updates) => write(() => decks.updateDeck(deckId, updates)),
+  deleteDeck: (deckId) => write(() => decks.deleteDeck(deckId)),
+
+  getThemes: () => read(() => themes.getThemes()),
+  getThemesByDeck: (deckId) => read(() => themes.getThemesByDeck(deckId)),
+  getTheme: (themeId) => read(() => themes.getTheme(themeId)),
+  createTheme: (themeData) => write(() => themes.createTheme(themeData)),
+  updateTheme: (themeId, updates) => write(() => themes.updateTheme(themeId, updates)),
+  deleteTheme: (themeId) => write(() => themes.deleteTheme(themeId)),
+
+  getFlashcards: () => read(() => flashcards.getFlashcards()),
+  getFlashcardsByDeck: (deckId) => read(() => flashcards.getFlashcardsByDeck(deckId)),
+  getFlashcardsByTheme: (themeId) => read(() => flashcards.getFlashcardsByTheme(themeId)),
+  getFlashcard: (flashcardId) => read(() => flashcards.getFlashcard(flashcardId)),
+  createFlashcard: (flashcardData) => write(() => flashcards.createFlashcard(flashcardData)),
+  updateFlashcard: (flashcardId, updates) => write(() => flashcards.updateFlashcard(flashcardId, updates)),
+  deleteFlashcard: (flashcardId) => write(() => flashcards.deleteFlashcard(flashcardId)),
+
+  getTrash: () => read(() => trash.getTrashEntries()),
+  restoreFromTrash: (entryId) => write(() => trash.restoreTrashEntry(entryId)),
+  deleteFromTrash: (entryId) => write(async () => await trash.purgeTrashEntries([entryId]) > 0),
+  emptyTrash: () => write(() => trash.purgeTrashEntries(trash.getTrashEntries().map(entry => entry.id))),
+};
@@ -0,0 +1,245 @@
+// Synchronous record cache in front of the active storage backend
+import { BackendName, CollectionName, RecordCollections, RecordMap, StorageBackend } from './types';
+import { getLocalStorageItem } from '../storage/utils';
+import {
+  StorageChangeEvent,
+  StorageChangeType,
+  StorageEntity,
+  broadcastChanges,
+  notifyChanges,
+  setRemoteChangeHandler,
+} from './changeEvents';
+
+const COLLECTIONS: CollectionName[] = ['decks', 'themes', 'flashcards', 'trash', 'reviewLogs'];
+
+// Collections qui existaient avant le dépôt ; le journal des révisions est
+// déplacé par une migration (voir lib/migrations)
+const LEGACY_COLLECTIONS: CollectionName[] = ['decks', 'themes', 'flashcards', 'trash'];
+
+const COLLECTION_ENTITIES: Record<CollectionName, StorageEntity> = {
+  decks: 'deck',
+  themes: 'theme',
+  flashcards: 'card',
+  trash: 'trash',
+  reviewLogs: 'reviewLog',
+};
+
+type RecordChange = Omit<StorageChangeEvent, 'origin'>;
+
+// Les enregistrements sont gardés sérialisés : chaque lecture renvoie une
+// copie (comme JSON.parse sur localStorage) et les modifications se
+// détectent en comparant les chaînes
+let cache: Record<CollectionName, Map<string, string>> | null = null;
+let activeBackend: StorageBackend | null = null;
+let pendingWrites: Promise<void> = Promise.resolve();
+let writeError: unknown = null;
+
+const getCache = (): Record<CollectionName, Map<string, string>> => {
+  if (!cache) {
+    throw new Error("Le stockage n'est pas initialisé : appelez initRepository() avant d'accéder aux données");
+  }
+  return cache;
+};
+
+const toChange = <K extends CollectionName>(
+  collection: K,
+  type: StorageChangeType,
+  record: RecordCollections[K]
+): RecordChange => ({
+  entity: COLLECTION_ENTITIES[collection],
+  type,
+  id: record.id,
+  deckId: 'deckId' in record ? record.deckId : record.id,
+});
+
+// Recharge depuis le backend les collections modifiées par un autre onglet
+const reloadCollections = async (events: StorageChangeEvent[]) => {
+  if (!cache || !activeBackend) return;
+  // Les écritures de cet onglet doivent être terminées avant la relecture
+  await pendingWrites;
+
+  const collections = COLLECTIONS.filter(collection =>
+    events.some(event => event.entity === COLLECTION_ENTITIES[collection])
+  );
+  for (const collection of collections) {
+    const records = await activeBackend.getAll(collection);
+    cache[collection] = new Map(
+      Object.values(records).map(record => [record.id, JSON.stringify(record)])
+    );
+  }
+};
+
+// Copie les données d'avant le dépôt (clés localStorage) vers le nouveau backend
+const migrateLegacyCollection = async (backend: StorageBackend, collection: CollectionName) => {
+  const legacyRecords = getLocalStorageItem(collection);
+  if (!legacyRecords || Object.keys(legacyRecords).length === 0) return;
+
+  await backend.putMany(collection, Object.values(legacyRecords));
+  localStorage.removeItem(collection);
+  console.log(`Migration de ${collection} depuis localStorage vers ${backend.name} terminée`);
+};
+
+/**
+ * Load every collection from the first available backend into the cache.
+ * When that backend is IndexedDB, records still stored under the legacy
+ * localStorage keys are moved to it.
+ */
+export async function initRecordStore(backends: StorageBackend[]): Promise<BackendName> {
+  let backend: StorageBackend | null = null;
+  for (const candidate of backends) {
+    if (await candidate.isAvailable()) {
+      backend = candidate;
+      break;
+    }
+  }
+  if (!backend) throw new Error('Aucun backend de stockage disponible');
+
+  const loaded = {} as Record<CollectionName, Map<string, string>>;
+  for (const collection of COLLECTIONS) {
+    let records = await backend.getAll(collection);
+
+    if (backend.name === 'indexedDB' && LEGACY_COLLECTIONS.includes(collection) && Object.keys(records).length === 0) {
+      await migrateLegacyCollection(backend, collection);
+      records = await backend.getAll(collection);
+    }
+
+    loaded[collection] = new Map(
+      Object.values(records).map(record => [record.id, JSON.stringify(record)])
+    );
+  }
+
+  cache = loaded;
+  activeBackend = backend;
+  writeError = null;
+  setRemoteChangeHandler(reloadCollections);
+  return backend.name;
+}
+
+/**
+ * Get the backend records are currently persisted to
+ */
+export function getActiveBackend(): StorageBackend | null {
+  return activeBackend;
+}
+
+/**
+ * Get a fresh copy of every record of a collection, keyed by id
+ */
+export function getRecords<K extends CollectionName>(collection: K): RecordMap<K> {
+  const records: RecordMap<K> = {};
+  getCache()[collection].forEach((value, id) => {
+    records[id] = JSON.parse(value);
+  });
+  return records;
+}
+
+/**
+ * Get a fresh copy of a single record, or null if it does not exist
+ */
+export function getRecord<K extends CollectionName>(collection: K, id: string): RecordCollections[K] | null {
+  const value = getCache()[collection].get(id);
+  return value ? JSON.parse(value) : null;
+}
+
+// Les écritures sont sérialisées : chacune part après la précédente
+// Les autres onglets ne sont prévenus qu'une fois l'écriture terminée
+const enqueueWrite = (
+  collection: CollectionName,
+  changes: RecordChange[],
+  write: (backend: StorageBackend) => Promise<void>
+): Promise<void> => {
+  const backend = activeBackend!;
+  const result = pendingWrites.then(async () => {
+    await write(backend);
+    broadcastChanges(changes);
+  });
+  pendingWrites = result.catch(error => {
+    console.error(`Erreur lors de l'enregistrement de ${collection} (${backend.name}):`, error);
+  });
+  return result;
+};
+
+/**
+ * Replace the records of a collection. The cache is updated immediately;
+ * only the records that changed are written to the backend, in the
+ * background (see flushRecords).
+ */
+export function setRecords<K extends CollectionName>(collection: K, records: RecordMap<K>): boolean {
+  const current = getCache()[collection];
+  const next = new Map<string, string>();
+  const changed: RecordCollections[K][] = [];
+  const changes: RecordChange[] = [];
+
+  Object.entries(records).forEach(([id, record]) => {
+    const value = JSON.stringify(record);
+    next.set(id, value);
+    if (current.get(id) !== value) {
+      changed.push(record);
+      changes.push(toChange(collection, current.has(id) ? 'updated' : 'created', record));
+    }
+  });
+  const deletedIds = [...current.keys()].filter(id => !next.has(id));
+  deletedIds.forEach(id => {
+    changes.push(toChange(collection, 'deleted', JSON.parse(current.get(id)!)));
+  });
+
+  if (changes.length === 0) return true;
+
+  getCache()[collection] = next;
+  notifyChanges(changes);
+  enqueueWrite(collection, changes, async backend => {
+    await backend.putMany(collection, changed);
+    await backend.deleteMany(collection, deletedIds);
+  }).catch(error => {
+    writeError = error;
+  });
+
+  return true;
+}
+
+/**
+ * Save a single record. Only this record is touched, so changes made to
+ * other records in the meantime are kept. Resolves once the backend has
+ * stored it; on failure the cached record is restored and the error is
+ * passed on to the caller.
+ */
+export function putRecord<K extends CollectionName>(collection: K, record: RecordCollections[K]): Promise<void> {
+  const cached = getCache()[collection];
+  const value = JSON.stringify(record);
+  const previous = cached.get(record.id);
+
+  if (previous === value) return pendingWrites;
+
+  const changes = [toChange(collection, previous === undefined ? 'created' : 'updated', record)];
+  cached.set(record.id, value);
+  notifyChanges(changes);
+
+  return enqueueWrite(collection, changes, backend => backend.putMany(collection, [record])).catch(error => {
+    // Ne pas écraser une modification faite entre-temps
+    const current = getCache()[collection];
+    if (current.get(record.id) === value) {
+      if (previous === undefined) {
+        current.delete(record.id);
+        notifyChanges([toChange(collection, 'deleted', record)]);
+      } else {
+        current.set(record.id, previous);
+        notifyChanges([toChange(collection, 'updated', JSON.parse(previous))]);
+      }
+    }
+    throw error;
+  });
+}
+
+/**
+ * Wait until every pending write has reached the backend. Rejects with
+ * the last background write error, if any occurred since the previous
+ * flush.
+ */
+export async function flushRecords(): Promise<void> {
+  await pendingWrites;
+  if (writeError) {
+    const error = writeError;
+    writeError = null;
+    throw error;
+  }
+}
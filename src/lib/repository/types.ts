@@ -0,0 +1,68 @@
+// Types of the repository layer and of its storage backends
+import { Deck, Flashcard, ReviewLog, Theme, TrashEntry } from '../storage/types';
+
+/**
+ * Records persisted by the repository, by collection
+ */
+export interface RecordCollections {
+  decks: Deck;
+  themes: Theme;
+  flashcards: Flashcard;
+  trash: TrashEntry;
+  reviewLogs: ReviewLog;
+}
+
+export type CollectionName = keyof RecordCollections;
+
+export type RecordMap<K extends CollectionName> = Record<string, RecordCollections[K]>;
+
+export type BackendName = 'indexedDB' | 'localStorage' | 'memory';
+
+/**
+ * A place where collections of records are durably stored. Every backend
+ * exposes the same asynchronous, record-level operations so they can be
+ * swapped without touching the rest of the application.
+ */
+export interface StorageBackend {
+  readonly name: BackendName;
+  isAvailable(): Promise<boolean>;
+  getAll<K extends CollectionName>(collection: K): Promise<RecordMap<K>>;
+  putMany<K extends CollectionName>(collection: K, records: RecordCollections[K][]): Promise<void>;
+  deleteMany(collection: CollectionName, ids: string[]): Promise<void>;
+  clear(collection: CollectionName): Promise<void>;
+}
+
+/**
+ * Promise-based access to decks, themes, flashcards and the trash. Writes
+ * resolve once the records and their media are stored, and reject otherwise.
+ */
+export interface Repository {
+  getBackendName(): BackendName;
+
+  getDecks(): Promise<Deck[]>;
+  getDecksByUser(userId: string): Promise<Deck[]>;
+  getDeck(deckId: string): Promise<Deck | null>;
+  createDeck(deckData: Partial<Deck>): Promise<Deck>;
+  updateDeck(deckId: string, updates: Partial<Deck>): Promise<Deck | null>;
+  deleteDeck(deckId: string): Promise<boolean>;
+
+  getThemes(): Promise<Theme[]>;
+  getThemesByDeck(deckId: string): Promise<Theme[]>;
+  getTheme(themeId: string): Promise<Theme | null>;
+  createTheme(themeData: Partial<Theme> & { deckId: string }): Promise<Theme>;
+  updateTheme(themeId: string, updates: Partial<Theme>): Promise<Theme | null>;
+  deleteTheme(themeId: string): Promise<boolean>;
+
+  getFlashcards(): Promise<Flashcard[]>;
+  getFlashcardsByDeck(deckId: string): Promise<Flashcard[]>;
+  getFlashcardsByTheme(themeId: string): Promise<Flashcard[]>;
+  getFlashcard(flashcardId: string): Promise<Flashcard | null>;
+  createFlashcard(flashcardData: Partial<Flashcard> & { deckId: string }): Promise<Flashcard>;
+  updateFlashcard(flashcardId: string, updates: Partial<Flashcard>): Promise<Flashcard | null>;
+  deleteFlashcard(flashcardId: string): Promise<boolean>;
+
+  getTrash(): Promise<TrashEntry[]>;
+  restoreFromTrash(entryId: string): Promise<TrashEntry>;
+  deleteFromTrash(entryId: string): Promise<boolean>;
+  emptyTrash(): Promise<number>;
+}
@@ -0,0 +1,47 @@
+// Registry of the available spaced-repetition schedulers
+import { Scheduler } from './types';
+import { sm2Scheduler } from './sm2';
+
+export * from './types';
+export { sm2Scheduler } from './sm2';
+
+const SCHEDULER_SETTING_KEY = 'schedulerAlgorithm';
+const DEFAULT_SCHEDULER_ID = 'sm2';
+
+const schedulers = new Map<string, Scheduler>([[sm2Scheduler.id, sm2Scheduler]]);
+
+/**
+ * Register an additional scheduling algorithm (e.g. FSRS)
+ */
+export function registerScheduler(scheduler: Scheduler): void {
+  schedulers.set(scheduler.id, scheduler);
+}
+
+/**
+ * Get all registered schedulers
+ */
+export function getSchedulers(): Scheduler[] {
+  return Array.from(schedulers.values());
+}
+
+/**
+ * Get a scheduler by ID, falling back to SM-2
+ */
+export function getScheduler(id?: string): Scheduler {
+  return (id && schedulers.get(id)) || schedulers.get(DEFAULT_SCHEDULER_ID)!;
+}
+
+/**
+ * Get the scheduler selected by the user
+ */
+export function getActiveScheduler(): Scheduler {
+  return getScheduler(localStorage.getItem(SCHEDULER_SETTING_KEY) || undefined);
+}
+
+/**
+ * Select the scheduler used for new reviews
+ */
+export function setActiveScheduler(id: string): void {
+  if (!schedulers.has(id)) throw new Error(`Unknown scheduler: ${id}`);
+  localStorage.setItem(SCHEDULER_SETTING_KEY, id);
+}
@@ -0,0 +1,89 @@
+// SuperMemo 2 scheduling algorithm
+import { CardSchedule, ReviewGrade, Scheduler } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // Une carte oubliée revient 10 minutes plus tard
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+// Correspondance entre les notes et la qualité de réponse SM-2 (0-5)
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Compute the next ease factor from the SM-2 formula
+ */
+function nextEase(ease: number, quality: number): number {
+  const delta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  return Math.max(MIN_EASE, Math.round((ease + delta) * 100) / 100);
+}
+
+export const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  name: 'SM-2',
+
+  createSchedule(cardId: string, now: number): CardSchedule {
+    return {
+      cardId,
+      algorithm: 'sm2',
+      state: 'new',
+      ease: DEFAULT_EASE,
+      interval: 0,
+      due: now,
+      reps: 0,
+      lapses: 0,
+    };
+  },
+
+  review(schedule: CardSchedule, grade: ReviewGrade, now: number): CardSchedule {
+    const quality = GRADE_QUALITY[grade];
+    const ease = nextEase(schedule.ease, quality);
+
+    // Réponse ratée : la carte repart en réapprentissage
+    if (quality < 3) {
+      return {
+        ...schedule,
+        algorithm: 'sm2',
+        state: schedule.state === 'new' || schedule.state === 'learning' ? 'learning' : 'relearning',
+        ease,
+        interval: 0,
+        due: now + RELEARN_DELAY_MS,
+        reps: 0,
+        lapses: schedule.state === 'review' ? schedule.lapses + 1 : schedule.lapses,
+        lastReviewed: now,
+      };
+    }
+
+    let interval: number;
+    if (schedule.reps === 0) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (schedule.reps === 1) {
+      interval = grade === 'easy' ? 8 : 6;
+    } else if (grade === 'hard') {
+      interval = schedule.interval * HARD_INTERVAL_FACTOR;
+    } else if (grade === 'easy') {
+      interval = schedule.interval * ease * EASY_BONUS;
+    } else {
+      interval = schedule.interval * ease;
+    }
+    interval = Math.max(1, Math.round(interval));
+
+    return {
+      ...schedule,
+      algorithm: 'sm2',
+      state: 'review',
+      ease,
+      interval,
+      due: now + interval * DAY_MS,
+      reps: schedule.reps + 1,
+      lapses: schedule.lapses,
+      lastReviewed: now,
+    };
+  },
+};
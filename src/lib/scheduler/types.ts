@@ -0,0 +1,39 @@
+// Type definitions shared by all spaced-repetition schedulers
+
+/**
+ * Grade given by the learner after answering a card
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * Learning state of a scheduled card
+ */
+export type ScheduleState = 'new' | 'learning' | 'review' | 'relearning';
+
+/**
+ * Scheduling data stored for each card
+ */
+export interface CardSchedule {
+  cardId: string; // Id de la carte, ou de l'élément d'étude pour les cartes à trous
+  algorithm: string;
+  state: ScheduleState;
+  ease: number; // Facteur de facilité (SM-2)
+  interval: number; // Intervalle courant en jours
+  due: number; // Date d'échéance (timestamp)
+  reps: number; // Nombre de réussites consécutives
+  lapses: number; // Nombre d'oublis
+  lastReviewed?: number;
+  params?: Record<string, number>; // Données propres à l'algorithme (ex: stabilité FSRS)
+}
+
+/**
+ * Interface implemented by every scheduling algorithm
+ */
+export interface Scheduler {
+  id: string;
+  name: string;
+  createSchedule(cardId: string, now: number): CardSchedule;
+  review(schedule: CardSchedule, grade: ReviewGrade, now: number): CardSchedule;
+}
@@ -0,0 +1,4 @@
+// Full-text search over the decks, themes and cards
+export * from './types';
+export { normalizeText, tokenize, makeSnippet, highlightMatches } from './text';
+export { initSearchIndex, closeSearchIndex, search } from './searchIndex';
@@ -0,0 +1,384 @@
+// Inverted index of the decks, themes and cards, kept in IndexedDB and updated on every write
+import { Deck, Flashcard, Theme } from '../storage/types';
+import { getRecord, getRecords } from '../repository/recordStore';
+import { StorageChangeEvent, subscribeToChanges } from '../repository/changeEvents';
+import { hasCloze, renderClozeBack } from '../cloze';
+import { SearchDocument, SearchField, SearchFieldName, SearchKind, SearchResponse, SearchResult } from './types';
+import { tokenize } from './text';
+
+const DB_NAME = 'SearchIndexDB';
+const DB_VERSION = 1;
+const POSTINGS_STORE = 'postings'; // terme → ids des documents qui le contiennent
+const DOCUMENTS_STORE = 'documents'; // id → document et ses termes
+const META_STORE = 'meta';
+const STATE_KEY = 'state';
+
+// À incrémenter quand le découpage en termes change : l'index est reconstruit
+const INDEX_FORMAT = 1;
+
+const MAX_CANDIDATES = 200;
+const MAX_RESULTS = 30;
+
+const FIELD_WEIGHTS: Record<SearchFieldName, number> = {
+  title: 3,
+  front: 3,
+  back: 2,
+  description: 1,
+  frontInfo: 1,
+  backInfo: 1,
+};
+
+const KIND_COLLECTIONS = { deck: 'decks', theme: 'themes', card: 'flashcards' } as const;
+
+interface IndexedDocument extends SearchDocument {
+  terms: string[];
+}
+
+interface IndexState {
+  format: number;
+  signature: string;
+}
+
+// Champs non vides uniquement
+const fieldsOf = (fields: Array<[SearchFieldName, string | undefined]>): SearchField[] =>
+  fields
+    .filter(([, text]) => !!text?.trim())
+    .map(([name, text]) => ({ name, text: text!.trim() }));
+
+const deckDocument = (deck: Deck): SearchDocument => ({
+  id: `deck:${deck.id}`,
+  kind: 'deck',
+  recordId: deck.id,
+  deckId: deck.id,
+  title: deck.title,
+  fields: fieldsOf([['title', deck.title], ['description', deck.description]]),
+});
+
+const themeDocument = (theme: Theme): SearchDocument => ({
+  id: `theme:${theme.id}`,
+  kind: 'theme',
+  recordId: theme.id,
+  deckId: theme.deckId,
+  themeId: theme.id,
+  title: theme.title,
+  fields: fieldsOf([['title', theme.title], ['description', theme.description]]),
+});
+
+const cardDocument = (card: Flashcard): SearchDocument => {
+  // Les trous d'un texte à trous sont indexés avec leur réponse
+  const front = hasCloze(card.front.text) ? renderClozeBack(card.front.text) : card.front.text;
+  return {
+    id: `card:${card.id}`,
+    kind: 'card',
+    recordId: card.id,
+    deckId: card.deckId,
+    themeId: card.themeId,
+    title: front,
+    fields: fieldsOf([
+      ['front', front],
+      ['back', card.back.text],
+      ['frontInfo', card.front.additionalInfo],
+      ['backInfo', card.back.additionalInfo],
+    ]),
+  };
+};
+
+const toIndexed = (document: SearchDocument): IndexedDocument => ({
+  ...document,
+  terms: Array.from(new Set(document.fields.flatMap(field => tokenize(field.text)))),
+});
+
+// Document d'un enregistrement, ou null s'il a été supprimé
+const loadDocument = (kind: SearchKind, recordId: string): SearchDocument | null => {
+  if (kind === 'deck') {
+    const deck = getRecord('decks', recordId);
+    return deck ? deckDocument(deck) : null;
+  }
+  if (kind === 'theme') {
+    const theme = getRecord('themes', recordId);
+    return theme ? themeDocument(theme) : null;
+  }
+  const card = getRecord('flashcards', recordId);
+  return card ? cardDocument(card) : null;
+};
+
+const collectDocuments = (): SearchDocument[] => [
+  ...Object.values(getRecords('decks')).map(deckDocument),
+  ...Object.values(getRecords('themes')).map(themeDocument),
+  ...Object.values(getRecords('flashcards')).map(cardDocument),
+];
+
+// Empreinte des enregistrements indexés : elle change à chaque écriture,
+// ce qui permet de détecter un index resté en retard
+const computeSignature = (): string => {
+  let hash = 2166136261;
+  let count = 0;
+  for (const kind of Object.keys(KIND_COLLECTIONS) as SearchKind[]) {
+    Object.values(getRecords(KIND_COLLECTIONS[kind])).forEach(record => {
+      const key = `${kind}:${record.id}:${record.updatedAt}`;
+      for (let i = 0; i < key.length; i++) {
+        hash = Math.imul(hash ^ key.charCodeAt(i), 16777619);
+      }
+      count++;
+    });
+  }
+  return `${count}:${(hash >>> 0).toString(36)}`;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openIndexDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [POSTINGS_STORE, DOCUMENTS_STORE, META_STORE].forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const saveState = (metaStore: IDBObjectStore) => {
+  const state: IndexState = { format: INDEX_FORMAT, signature: computeSignature() };
+  metaStore.put(state, STATE_KEY);
+};
+
+// Reconstruit tout l'index à partir des enregistrements
+const rebuildIndex = async (db: IDBDatabase): Promise<void> => {
+  const documents = collectDocuments().map(toIndexed);
+  const postings = new Map<string, string[]>();
+  documents.forEach(document => {
+    document.terms.forEach(term => {
+      const ids = postings.get(term) || [];
+      ids.push(document.id);
+      postings.set(term, ids);
+    });
+  });
+
+  const transaction = db.transaction([POSTINGS_STORE, DOCUMENTS_STORE, META_STORE], 'readwrite');
+  const postingsStore = transaction.objectStore(POSTINGS_STORE);
+  const documentsStore = transaction.objectStore(DOCUMENTS_STORE);
+  postingsStore.clear();
+  documentsStore.clear();
+  postings.forEach((ids, term) => postingsStore.put(ids, term));
+  documents.forEach(document => documentsStore.put(document, document.id));
+  saveState(transaction.objectStore(META_STORE));
+  await transactionDone(transaction);
+};
+
+// Met à jour les documents modifiés et retire ceux des enregistrements supprimés
+const updateIndex = async (db: IDBDatabase, changes: Array<{ id: string; document: SearchDocument | null }>, inSync: boolean) => {
+  const transaction = db.transaction([POSTINGS_STORE, DOCUMENTS_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const postingsStore = transaction.objectStore(POSTINGS_STORE);
+  const documentsStore = transaction.objectStore(DOCUMENTS_STORE);
+
+  const updatePosting = async (term: string, id: string, add: boolean) => {
+    const ids: string[] = (await requestResult(postingsStore.get(term))) || [];
+    const next = add ? Array.from(new Set([...ids, id])) : ids.filter(existing => existing !== id);
+    if (next.length > 0) {
+      postingsStore.put(next, term);
+    } else {
+      postingsStore.delete(term);
+    }
+  };
+
+  try {
+    for (const { id, document } of changes) {
+      const previous: IndexedDocument | undefined = await requestResult(documentsStore.get(id));
+      const next = document ? toIndexed(document) : null;
+      const previousTerms = new Set(previous?.terms || []);
+      const nextTerms = new Set(next?.terms || []);
+
+      for (const term of previousTerms) {
+        if (!nextTerms.has(term)) await updatePosting(term, id, false);
+      }
+      for (const term of nextTerms) {
+        if (!previousTerms.has(term)) await updatePosting(term, id, true);
+      }
+
+      if (next) {
+        documentsStore.put(next, id);
+      } else {
+        documentsStore.delete(id);
+      }
+    }
+    if (inSync) saveState(transaction.objectStore(META_STORE));
+  } catch (error) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let unsubscribe: (() => void) | null = null;
+let pendingChanges = new Map<string, { kind: SearchKind; recordId: string }>();
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Les modifications sont regroupées puis appliquées une écriture à la fois
+const flushPendingChanges = () => {
+  writeQueue = writeQueue.then(async () => {
+    if (pendingChanges.size === 0) return;
+    const changes = Array.from(pendingChanges.entries()).map(([id, { kind, recordId }]) => ({
+      id,
+      document: loadDocument(kind, recordId),
+    }));
+    pendingChanges = new Map();
+
+    const db = await dbPromise;
+    if (!db) return;
+    try {
+      await updateIndex(db, changes, pendingChanges.size === 0);
+    } catch (error) {
+      console.error("Erreur lors de la mise à jour de l'index de recherche:", error);
+    }
+  });
+};
+
+const ENTITY_KINDS: Partial<Record<StorageChangeEvent['entity'], SearchKind>> = {
+  deck: 'deck',
+  theme: 'theme',
+  card: 'card',
+};
+
+// Les modifications des autres onglets sont indexées par ces onglets
+const handleChanges = (events: StorageChangeEvent[]) => {
+  let queued = false;
+  events.forEach(event => {
+    const kind = ENTITY_KINDS[event.entity];
+    if (!kind || event.origin !== 'local') return;
+    pendingChanges.set(`${kind}:${event.id}`, { kind, recordId: event.id });
+    queued = true;
+  });
+  if (queued) flushPendingChanges();
+};
+
+const loadIndex = async (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const db = await openIndexDatabase();
+    const transaction = db.transaction([META_STORE], 'readonly');
+    const state: IndexState | undefined = await requestResult(transaction.objectStore(META_STORE).get(STATE_KEY));
+    if (!state || state.format !== INDEX_FORMAT || state.signature !== computeSignature()) {
+      await rebuildIndex(db);
+    }
+    return db;
+  } catch (error) {
+    // Sans index, la recherche parcourt directement les enregistrements
+    console.error("Index de recherche indisponible:", error);
+    return null;
+  }
+};
+
+/**
+ * Open the search index, rebuild it if it is missing or out of date,
+ * and keep it up to date with the changes made in this tab. The
+ * repository must be initialized first.
+ */
+export function initSearchIndex(): Promise<void> {
+  if (!dbPromise) {
+    dbPromise = loadIndex();
+    unsubscribe = subscribeToChanges(handleChanges);
+  }
+  return dbPromise.then(() => undefined);
+}
+
+/**
+ * Stop updating the search index (used by tests)
+ */
+export function closeSearchIndex(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  dbPromise?.then(db => db?.close());
+  dbPromise = null;
+}
+
+// Documents dont chaque terme de la requête commence un de leurs mots
+const findCandidates = async (db: IDBDatabase, terms: string[]): Promise<IndexedDocument[]> => {
+  const transaction = db.transaction([POSTINGS_STORE, DOCUMENTS_STORE], 'readonly');
+  const postingsStore = transaction.objectStore(POSTINGS_STORE);
+
+  let candidates: Set<string> | null = null;
+  for (const term of terms) {
+    const postings: string[][] = await requestResult(postingsStore.getAll(IDBKeyRange.bound(term, `${term}\uffff`)));
+    const ids = new Set(postings.flat());
+    candidates = candidates ? new Set(Array.from(candidates).filter(id => ids.has(id))) : ids;
+    if (candidates.size === 0) return [];
+  }
+
+  const documentsStore = transaction.objectStore(DOCUMENTS_STORE);
+  const documents = await Promise.all(
+    Array.from(candidates || []).slice(0, MAX_CANDIDATES).map(id => requestResult(documentsStore.get(id)))
+  );
+  return documents.filter(Boolean) as IndexedDocument[];
+};
+
+// Recherche sans index : parcours de tous les enregistrements
+const scanDocuments = (terms: string[]): IndexedDocument[] =>
+  collectDocuments()
+    .map(toIndexed)
+    .filter(document => terms.every(term => document.terms.some(candidate => candidate.startsWith(term))))
+    .slice(0, MAX_CANDIDATES);
+
+// Un mot identique au terme compte plus qu'un mot qui le prolonge
+const scoreField = (field: SearchField, terms: string[]): number => {
+  const words = tokenize(field.text);
+  return terms.reduce((score, term) => {
+    if (words.includes(term)) return score + 2;
+    return words.some(word => word.startsWith(term)) ? score + 1 : score;
+  }, 0) * FIELD_WEIGHTS[field.name];
+};
+
+const rankDocument = (document: IndexedDocument, terms: string[]): SearchResult => {
+  const scored = document.fields
+    .map(field => ({ field, score: scoreField(field, terms) }))
+    .sort((a, b) => b.score - a.score);
+  return {
+    document: {
+      id: document.id,
+      kind: document.kind,
+      recordId: document.recordId,
+      deckId: document.deckId,
+      themeId: document.themeId,
+      title: document.title,
+      fields: document.fields,
+    },
+    field: scored[0]?.field || { name: 'title', text: document.title },
+    score: scored.reduce((total, { score }) => total + score, 0),
+  };
+};
+
+/**
+ * Search the decks, themes and cards whose words start with every word
+ * of the query, ignoring accents and case. Best matches first.
+ */
+export async function search(query: string): Promise<SearchResponse> {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return { terms, results: [] };
+
+  const db = await (dbPromise || Promise.resolve(null));
+  // Les modifications en attente sont indexées avant de chercher
+  await writeQueue;
+  const documents = db ? await findCandidates(db, terms) : scanDocuments(terms);
+
+  const results = documents
+    .map(document => rankDocument(document, terms))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+  return { terms, results };
+}
@@ -0,0 +1,84 @@
+// Text normalization shared by the indexing, the queries and the highlighting
+import { HighlightSegment } from './types';
+
+const DIACRITICS = /[\u0300-\u036f]/g;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Les mots d'une lettre ne sont pas indexés
+export const MIN_TERM_LENGTH = 2;
+
+/**
+ * Lowercase a text and remove its accents ("Éléphant" → "elephant")
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+}
+
+/**
+ * Split a text into normalized words
+ */
+export function tokenize(text: string): string[] {
+  return (normalizeText(text).match(TOKEN_PATTERN) || []).filter(term => term.length >= MIN_TERM_LENGTH);
+}
+
+// Texte normalisé avec, pour chaque caractère, sa position dans l'original
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const normalizedChar = normalizeText(char);
+    normalized += normalizedChar;
+    for (let i = 0; i < normalizedChar.length; i++) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { normalized, offsets };
+};
+
+// Plages [début, fin[ du texte original où un mot commence par un des termes
+const findMatches = (text: string, terms: string[]): Array<[number, number]> => {
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const ranges: Array<[number, number]> = [];
+
+  for (const match of normalized.matchAll(TOKEN_PATTERN)) {
+    const term = terms
+      .filter(candidate => match[0].startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!term) continue;
+
+    const start = match.index!;
+    ranges.push([offsets[start], offsets[start + term.length]]);
+  }
+  return ranges;
+};
+
+/**
+ * Cut a long text around its first match
+ */
+export function makeSnippet(text: string, terms: string[], radius: number = 60): string {
+  if (text.length <= radius * 2) return text;
+
+  const first = findMatches(text, terms)[0]?.[0] ?? 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Split a text into segments, flagging the words that start with one of
+ * the (normalized) terms, whatever their accents or case
+ */
+export function highlightMatches(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const [start, end] of findMatches(text, terms)) {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+
+  return segments;
+}
@@ -0,0 +1,39 @@
+// Type definitions of the full-text search over decks, themes and cards
+
+export type SearchKind = 'deck' | 'theme' | 'card';
+
+export type SearchFieldName = 'title' | 'description' | 'front' | 'back' | 'frontInfo' | 'backInfo';
+
+export interface SearchField {
+  name: SearchFieldName;
+  text: string;
+}
+
+/**
+ * The searchable text of a deck, theme or card
+ */
+export interface SearchDocument {
+  id: string; // `${kind}:${recordId}`
+  kind: SearchKind;
+  recordId: string;
+  deckId: string;
+  themeId?: string;
+  title: string; // Titre du deck ou du thème, recto de la carte
+  fields: SearchField[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  field: SearchField; // Champ le plus pertinent, à afficher en extrait
+  score: number;
+}
+
+export interface SearchResponse {
+  terms: string[]; // Termes normalisés de la requête, pour la mise en évidence
+  results: SearchResult[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
@@ -1,5 +1,6 @@
 
 // Session key management utilities
+import { parseSessionExport, SESSION_EXPORT_VERSION } from './formats';
 
 // Storage key constant
 const STORAGE_KEY = "cds-flashcard-session-key";
@@ -252,6 +253,7 @@ export const exportSessionData = (): string => {
   
   // Gather all data for this session
   const exportData: Record<string, any> = {
+    formatVersion: SESSION_EXPORT_VERSION,
     sessionKey,
     exportDate: new Date().toISOString(),
     userData: {},
@@ -292,14 +294,13 @@ export const exportSessionData = (): string => {
 // Import session data
 export const importSessionData = (data: string): boolean => {
   try {
-    // Parse the imported data
-    const importData = JSON.parse(data);
-    
-    // Validate the data structure
-    if (!importData.sessionKey || !importData.userData || !importData.appData) {
-      console.error("Invalid import data format");
+    // Parse, upgrade and validate the imported data
+    const parsed = parseSessionExport(JSON.parse(data));
+    if (!parsed.data) {
+      console.error("Invalid import data format:", parsed.issues);
       return false;
     }
+    const importData = parsed.data;
     
     // Import the session key
     saveSessionKey(importData.sessionKey);
@@ -0,0 +1,44 @@
+// Anki package import
+import { AnkiCard, AnkiPackage } from '../anki/types';
+import { createDeck } from './deckStorage';
+import { createTheme } from './themeStorage';
+import { createFlashcard } from './flashcardStorage';
+import { getUser } from './userStorage';
+
+/**
+ * Create the decks, themes and cards of a parsed Anki package and
+ * return the ids of the new decks
+ */
+export async function importAnkiPackage(ankiPackage: AnkiPackage, userId: string): Promise<string[]> {
+  const currentUser = getUser();
+  if (!currentUser || currentUser.id !== userId) throw new Error("User not authenticated");
+
+  const deckIds: string[] = [];
+
+  for (const ankiDeck of ankiPackage.decks) {
+    const newDeck = await createDeck({
+      title: ankiDeck.title,
+      description: ankiDeck.description,
+      authorId: currentUser.id,
+      isPublic: false,
+      tags: ['anki'],
+    });
+    deckIds.push(newDeck.id);
+
+    // Les médias de chaque carte sont enregistrés dans IndexedDB par createFlashcard
+    const importCards = async (cards: AnkiCard[], themeId?: string) => {
+      for (const card of cards) {
+        await createFlashcard({ deckId: newDeck.id, themeId, ...card });
+      }
+    };
+
+    await importCards(ankiDeck.cards);
+
+    for (const ankiTheme of ankiDeck.themes) {
+      const newTheme = await createTheme({ deckId: newDeck.id, title: ankiTheme.title });
+      await importCards(ankiTheme.cards, newTheme.id);
+    }
+  }
+
+  return deckIds;
+}
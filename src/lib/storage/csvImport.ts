@@ -0,0 +1,122 @@
+// CSV import: column mapping and card creation
+import { CsvRow, CsvRowError } from '../csv';
+import { hasCloze } from '../cloze';
+import { normalizeText } from '../search/text';
+import { CsvCardDraft, CsvColumnRole, CsvImportTarget } from './types';
+import { createDeck, getDeck, updateDeck } from './deckStorage';
+import { createTheme, getThemesByDeck } from './themeStorage';
+import { createFlashcard } from './flashcardStorage';
+
+// En-têtes reconnus pour chaque rôle, sans accents ni majuscules
+const ROLE_HEADERS: Array<[CsvColumnRole, RegExp]> = [
+  ['front', /^(recto|front|question|terme|term|mot|word)$/],
+  ['back', /^(verso|back|reponse|answer|definition|traduction|translation)$/],
+  ['additionalInfo', /^(infos?|notes?|extra|complement|exemples?|additional ?info)$/],
+  ['theme', /^(themes?|categories?|category|chapitre)$/],
+  ['tags', /^(tags?|etiquettes?|mots[ -]cles)$/],
+];
+
+/**
+ * Guess the role of each column from the header row, or take the first
+ * two columns as front and back
+ */
+export function guessColumnRoles(header: string[] | null, columnCount: number): CsvColumnRole[] {
+  const roles: CsvColumnRole[] = Array(columnCount).fill('ignore');
+
+  header?.forEach((name, index) => {
+    const normalized = normalizeText(name.trim());
+    const match = ROLE_HEADERS.find(([role, pattern]) => pattern.test(normalized) && !roles.includes(role));
+    if (match && index < columnCount) roles[index] = match[0];
+  });
+
+  for (const role of ['front', 'back'] as CsvColumnRole[]) {
+    const free = roles.indexOf('ignore');
+    if (!roles.includes(role) && free !== -1) roles[free] = role;
+  }
+
+  return roles;
+}
+
+/**
+ * Convert the rows of a file into cards. Rows that cannot become a card
+ * are reported with the reason and left out.
+ */
+export function mapCsvRows(rows: CsvRow[], roles: CsvColumnRole[]): { cards: CsvCardDraft[]; errors: CsvRowError[] } {
+  const cards: CsvCardDraft[] = [];
+  const errors: CsvRowError[] = [];
+
+  const column = (role: CsvColumnRole) => roles.indexOf(role);
+
+  for (const { line, cells } of rows) {
+    const value = (role: CsvColumnRole) => (column(role) === -1 ? '' : (cells[column(role)] || '').trim());
+
+    // Des cellules en trop viennent souvent d'un séparateur non protégé par des guillemets
+    if (cells.slice(roles.length).some(cell => cell.trim())) {
+      errors.push({ line, message: `${cells.length} colonnes au lieu de ${roles.length}` });
+      continue;
+    }
+
+    const front = value('front');
+    const back = value('back');
+    if (!front) {
+      errors.push({ line, message: "Recto vide" });
+      continue;
+    }
+    // Le verso est facultatif pour les textes à trous
+    if (!back && !hasCloze(front)) {
+      errors.push({ line, message: "Verso vide" });
+      continue;
+    }
+
+    cards.push({
+      line,
+      front,
+      back,
+      additionalInfo: value('additionalInfo') || undefined,
+      theme: value('theme') || undefined,
+      tags: value('tags').split(/[\s,;]+/).filter(Boolean),
+    });
+  }
+
+  return { cards, errors };
+}
+
+/**
+ * Create the cards in an existing or new deck and return the deck id.
+ * Themes are matched by title and created when missing; the tags are
+ * added to the deck's.
+ */
+export async function importCsvCards(cards: CsvCardDraft[], target: CsvImportTarget): Promise<string> {
+  const deck = 'deckId' in target
+    ? getDeck(target.deckId)
+    : await createDeck({ title: target.title, isPublic: false });
+  if (!deck) throw new Error("Deck not found");
+
+  const themeIds = new Map(getThemesByDeck(deck.id).map(theme => [theme.title.trim().toLowerCase(), theme.id]));
+
+  for (const card of cards) {
+    let themeId: string | undefined;
+    if (card.theme) {
+      const key = card.theme.toLowerCase();
+      if (!themeIds.has(key)) {
+        themeIds.set(key, (await createTheme({ deckId: deck.id, title: card.theme })).id);
+      }
+      themeId = themeIds.get(key);
+    }
+
+    await createFlashcard({
+      deckId: deck.id,
+      themeId,
+      type: hasCloze(card.front) ? 'cloze' : undefined,
+      front: { text: card.front },
+      back: { text: card.back, additionalInfo: card.additionalInfo },
+    });
+  }
+
+  const tags = [...new Set([...deck.tags, ...cards.flatMap(card => card.tags)])];
+  if (tags.length > deck.tags.length) {
+    await updateDeck(deck.id, { tags });
+  }
+
+  return deck.id;
+}
@@ -1,32 +1,24 @@
 
 // Fonctionnalités d'exportation et d'importation des données
+import { ExportedData } from './types';
 import { getLocalStorageItem, setLocalStorageItem } from './utils';
+import { getRecords, setRecords } from '../repository/recordStore';
 import { getUser, setUser } from './userStorage';
 import { getImage, getAudio, storeImage, storeAudio } from '../indexedDBStorage';
 import { migrateBase64MediaToIndexedDB } from './mediaStorage';
-
-// Structure des données exportées
-interface ExportedData {
-  version: string;
-  timestamp: number;
-  user?: Record<string, any>;
-  decks?: Record<string, any>;
-  flashcards?: Record<string, any>;
-  themes?: Record<string, any>;
-  studySessions?: Record<string, any>;
-  shareCodes?: Record<string, any>;
-  mediaIds?: string[];
-}
+import { DATA_EXPORT_VERSION } from '../formats';
 
 /**
  * Exporte toutes les données de l'utilisateur
  */
 export async function exportAllData(): Promise<ExportedData> {
   const user = getUser();
-  const decks = getLocalStorageItem('decks') || {};
-  const flashcards = getLocalStorageItem('flashcards') || {};
-  const themes = getLocalStorageItem('themes') || {};
+  const decks = getRecords('decks');
+  const flashcards = getRecords('flashcards');
+  const themes = getRecords('themes');
   const studySessions = getLocalStorageItem('studySessions') || {};
+  const reviewLogs = getRecords('reviewLogs');
+  const cardSchedules = getLocalStorageItem('cardSchedules') || {};
   const shareCodes = getLocalStorageItem('shareCodes') || {};
   
   // Collecter tous les IDs de médias pour les inclure
@@ -51,29 +43,25 @@ export async function exportAllData(): Promise<ExportedData> {
   });
   
   return {
-    version: '1.0',
+    formatVersion: DATA_EXPORT_VERSION,
     timestamp: Date.now(),
     user: user ? { [user.id]: user } : {},
     decks,
     flashcards,
     themes,
     studySessions,
+    reviewLogs,
+    cardSchedules,
     shareCodes,
     mediaIds: [...new Set(mediaIds)] // Supprimer les doublons
   };
 }
 
 /**
- * Importe des données précédemment exportées
+ * Importe des données précédemment exportées, validées par parseDataExport
  */
 export async function importAllData(data: ExportedData): Promise<boolean> {
   try {
-    // Validation des données
-    if (!data || !data.version || !data.timestamp) {
-      console.error('Format de données invalide');
-      return false;
-    }
-    
     // Importer les données utilisateur si présentes
     if (data.user && Object.keys(data.user).length > 0) {
       const userId = Object.keys(data.user)[0];
@@ -87,20 +75,20 @@ export async function importAllData(data: ExportedData): Promise<boolean> {
     
     // Importer les decks
     if (data.decks) {
-      const currentDecks = getLocalStorageItem('decks') || {};
-      setLocalStorageItem('decks', { ...currentDecks, ...data.decks });
+      const currentDecks = getRecords('decks');
+      setRecords('decks', { ...currentDecks, ...data.decks });
     }
     
     // Importer les flashcards
     if (data.flashcards) {
-      const currentFlashcards = getLocalStorageItem('flashcards') || {};
-      setLocalStorageItem('flashcards', { ...currentFlashcards, ...data.flashcards });
+      const currentFlashcards = getRecords('flashcards');
+      setRecords('flashcards', { ...currentFlashcards, ...data.flashcards });
     }
     
     // Importer les thèmes
     if (data.themes) {
-      const currentThemes = getLocalStorageItem('themes') || {};
-      setLocalStorageItem('themes', { ...currentThemes, ...data.themes });
+      const currentThemes = getRecords('themes');
+      setRecords('themes', { ...currentThemes, ...data.themes });
     }
     
     // Importer les sessions d'étude
@@ -109,6 +97,18 @@ export async function importAllData(data: ExportedData): Promise<boolean> {
       setLocalStorageItem('studySessions', { ...currentSessions, ...data.studySessions });
     }
     
+    // Importer l'historique des révisions
+    if (data.reviewLogs) {
+      const currentLogs = getRecords('reviewLogs');
+      setRecords('reviewLogs', { ...currentLogs, ...data.reviewLogs });
+    }
+    
+    // Importer les planifications de révision (facilité, intervalle, échéance)
+    if (data.cardSchedules) {
+      const currentSchedules = getLocalStorageItem('cardSchedules') || {};
+      setLocalStorageItem('cardSchedules', { ...currentSchedules, ...data.cardSchedules });
+    }
+    
     // Importer les codes de partage
     if (data.shareCodes) {
       const currentShareCodes = getLocalStorageItem('shareCodes') || {};
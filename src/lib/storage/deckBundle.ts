@@ -0,0 +1,188 @@
+// Deck bundles: a zip archive with deck.json and the media of the deck in media/
+import { createZip, readZip, ZipFileInput } from '../zip';
+import { getImage, getAudio, blobToBase64, computeMediaId } from '../indexedDBStorage';
+import { SharedDeckExport, FlashcardSide, Theme, MediaType } from './types';
+import { exportDeckToJson } from './deckStorage';
+import { dataUrlToBlob } from './mediaStorage';
+import { isBase64String } from './utils';
+import { parseDeckExport, FormatParseResult } from '../formats';
+
+const DECK_FILE = 'deck.json';
+const MEDIA_FOLDER = 'media/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mimeType, extension]) => [extension, mimeType])
+);
+
+// Signatures des formats reconnus, sur les premiers octets lus comme du latin-1
+const SIGNATURES: Array<[RegExp, string]> = [
+  [/^\xff\xd8\xff/, 'image/jpeg'],
+  [/^\x89PNG/, 'image/png'],
+  [/^GIF8/, 'image/gif'],
+  [/^RIFF[\s\S]{4}WEBP/, 'image/webp'],
+  [/<svg[\s>]/, 'image/svg+xml'],
+  [/^RIFF[\s\S]{4}WAVE/, 'audio/wav'],
+  [/^OggS/, 'audio/ogg'],
+  [/^ID3|^\xff[\xe0-\xff]/, 'audio/mpeg'],
+  [/^[\s\S]E\xdf\xa3/, 'audio/webm'], // En-tête EBML 1A 45 DF A3
+  [/^[\s\S]{4}ftyp/, 'audio/mp4'],
+];
+
+/**
+ * Type of a media. The blobs read from IndexedDB lose their type once
+ * decompressed: it is then taken from the inline data URL of the record,
+ * or recognized from the first bytes of the file.
+ */
+const detectMimeType = async (blob: Blob, inline?: string): Promise<string> => {
+  if (EXTENSIONS[blob.type]) return blob.type;
+
+  const dataUrlType = isBase64String(inline) ? inline!.match(/^data:([^;,]+)/)?.[1] : undefined;
+  if (dataUrlType && EXTENSIONS[dataUrlType]) return dataUrlType;
+
+  const header = String.fromCharCode(...new Uint8Array(await blob.slice(0, 256).arrayBuffer()));
+  return SIGNATURES.find(([signature]) => signature.test(header))?.[1] || blob.type;
+};
+
+export interface DeckBundle {
+  blob: Blob;
+  title: string;
+  mediaCount: number;
+  missingMediaCount: number; // Médias référencés mais introuvables, absents de l'archive
+}
+
+/**
+ * Export a deck as a zip bundle. In deck.json, the imageId, audioId and
+ * coverImageId fields name a file of the media/ folder, and the inline
+ * base64 copies are left out.
+ */
+export async function exportDeckBundle(deckId: string): Promise<DeckBundle> {
+  const exportData = exportDeckToJson(deckId);
+  const mediaFiles = new Map<string, Blob>();
+  let missingMediaCount = 0;
+
+  // Blob d'IndexedDB, ou à défaut la copie base64 gardée dans l'enregistrement
+  const addMedia = async (type: MediaType, mediaId?: string, inline?: string): Promise<string | undefined> => {
+    let blob = mediaId ? await (type === 'image' ? getImage(mediaId) : getAudio(mediaId)) : null;
+    if (!blob && isBase64String(inline)) blob = dataUrlToBlob(inline!);
+    if (!blob) {
+      missingMediaCount++;
+      return undefined;
+    }
+
+    const mimeType = await detectMimeType(blob, inline);
+    const id = mediaId || await computeMediaId(type === 'image' ? 'img' : 'aud', blob);
+    const fileName = `${id}.${EXTENSIONS[mimeType] || 'bin'}`;
+    mediaFiles.set(fileName, blob.type === mimeType ? blob : new Blob([blob], { type: mimeType }));
+    return fileName;
+  };
+
+  // Les images désignées par une URL restent telles quelles
+  const bundleSide = async (side: FlashcardSide): Promise<FlashcardSide> => {
+    const result = { ...side };
+    if (side.imageId || isBase64String(side.image)) {
+      delete result.image;
+      result.imageId = await addMedia('image', side.imageId, side.image);
+    }
+    if (side.audioId || isBase64String(side.audio)) {
+      delete result.audio;
+      result.audioId = await addMedia('audio', side.audioId, side.audio);
+    }
+    return result;
+  };
+
+  const bundleTheme = async (theme: Theme): Promise<Theme> => {
+    if (!theme.coverImageId && !isBase64String(theme.coverImage)) return theme;
+    const { coverImage, ...rest } = theme;
+    return { ...rest, coverImageId: await addMedia('image', theme.coverImageId, coverImage) };
+  };
+
+  // La couverture du deck suit la même règle que celle des thèmes
+  const bundleCover = async (): Promise<Pick<SharedDeckExport, 'coverImage' | 'coverImageId'>> => {
+    const { coverImage, coverImageId } = exportData;
+    if (!coverImageId && !isBase64String(coverImage)) return { coverImage, coverImageId };
+    return { coverImage: undefined, coverImageId: await addMedia('image', coverImageId, coverImage) };
+  };
+
+  const bundleData: SharedDeckExport = {
+    ...exportData,
+    ...await bundleCover(),
+    themes: await Promise.all(exportData.themes.map(bundleTheme)),
+    flashcards: [],
+  };
+  for (const card of exportData.flashcards) {
+    bundleData.flashcards.push({ ...card, front: await bundleSide(card.front), back: await bundleSide(card.back) });
+  }
+
+  const files: ZipFileInput[] = [
+    { name: DECK_FILE, data: JSON.stringify(bundleData, null, 2), compress: true },
+    ...[...mediaFiles].map(([fileName, blob]) => ({ name: MEDIA_FOLDER + fileName, data: blob })),
+  ];
+
+  return {
+    blob: await createZip(files),
+    title: exportData.title,
+    mediaCount: mediaFiles.size,
+    missingMediaCount,
+  };
+}
+
+/**
+ * Read a deck bundle. deck.json is validated first; the media of the
+ * archive are then attached to the cards and themes as base64 data URLs,
+ * which the import stores in IndexedDB.
+ */
+export async function readDeckBundle(buffer: ArrayBuffer): Promise<FormatParseResult<SharedDeckExport>> {
+  const entries = readZip(buffer);
+  const deckEntry = entries.get(DECK_FILE);
+  if (!deckEntry) throw new Error("Cette archive ne contient pas de deck (deck.json manquant)");
+
+  const parsed = parseDeckExport(JSON.parse(new TextDecoder().decode(await deckEntry.read())));
+  if (!parsed.data) return parsed;
+  const exportData = parsed.data;
+
+  const loadMedia = async (fileName: string): Promise<string | undefined> => {
+    const entry = entries.get(MEDIA_FOLDER + fileName);
+    if (!entry) return undefined;
+    const mimeType = MIME_TYPES[fileName.split('.').pop()!.toLowerCase()] || '';
+    return blobToBase64(new Blob([await entry.read()], { type: mimeType }));
+  };
+
+  // Un média absent de l'archive est retiré plutôt que laissé en référence morte
+  const restoreSide = async (side: FlashcardSide): Promise<FlashcardSide> => {
+    const { imageId, audioId, ...rest } = side;
+    return {
+      ...rest,
+      image: imageId ? await loadMedia(imageId) : side.image,
+      audio: audioId ? await loadMedia(audioId) : side.audio,
+    };
+  };
+
+  const restoreTheme = async (theme: Theme): Promise<Theme> => {
+    const { coverImageId, ...rest } = theme;
+    return { ...rest, coverImage: coverImageId ? await loadMedia(coverImageId) : theme.coverImage };
+  };
+
+  const themes: Theme[] = [];
+  for (const theme of exportData.themes) themes.push(await restoreTheme(theme));
+  const flashcards: SharedDeckExport['flashcards'] = [];
+  for (const card of exportData.flashcards) {
+    flashcards.push({ ...card, front: await restoreSide(card.front), back: await restoreSide(card.back) });
+  }
+
+  const { coverImageId, ...deckData } = exportData;
+  const coverImage = coverImageId ? await loadMedia(coverImageId) : exportData.coverImage;
+  return { ...parsed, data: { ...deckData, coverImage, themes, flashcards } };
+}
@@ -1,38 +1,180 @@
 
 // Deck sharing functionality
-import { SharedDeckExport, Deck } from './types';
-import { createDeck } from './deckStorage';
-import { createTheme } from './themeStorage';
-import { createFlashcard } from './flashcardStorage';
+import {
+  SharedDeckExport,
+  Deck,
+  Flashcard,
+  FlashcardSide,
+  FlashcardSource,
+  DeckMergeReport,
+  SourceHashes,
+  Theme,
+} from './types';
+import { isBase64String } from './utils';
+import { getRecord, getRecords, putRecord } from '../repository/recordStore';
+import { createDeck, updateDeck } from './deckStorage';
+import { createTheme, deleteTheme, getThemesByDeck, updateTheme } from './themeStorage';
+import { createFlashcard, deleteFlashcard, getFlashcardsByDeck, updateFlashcard } from './flashcardStorage';
 import { getUser } from './userStorage';
 
+// Les réponses acceptées d'un fichier importé ne sont gardées que si elles sont textuelles
+const importCardSide = (side: FlashcardSide): FlashcardSide => {
+  const acceptedAnswers = Array.isArray(side.acceptedAnswers)
+    ? side.acceptedAnswers.filter((answer): answer is string => typeof answer === 'string' && !!answer.trim())
+    : [];
+
+  return {
+    ...side,
+    acceptedAnswers: acceptedAnswers.length > 0 ? acceptedAnswers : undefined,
+    displayAnswer: typeof side.displayAnswer === 'string' && side.displayAnswer.trim() ? side.displayAnswer : undefined,
+  };
+};
+
+// Empreinte de 53 bits (cyrb53), suffisante pour repérer une modification
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Un média est désigné par sa copie base64, gardée dans l'enregistrement
+// local comme dans le fichier exporté, et à défaut par son id. Les ids ne
+// dérivent du contenu que dans un contexte sécurisé : ils ne sont jamais
+// recalculés ici.
+const mediaKey = (mediaId?: string, inline?: string): string =>
+  isBase64String(inline) ? hashString(inline!) : mediaId || inline || '';
+
+/**
+ * Fingerprint of the content of a card. The theme is designated by its id
+ * in the source deck, so that a local card and its source card compare equal.
+ */
+const fingerprintCard = (
+  card: Pick<Flashcard, 'type' | 'studyDirection' | 'front' | 'back'>,
+  sourceThemeId?: string
+): string => {
+  const sideContent = (side: FlashcardSide) => {
+    const normalized = importCardSide(side);
+    return [
+      normalized.text,
+      mediaKey(normalized.imageId, normalized.image),
+      mediaKey(normalized.audioId, normalized.audio),
+      normalized.additionalInfo || '',
+      normalized.acceptedAnswers || [],
+      normalized.displayAnswer || '',
+    ];
+  };
+
+  return hashString(JSON.stringify([
+    card.type || 'basic',
+    card.studyDirection || '',
+    sourceThemeId || '',
+    sideContent(card.front),
+    sideContent(card.back),
+  ]));
+};
+
+type CoverFields = Pick<Theme, 'coverImage' | 'coverImageId'>;
+
+const fingerprintTheme = (theme: Pick<Theme, 'title' | 'description'> & CoverFields): string =>
+  hashString(JSON.stringify([theme.title, theme.description || '', mediaKey(theme.coverImageId, theme.coverImage)]));
+
+const fingerprintDeck = (deck: Pick<Deck, 'title' | 'description' | 'studyDirection'> & CoverFields): string =>
+  hashString(JSON.stringify([
+    deck.title,
+    deck.description || '',
+    deck.studyDirection || '',
+    mediaKey(deck.coverImageId, deck.coverImage),
+  ]));
+
+// Couverture reprise de la source ; sans image base64, l'ancienne image n'est plus référencée
+const sourceCover = (source: CoverFields): Partial<CoverFields> => (
+  isBase64String(source.coverImage)
+    ? { coverImage: source.coverImage }
+    : { coverImage: source.coverImage, coverImageId: undefined }
+);
+
+/**
+ * Three-way rule shared by the deck, its themes and its cards: a version
+ * changed in the source since the previous merge replaces the local one
+ * unless the local one changed too. Without hashes (linked before they
+ * were kept), the side that changed is unknown and the local version is kept.
+ */
+const mergeAction = (
+  hashes: SourceHashes | undefined,
+  upstreamHash: string,
+  localHash: string
+): 'unchanged' | 'update' | 'keep-local' => {
+  if (!hashes) return upstreamHash === localHash ? 'unchanged' : 'keep-local';
+  if (upstreamHash === hashes.upstreamHash) return 'unchanged';
+  return localHash === hashes.localHash ? 'update' : 'keep-local';
+};
+
+// Après une fusion qui garde la version locale, seule la version source est
+// mise à jour : une modification locale reste détectée
+const keptHashes = (hashes: SourceHashes | undefined, upstreamHash: string, localHash: string): SourceHashes =>
+  hashes ? { ...hashes, upstreamHash } : { upstreamHash, localHash };
+
+// Thème d'une carte dans le deck source, tant que ce thème existe dans la copie
+const resolveSourceThemeId = (sourceThemeId: string | undefined, themeIds: Map<string, string>) =>
+  sourceThemeId && themeIds.has(sourceThemeId) ? sourceThemeId : undefined;
+
+// Enregistre l'empreinte de la carte locale telle qu'elle est après la fusion
+const linkToSource = async (
+  card: Flashcard,
+  source: Omit<FlashcardSource, 'localHash'>,
+  sourceThemeId?: string
+): Promise<Flashcard> => {
+  const linked: Flashcard = { ...card, source: { ...source, localHash: fingerprintCard(card, sourceThemeId) } };
+  await putRecord('flashcards', linked);
+  return linked;
+};
+
 /**
  * Import a deck from JSON export
  */
-export function importDeckFromJson(exportData: SharedDeckExport, userId: string): string {
+export async function importDeckFromJson(exportData: SharedDeckExport, userId: string): Promise<string> {
   const currentUser = getUser();
   if (!currentUser || currentUser.id !== userId) throw new Error("User not authenticated");
   
   // Créer le nouveau deck
-  const newDeck = createDeck({
+  const newDeck = await createDeck({
     title: exportData.title,
     description: exportData.description,
     authorId: currentUser.id,
     authorName: currentUser.username,
     isPublic: false,
     isShared: true, // Marquer comme deck partagé importé
-    originalId: exportData.originalId
+    originalId: exportData.originalId,
+    studyDirection: exportData.studyDirection,
+    coverImage: exportData.coverImage,
+  });
+  await putRecord('decks', {
+    ...newDeck,
+    sourceHashes: { upstreamHash: fingerprintDeck(exportData), localHash: fingerprintDeck(newDeck) },
   });
   
   // Créer des maps pour associer les anciens IDs aux nouveaux
-  const themeIdMap = new Map();
+  const themeIdMap = new Map<string, string>();
   
   // Importer les thèmes
   for (const theme of exportData.themes) {
-    const newTheme = createTheme({
+    const newTheme = await createTheme({
       deckId: newDeck.id,
       title: theme.title,
       description: theme.description,
+      coverImage: theme.coverImage,
+      sourceId: theme.id,
+    });
+    await putRecord('themes', {
+      ...newTheme,
+      sourceHashes: { upstreamHash: fingerprintTheme(theme), localHash: fingerprintTheme(newTheme) },
     });
     
     themeIdMap.set(theme.id, newTheme.id);
@@ -41,17 +183,270 @@ export function importDeckFromJson(exportData: SharedDeckExport, userId: string)
   // Importer les flashcards
   for (const card of exportData.flashcards) {
     // Mapper l'ancien themeId avec le nouveau si disponible
-    const newThemeId = card.themeId ? themeIdMap.get(card.themeId) : undefined;
+    const sourceThemeId = resolveSourceThemeId(card.themeId, themeIdMap);
     
     // Importer la flashcard
-    createFlashcard({
+    const newCard = await createFlashcard({
       deckId: newDeck.id,
-      themeId: newThemeId,
-      front: card.front,
-      back: card.back,
+      themeId: sourceThemeId ? themeIdMap.get(sourceThemeId) : undefined,
+      type: card.type,
+      studyDirection: card.studyDirection,
+      front: importCardSide(card.front),
+      back: importCardSide(card.back),
       difficulty: card.difficulty,
     });
+
+    // Garder le lien avec la carte source pour les mises à jour du deck
+    await linkToSource(newCard, { id: card.id, upstreamHash: fingerprintCard(card, sourceThemeId) }, sourceThemeId);
   }
   
   return newDeck.id;
 }
+
+/**
+ * Merge a newer export of a shared deck into the copy imported from it,
+ * found by its originalId. The deck, its themes and its cards are matched
+ * with their source (cards by id, or by content for copies imported before
+ * ids were kept) and compared with their state at the previous merge:
+ * - what changed only in the source is updated, cards keeping their reviews;
+ * - cards changed on both sides keep the local version and are flagged
+ *   with the source version (see resolveSourceConflict); the deck and
+ *   themes simply keep the local version;
+ * - cards and themes removed from the source go to the trash, or lose
+ *   their link to it when they were edited locally (or still hold cards);
+ * - new cards and themes are added; local cards and themes are kept.
+ * Resolves to null when no imported copy of the deck exists.
+ */
+export async function updateDeckFromJson(exportData: SharedDeckExport): Promise<DeckMergeReport | null> {
+  const importedDeck = (Object.values(getRecords('decks')) as Deck[]).find(
+    deck => deck.isShared && deck.originalId === exportData.originalId
+  );
+
+  if (!importedDeck) return null;
+
+  const report: DeckMergeReport = {
+    deckId: importedDeck.id,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    conflicts: 0,
+    removed: 0,
+    detached: 0,
+    deckUpdated: false,
+    themesAdded: 0,
+    themesUpdated: 0,
+    themesRemoved: 0,
+    themesKept: 0,
+  };
+
+  // Deck : titre, description, sens d'étude et couverture
+  const deckUpstreamHash = fingerprintDeck(exportData);
+  const deckLocalHash = fingerprintDeck(importedDeck);
+  const deckAction = mergeAction(importedDeck.sourceHashes, deckUpstreamHash, deckLocalHash);
+  if (deckAction === 'update') {
+    const updatedDeck = await updateDeck(importedDeck.id, {
+      title: exportData.title,
+      description: exportData.description,
+      studyDirection: exportData.studyDirection,
+      ...sourceCover(exportData),
+    });
+    if (updatedDeck) {
+      await putRecord('decks', {
+        ...updatedDeck,
+        sourceHashes: { upstreamHash: deckUpstreamHash, localHash: fingerprintDeck(updatedDeck) },
+      });
+      report.deckUpdated = true;
+    }
+  } else {
+    await putRecord('decks', {
+      ...importedDeck,
+      sourceHashes: keptHashes(importedDeck.sourceHashes, deckUpstreamHash, deckLocalHash),
+    });
+  }
+
+  // Thèmes : id dans le deck source → id local
+  const localThemes = getThemesByDeck(importedDeck.id);
+  const themeIds = new Map<string, string>();
+  localThemes.forEach(theme => theme.sourceId && themeIds.set(theme.sourceId, theme.id));
+
+  for (const sourceTheme of exportData.themes) {
+    const upstreamHash = fingerprintTheme(sourceTheme);
+
+    // Les thèmes importés avant le suivi des ids sont reconnus par leur titre
+    const linkedIds = new Set(themeIds.values());
+    const localTheme = themeIds.has(sourceTheme.id)
+      ? localThemes.find(theme => theme.id === themeIds.get(sourceTheme.id))
+      : localThemes.find(local => !local.sourceId && !linkedIds.has(local.id) && local.title === sourceTheme.title);
+
+    if (!localTheme) {
+      const newTheme = await createTheme({
+        deckId: importedDeck.id,
+        title: sourceTheme.title,
+        description: sourceTheme.description,
+        coverImage: sourceTheme.coverImage,
+        sourceId: sourceTheme.id,
+      });
+      await putRecord('themes', {
+        ...newTheme,
+        sourceHashes: { upstreamHash, localHash: fingerprintTheme(newTheme) },
+      });
+      themeIds.set(sourceTheme.id, newTheme.id);
+      report.themesAdded++;
+      continue;
+    }
+
+    themeIds.set(sourceTheme.id, localTheme.id);
+    const localHash = fingerprintTheme(localTheme);
+    const action = mergeAction(localTheme.sourceHashes, upstreamHash, localHash);
+
+    if (action === 'update') {
+      const updatedTheme = await updateTheme(localTheme.id, {
+        title: sourceTheme.title,
+        description: sourceTheme.description,
+        ...sourceCover(sourceTheme),
+      });
+      if (updatedTheme) {
+        await putRecord('themes', {
+          ...updatedTheme,
+          sourceId: sourceTheme.id,
+          sourceHashes: { upstreamHash, localHash: fingerprintTheme(updatedTheme) },
+        });
+        report.themesUpdated++;
+      }
+    } else {
+      if (action === 'keep-local') report.themesKept++;
+      await putRecord('themes', {
+        ...localTheme,
+        sourceId: sourceTheme.id,
+        sourceHashes: keptHashes(localTheme.sourceHashes, upstreamHash, localHash),
+      });
+    }
+  }
+
+  // Les thèmes retirés de la source gardent leur id source le temps de
+  // comparer leurs cartes avec l'état de la fusion précédente
+  const sourceThemeIds = new Map<string, string>();
+  localThemes.forEach(theme => theme.sourceId && sourceThemeIds.set(theme.id, theme.sourceId));
+  themeIds.forEach((localId, sourceId) => sourceThemeIds.set(localId, sourceId));
+  const localSourceThemeId = (card: Flashcard) =>
+    card.themeId ? sourceThemeIds.get(card.themeId) ?? card.themeId : undefined;
+
+  // Cartes : celles qui n'ont pas de carte source correspondante par id peuvent
+  // encore être reconnues par leur contenu
+  const sourceIds = new Set(exportData.flashcards.map(card => card.id));
+  const linkedCards = new Map<string, Flashcard>();
+  const unmatchedCards = new Map<string, Flashcard[]>();
+
+  for (const card of getFlashcardsByDeck(importedDeck.id)) {
+    if (card.source && sourceIds.has(card.source.id)) {
+      linkedCards.set(card.source.id, card);
+      continue;
+    }
+    const hash = fingerprintCard(card, localSourceThemeId(card));
+    unmatchedCards.set(hash, [...(unmatchedCards.get(hash) || []), card]);
+  }
+
+  for (const sourceCard of exportData.flashcards) {
+    const sourceThemeId = resolveSourceThemeId(sourceCard.themeId, themeIds);
+    const upstreamHash = fingerprintCard(sourceCard, sourceThemeId);
+    const source = { id: sourceCard.id, upstreamHash };
+    const content = {
+      type: sourceCard.type,
+      studyDirection: sourceCard.studyDirection,
+      themeId: sourceThemeId ? themeIds.get(sourceThemeId) : undefined,
+      front: importCardSide(sourceCard.front),
+      back: importCardSide(sourceCard.back),
+    };
+
+    const localCard = linkedCards.get(sourceCard.id);
+
+    if (!localCard) {
+      const sameContent = unmatchedCards.get(upstreamHash)?.shift();
+      if (sameContent) {
+        await linkToSource(sameContent, source, sourceThemeId);
+        report.unchanged++;
+      } else {
+        const newCard = await createFlashcard({ deckId: importedDeck.id, ...content, difficulty: sourceCard.difficulty });
+        await linkToSource(newCard, source, sourceThemeId);
+        report.added++;
+      }
+      continue;
+    }
+
+    const action = mergeAction(localCard.source, upstreamHash, fingerprintCard(localCard, localSourceThemeId(localCard)));
+    if (action === 'unchanged') {
+      report.unchanged++;
+    } else if (action === 'update') {
+      const updated = await updateFlashcard(localCard.id, { ...content, sourceConflict: undefined });
+      if (updated) await linkToSource(updated, source, sourceThemeId);
+      report.updated++;
+    } else {
+      // La version source est gardée à côté de la carte jusqu'à ce que l'utilisateur choisisse
+      await putRecord('flashcards', {
+        ...localCard,
+        source: { ...localCard.source!, upstreamHash },
+        sourceConflict: { ...content, detectedAt: Date.now() },
+      });
+      report.conflicts++;
+    }
+  }
+
+  // Cartes retirées de la source
+  for (const card of [...unmatchedCards.values()].flat()) {
+    if (!card.source) continue;
+
+    const localHash = fingerprintCard(card, localSourceThemeId(card));
+    if (localHash === card.source.localHash) {
+      deleteFlashcard(card.id);
+      report.removed++;
+    } else {
+      const { source, sourceConflict, ...detached } = card;
+      await putRecord('flashcards', detached);
+      report.detached++;
+    }
+  }
+
+  // Thèmes retirés de la source : un thème modifié ou qui contient encore
+  // des cartes est gardé, sans lien avec la source
+  const keptSourceThemes = new Set(exportData.themes.map(theme => theme.id));
+  const remainingCards = getFlashcardsByDeck(importedDeck.id);
+  for (const theme of getThemesByDeck(importedDeck.id)) {
+    if (!theme.sourceId || keptSourceThemes.has(theme.sourceId)) continue;
+
+    const unchanged = theme.sourceHashes?.localHash === fingerprintTheme(theme);
+    if (unchanged && !remainingCards.some(card => card.themeId === theme.id)) {
+      deleteTheme(theme.id);
+      report.themesRemoved++;
+    } else {
+      const { sourceId, sourceHashes, ...detached } = theme;
+      await putRecord('themes', detached);
+      report.themesKept++;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Settle a card flagged by updateDeckFromJson: keep the local version, or
+ * replace it with the source version. Either way the card follows the
+ * later updates of the source deck.
+ */
+export async function resolveSourceConflict(flashcardId: string, keep: 'local' | 'source'): Promise<Flashcard | null> {
+  const card = getRecord('flashcards', flashcardId);
+  if (!card?.sourceConflict || !card.source) return card;
+
+  const { detectedAt, ...sourceVersion } = card.sourceConflict;
+
+  if (keep === 'local') {
+    const { sourceConflict, ...resolved } = card;
+    await putRecord('flashcards', resolved);
+    return resolved;
+  }
+
+  const updated = await updateFlashcard(flashcardId, { ...sourceVersion, sourceConflict: undefined });
+  if (!updated) return null;
+
+  const sourceThemeId = updated.themeId ? getRecord('themes', updated.themeId)?.sourceId ?? updated.themeId : undefined;
+  return linkToSource(updated, card.source, sourceThemeId);
+}
@@ -2,33 +2,32 @@
 // Deck management functionality
 import { Deck, generateId, SharedDeckExport } from './types';
 import { getLocalStorageItem, setLocalStorageItem, isBase64String } from './utils';
+import { getRecord, getRecords, putRecord, setRecords } from '../repository/recordStore';
 import { getUser } from './userStorage';
 import { getFlashcardsByDeck } from './flashcardStorage';
-import { getThemesByDeck, deleteTheme } from './themeStorage';
+import { getThemesByDeck } from './themeStorage';
 import { 
-  storeImage, 
-  deleteImage, 
   getImage, 
-  blobToBase64, 
-  base64ToBlob, 
-  generateMediaId 
+  blobToBase64
 } from '../indexedDBStorage';
-import { deleteFlashcard } from './flashcardStorage';
+import { moveToTrash } from './trashStorage';
+import { storeCoverImage } from './mediaStorage';
+import { releaseMedia } from './mediaReferences';
+import { DECK_EXPORT_VERSION } from '../formats';
 
 /**
- * Create a new deck
+ * Create a new deck. Resolves once its cover image and the deck itself
+ * are stored.
  */
-export function createDeck(deckData: Partial<Deck>): Deck {
-  const decks = getLocalStorageItem('decks') || {};
+export async function createDeck(deckData: Partial<Deck>): Promise<Deck> {
   const currentUser = getUser();
   
   if (!currentUser) throw new Error("User not authenticated");
   
-  const id = generateId();
   const timestamp = Date.now();
   
   const newDeck: Deck = {
-    id,
+    id: generateId(),
     title: deckData.title || "Nouveau deck",
     description: deckData.description || "",
     coverImage: deckData.coverImage,
@@ -42,32 +41,15 @@ export function createDeck(deckData: Partial<Deck>): Deck {
     isShared: deckData.isShared || false,
     originalId: deckData.originalId,
     isPublished: deckData.isPublished || false,
+    studyDirection: deckData.studyDirection,
   };
   
-  // Traiter l'image de couverture si présente
+  // L'image de couverture est stockée avant le deck qui la référence
   if (isBase64String(newDeck.coverImage)) {
-    // Traitement asynchrone
-    (async () => {
-      try {
-        const coverImageId = generateMediaId('img');
-        const contentType = newDeck.coverImage!.split(';')[0].split(':')[1];
-        const imageBlob = base64ToBlob(newDeck.coverImage!, contentType);
-        const success = await storeImage(coverImageId, imageBlob);
-        
-        if (success) {
-          newDeck.coverImageId = coverImageId;
-          // Mettre à jour le deck dans localStorage
-          decks[id] = { ...newDeck };
-          setLocalStorageItem('decks', decks);
-        }
-      } catch (error) {
-        console.error('Erreur lors du traitement de l\'image de couverture:', error);
-      }
-    })();
+    newDeck.coverImageId = await storeCoverImage(newDeck.coverImage!);
   }
   
-  decks[id] = newDeck;
-  setLocalStorageItem('decks', decks);
+  await putRecord('decks', newDeck);
   
   return newDeck;
 }
@@ -76,7 +58,7 @@ export function createDeck(deckData: Partial<Deck>): Deck {
  * Get a deck by ID
  */
 export function getDeck(deckId: string): Deck | null {
-  const decks = getLocalStorageItem('decks') || {};
+  const decks = getRecords('decks');
   const deck = decks[deckId];
   
   if (deck && deck.coverImageId) {
@@ -103,7 +85,7 @@ export function getDeck(deckId: string): Deck | null {
  * Get all decks
  */
 export function getDecks(): Deck[] {
-  const decks = getLocalStorageItem('decks') || {};
+  const decks = getRecords('decks');
   return Object.values(decks) as Deck[];
 }
 
@@ -111,99 +93,64 @@ export function getDecks(): Deck[] {
  * Get decks by user ID
  */
 export function getDecksByUser(userId: string): Deck[] {
-  const decks = getLocalStorageItem('decks') || {};
+  const decks = getRecords('decks');
   return (Object.values(decks) as Deck[]).filter((deck: Deck) => deck.authorId === userId);
 }
 
 /**
- * Update a deck
+ * Update a deck. Resolves once its new cover image and the deck itself
+ * are stored.
  */
-export function updateDeck(deckId: string, updates: Partial<Deck>): Deck | null {
-  const decks = getLocalStorageItem('decks') || {};
-  const deck = decks[deckId];
+export async function updateDeck(deckId: string, updates: Partial<Deck>): Promise<Deck | null> {
+  const deck = getRecord('decks', deckId);
   
   if (!deck) return null;
   
-  // Traiter l'image de couverture si présente et modifiée
-  if (isBase64String(updates.coverImage) && updates.coverImage !== deck.coverImage) {
-    // Traitement asynchrone
-    (async () => {
-      try {
-        // Supprimer l'ancienne image si elle existe
-        if (deck.coverImageId) {
-          await deleteImage(deck.coverImageId);
-        }
-        
-        const coverImageId = generateMediaId('img');
-        const contentType = updates.coverImage!.split(';')[0].split(':')[1];
-        const imageBlob = base64ToBlob(updates.coverImage!, contentType);
-        const success = await storeImage(coverImageId, imageBlob);
-        
-        if (success) {
-          // Mettre à jour le deck avec la nouvelle référence
-          deck.coverImageId = coverImageId;
-          deck.coverImage = updates.coverImage;
-          deck.updatedAt = Date.now();
-          decks[deckId] = { ...deck };
-          setLocalStorageItem('decks', decks);
-        }
-      } catch (error) {
-        console.error('Erreur lors du traitement de l\'image de couverture:', error);
-      }
-    })();
-    
-    // Ne pas inclure coverImage dans l'objet updates pour éviter la duplication
-    delete updates.coverImage;
+  const changes: Partial<Deck> = { ...updates };
+  
+  // Stocker la nouvelle image de couverture si elle a changé
+  const coverChanged = isBase64String(updates.coverImage) && updates.coverImage !== deck.coverImage;
+  if (coverChanged) {
+    changes.coverImageId = await storeCoverImage(updates.coverImage!);
   }
   
-  const updatedDeck = {
-    ...deck,
-    ...updates,
+  // Relire le deck : il a pu être modifié pendant le stockage de l'image
+  const latestDeck = getRecord('decks', deckId);
+  if (!latestDeck) return null;
+  
+  const updatedDeck: Deck = {
+    ...latestDeck,
+    ...changes,
     updatedAt: Date.now()
   };
   
-  decks[deckId] = updatedDeck;
-  setLocalStorageItem('decks', decks);
+  await putRecord('decks', updatedDeck);
+  
+  // L'ancienne image n'est supprimée qu'une fois le deck enregistré, et
+  // seulement si plus rien ne l'utilise
+  if (coverChanged && latestDeck.coverImageId) {
+    await releaseMedia([{ id: latestDeck.coverImageId, type: 'image' }]).catch(error => {
+      console.error('Erreur lors de la suppression de l\'ancienne image de couverture:', error);
+    });
+  }
   
   return updatedDeck;
 }
 
 /**
- * Delete a deck and all associated data
+ * Move a deck, its themes and its flashcards to the trash
  */
 export function deleteDeck(deckId: string): boolean {
-  const decks = getLocalStorageItem('decks') || {};
-  const deck = decks[deckId];
+  const deck = getRecord('decks', deckId);
   
   if (!deck) return false;
   
-  // Suppression des médias associés à ce deck
-  (async () => {
-    try {
-      // Supprimer l'image de couverture si elle existe
-      if (deck.coverImageId) {
-        await deleteImage(deck.coverImageId);
-      }
-      
-      // Supprimer les médias de toutes les flashcards de ce deck
-      const flashcards = getFlashcardsByDeck(deckId);
-      for (const card of flashcards) {
-        deleteFlashcard(card.id);
-      }
-    } catch (error) {
-      console.error('Erreur lors de la suppression des médias:', error);
-    }
-  })();
-  
-  // Supprimer également tous les thèmes associés à ce deck
-  const themes = getThemesByDeck(deckId);
-  themes.forEach(theme => {
-    deleteTheme(theme.id);
+  moveToTrash('deck', {
+    decks: [deck],
+    themes: getThemesByDeck(deckId),
+    flashcards: getFlashcardsByDeck(deckId),
   });
   
-  delete decks[deckId];
-  setLocalStorageItem('decks', decks);
-  
   return true;
 }
 
@@ -252,11 +199,11 @@ export function getSharedDeck(code: string): Deck | null {
 /**
  * Publish a deck
  */
-export function publishDeck(deckId: string): boolean {
+export async function publishDeck(deckId: string): Promise<boolean> {
   const deck = getDeck(deckId);
   if (!deck) return false;
   
-  updateDeck(deckId, { 
+  await updateDeck(deckId, { 
     isPublic: true,
     isPublished: true
   });
@@ -267,11 +214,11 @@ export function publishDeck(deckId: string): boolean {
 /**
  * Unpublish a deck
  */
-export function unpublishDeck(deckId: string): boolean {
+export async function unpublishDeck(deckId: string): Promise<boolean> {
   const deck = getDeck(deckId);
   if (!deck) return false;
   
-  updateDeck(deckId, { 
+  await updateDeck(deckId, { 
     isPublic: false,
     isPublished: false
   });
@@ -282,13 +229,13 @@ export function unpublishDeck(deckId: string): boolean {
 /**
  * Update a published deck
  */
-export function updatePublishedDeck(deckId: string): boolean {
+export async function updatePublishedDeck(deckId: string): Promise<boolean> {
   const deck = getDeck(deckId);
   if (!deck) return false;
   
   // Dans une vraie app, cela pourrait propager les mises à jour vers un serveur
   if (deck.isPublished) {
-    updateDeck(deckId, { updatedAt: Date.now() });
+    await updateDeck(deckId, { updatedAt: Date.now() });
     return true;
   }
   
@@ -306,7 +253,8 @@ export function getSharedImportedDecks(): { localDeckId: string }[] {
 }
 
 /**
- * Share-related functions for decks
+ * Export a deck to share it. Themes and cards keep their ids, so that a
+ * later export can be merged into the copies imported from this one.
  */
 export function exportDeckToJson(deckId: string): SharedDeckExport {
   const deck = getDeck(deckId);
@@ -316,45 +264,20 @@ export function exportDeckToJson(deckId: string): SharedDeckExport {
   const flashcards = getFlashcardsByDeck(deckId);
   
   const exportData: SharedDeckExport = {
+    formatVersion: DECK_EXPORT_VERSION,
     id: generateId(),
     originalId: deck.id,
     title: deck.title,
     description: deck.description,
-    themes: themes.map(theme => ({
-      ...theme,
-      id: generateId()
-    })),
-    flashcards: flashcards.map(card => ({
-      ...card,
-      id: generateId()
-    })),
+    studyDirection: deck.studyDirection,
+    coverImage: deck.coverImage,
+    coverImageId: deck.coverImageId,
+    // Le lien avec un deck source dont ce deck serait lui-même une copie n'est pas transmis
+    themes: themes.map(({ sourceId, sourceHashes, ...theme }) => theme),
+    flashcards: flashcards.map(({ source, sourceConflict, ...card }) => card),
     createdAt: Date.now(),
     updatedAt: Date.now()
   };
   
   return exportData;
 }
-
-/**
- * Update a deck from imported data
- */
-export function updateDeckFromJson(exportData: SharedDeckExport): boolean {
-  const decks = getLocalStorageItem('decks') || {};
-  
-  // Chercher le deck importé par son originalId
-  const importedDeck = Object.values(decks).find(
-    (deck: any) => deck.isShared && deck.originalId === exportData.originalId
-  ) as Deck | undefined;
-  
-  if (!importedDeck) return false;
-  
-  // Nettoyer et mettre à jour l'existant
-  const flashcards = getFlashcardsByDeck(importedDeck.id);
-  flashcards.forEach(card => deleteFlashcard(card.id));
-  
-  const themes = getThemesByDeck(importedDeck.id);
-  themes.forEach(theme => deleteTheme(theme.id));
-  
-  // Continuer avec le processus d'importation...
-  return true;
-}
@@ -1,23 +1,23 @@
 
 // Flashcard management functionality
 import { Flashcard, generateId } from './types';
-import { getLocalStorageItem, setLocalStorageItem } from './utils';
+import { getRecord, getRecords, putRecord, setRecords } from '../repository/recordStore';
 import { processFlashcardMedia, loadFlashcardMedia } from './mediaStorage';
-import { deleteImage, deleteAudio } from '../indexedDBStorage';
+import { moveToTrash } from './trashStorage';
 
 /**
- * Create a new flashcard
+ * Create a new flashcard. Resolves once its media and the card itself
+ * are stored.
  */
-export function createFlashcard(flashcardData: Partial<Flashcard> & { deckId: string }): Flashcard {
-  const flashcards = getLocalStorageItem('flashcards') || {};
-  
-  const id = generateId();
+export async function createFlashcard(flashcardData: Partial<Flashcard> & { deckId: string }): Promise<Flashcard> {
   const timestamp = Date.now();
   
   const newFlashcard: Flashcard = {
-    id,
+    id: generateId(),
     deckId: flashcardData.deckId,
     themeId: flashcardData.themeId,
+    type: flashcardData.type,
+    studyDirection: flashcardData.studyDirection,
     front: flashcardData.front || { text: "" },
     back: flashcardData.back || { text: "" },
     createdAt: timestamp,
@@ -27,25 +27,12 @@ export function createFlashcard(flashcardData: Partial<Flashcard> & { deckId: st
     difficulty: flashcardData.difficulty,
   };
   
-  // Traiter les médias de façon asynchrone
-  (async () => {
-    try {
-      // Traiter les médias front
-      newFlashcard.front = await processFlashcardMedia(newFlashcard.front);
-      
-      // Traiter les médias back
-      newFlashcard.back = await processFlashcardMedia(newFlashcard.back);
-      
-      // Mettre à jour la flashcard dans localStorage
-      flashcards[id] = { ...newFlashcard };
-      setLocalStorageItem('flashcards', flashcards);
-    } catch (error) {
-      console.error('Erreur lors du traitement des médias:', error);
-    }
-  })();
+  // Les médias sont stockés avant la carte pour qu'elle ne référence
+  // jamais un média absent
+  newFlashcard.front = await processFlashcardMedia(newFlashcard.front);
+  newFlashcard.back = await processFlashcardMedia(newFlashcard.back);
   
-  flashcards[id] = newFlashcard;
-  setLocalStorageItem('flashcards', flashcards);
+  await putRecord('flashcards', newFlashcard);
   
   return newFlashcard;
 }
@@ -54,7 +41,7 @@ export function createFlashcard(flashcardData: Partial<Flashcard> & { deckId: st
  * Get a flashcard by ID
  */
 export function getFlashcard(flashcardId: string): Flashcard | null {
-  const flashcards = getLocalStorageItem('flashcards') || {};
+  const flashcards = getRecords('flashcards');
   const flashcard = flashcards[flashcardId];
   
   if (!flashcard) return null;
@@ -62,15 +49,9 @@ export function getFlashcard(flashcardId: string): Flashcard | null {
   // Charger les médias de façon asynchrone
   (async () => {
     try {
-      if (flashcard) {
-        // Charger les médias front
-        const updatedFront = await loadFlashcardMedia(flashcard.front);
-        flashcard.front = updatedFront;
-        
-        // Charger les médias back
-        const updatedBack = await loadFlashcardMedia(flashcard.back);
-        flashcard.back = updatedBack;
-      }
+      const loaded = await loadFlashcardMedia(flashcard);
+      flashcard.front = loaded.front;
+      flashcard.back = loaded.back;
     } catch (error) {
       console.error('Erreur lors du chargement des médias:', error);
     }
@@ -83,7 +64,7 @@ export function getFlashcard(flashcardId: string): Flashcard | null {
  * Get all flashcards
  */
 export function getFlashcards(): Flashcard[] {
-  const flashcards = getLocalStorageItem('flashcards') || {};
+  const flashcards = getRecords('flashcards');
   return Object.values(flashcards) as Flashcard[];
 }
 
@@ -91,7 +72,7 @@ export function getFlashcards(): Flashcard[] {
  * Get flashcards by deck ID
  */
 export function getFlashcardsByDeck(deckId: string): Flashcard[] {
-  const flashcards = getLocalStorageItem('flashcards') || {};
+  const flashcards = getRecords('flashcards');
   return (Object.values(flashcards) as Flashcard[]).filter((card: Flashcard) => card.deckId === deckId);
 }
 
@@ -99,87 +80,75 @@ export function getFlashcardsByDeck(deckId: string): Flashcard[] {
  * Get flashcards by theme ID
  */
 export function getFlashcardsByTheme(themeId: string): Flashcard[] {
-  const flashcards = getLocalStorageItem('flashcards') || {};
+  const flashcards = getRecords('flashcards');
   return (Object.values(flashcards) as Flashcard[]).filter((card: Flashcard) => card.themeId === themeId);
 }
 
 /**
- * Update a flashcard
+ * Update a flashcard. Resolves once its new media and the card itself
+ * are stored.
  */
-export function updateFlashcard(flashcardId: string, updates: Partial<Flashcard>): Flashcard | null {
-  const flashcards = getLocalStorageItem('flashcards') || {};
-  const flashcard = flashcards[flashcardId];
-  
+export async function updateFlashcard(flashcardId: string, updates: Partial<Flashcard>): Promise<Flashcard | null> {
+  if (!getRecord('flashcards', flashcardId)) return null;
+  
+  // Stocker les médias des faces modifiées
+  const sides: Partial<Flashcard> = {};
+  if (updates.front) {
+    sides.front = await processFlashcardMedia(updates.front);
+  }
+  if (updates.back) {
+    sides.back = await processFlashcardMedia(updates.back);
+  }
+  
+  // Relire la carte : elle a pu être modifiée pendant le stockage des médias
+  const flashcard = getRecord('flashcards', flashcardId);
   if (!flashcard) return null;
   
-  // Créer la flashcard mise à jour
-  const updatedFlashcard = {
+  const updatedFlashcard: Flashcard = {
     ...flashcard,
     ...updates,
+    ...sides,
     updatedAt: Date.now()
   };
   
-  // Traiter les médias de façon asynchrone
-  (async () => {
-    try {
-      // Traiter les médias front si mis à jour
-      if (updates.front) {
-        updatedFlashcard.front = await processFlashcardMedia(updatedFlashcard.front);
-      }
-      
-      // Traiter les médias back si mis à jour
-      if (updates.back) {
-        updatedFlashcard.back = await processFlashcardMedia(updatedFlashcard.back);
-      }
-      
-      // Mettre à jour la flashcard dans localStorage
-      flashcards[flashcardId] = { ...updatedFlashcard };
-      setLocalStorageItem('flashcards', flashcards);
-    } catch (error) {
-      console.error('Erreur lors du traitement des médias:', error);
-    }
-  })();
-  
-  flashcards[flashcardId] = updatedFlashcard;
-  setLocalStorageItem('flashcards', flashcards);
+  await putRecord('flashcards', updatedFlashcard);
   
   return updatedFlashcard;
 }
 
 /**
- * Delete a flashcard
+ * Record a review of a flashcard without touching its content timestamp
  */
-export function deleteFlashcard(flashcardId: string): boolean {
-  const flashcards = getLocalStorageItem('flashcards') || {};
+export function recordFlashcardReview(
+  flashcardId: string,
+  reviewedAt: number = Date.now(),
+  difficulty?: Flashcard['difficulty']
+): Flashcard | null {
+  const flashcards = getRecords('flashcards');
   const flashcard = flashcards[flashcardId];
   
-  if (!flashcard) return false;
+  if (!flashcard) return null;
   
-  // Suppression des médias associés
-  (async () => {
-    try {
-      // Supprimer les médias front
-      if (flashcard.front.imageId) {
-        await deleteImage(flashcard.front.imageId);
-      }
-      if (flashcard.front.audioId) {
-        await deleteAudio(flashcard.front.audioId);
-      }
-      
-      // Supprimer les médias back
-      if (flashcard.back.imageId) {
-        await deleteImage(flashcard.back.imageId);
-      }
-      if (flashcard.back.audioId) {
-        await deleteAudio(flashcard.back.audioId);
-      }
-    } catch (error) {
-      console.error('Erreur lors de la suppression des médias:', error);
-    }
-  })();
+  flashcards[flashcardId] = {
+    ...flashcard,
+    lastReviewed: reviewedAt,
+    reviewCount: (flashcard.reviewCount || 0) + 1,
+    difficulty: difficulty || flashcard.difficulty
+  };
+  setRecords('flashcards', flashcards);
+  
+  return flashcards[flashcardId];
+}
+
+/**
+ * Move a flashcard to the trash
+ */
+export function deleteFlashcard(flashcardId: string): boolean {
+  const flashcard = getRecord('flashcards', flashcardId);
+  
+  if (!flashcard) return false;
   
-  delete flashcards[flashcardId];
-  setLocalStorageItem('flashcards', flashcards);
+  moveToTrash('card', { flashcards: [flashcard] });
   
   return true;
 }
@@ -7,8 +7,19 @@ export * from './deckStorage';
 export * from './flashcardStorage';
 export * from './themeStorage';
 export * from './studySessionStorage';
+export * from './scheduleStorage';
+export * from './studyItems';
+export * from './reviewLogStorage';
+export * from './reviewQueue';
 export * from './mediaStorage';
+export * from './mediaReferences';
+export * from './mediaIntegrity';
+export * from './storageUsage';
+export * from './trashStorage';
 export * from './deckSharingStorage';
+export * from './ankiImport';
+export * from './csvImport';
+export * from './deckBundle';
 export * from './migrationTools';
 export * from './sampleData';
 export * from './dataExportImport';
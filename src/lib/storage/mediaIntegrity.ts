@@ -0,0 +1,123 @@
+// Media integrity: cross-references the media ids of the records with the blobs stored in IndexedDB
+import { FlashcardSide, MediaIntegrityReport, MediaReference, MediaType, OrphanMedia, User } from './types';
+import { getLocalStorageItem, setLocalStorageItem, isBase64String } from './utils';
+import { getRecord, putRecord } from '../repository/recordStore';
+import { dataUrlToBlob } from './mediaStorage';
+import { collectMediaReferences, getMediaKey, isRecentMedia, isRetainedMedia } from './mediaReferences';
+import { deleteAudio, deleteImage, listStoredMedia, storeAudio, storeImage } from '../indexedDBStorage';
+
+/**
+ * Compare the stored media with the references of the records. Reports
+ * the media no record points to and the references whose media is
+ * missing. Recently stored media, and those an undoable change may put
+ * back, are never reported as orphans.
+ */
+export async function scanMediaIntegrity(now: number = Date.now()): Promise<MediaIntegrityReport> {
+  const stored = await listStoredMedia();
+  const references = collectMediaReferences();
+
+  const storedKeys = new Set(stored.map(media => getMediaKey(media.id, media.type)));
+  const referencedKeys = new Set(references.map(ref => getMediaKey(ref.mediaId, ref.type)));
+
+  const orphans: OrphanMedia[] = stored.filter(media =>
+    !referencedKeys.has(getMediaKey(media.id, media.type))
+      && !isRecentMedia(media.id, now)
+      && !isRetainedMedia(media.id, media.type)
+  );
+
+  // Les éléments de la corbeille ne sont pas modifiables : seules les
+  // références actives sont signalées
+  const brokenReferences = references.filter(ref =>
+    !ref.inTrash && !storedKeys.has(getMediaKey(ref.mediaId, ref.type))
+  );
+
+  return {
+    scannedAt: now,
+    storedCount: stored.length,
+    referenceCount: references.length,
+    orphans,
+    orphanSize: orphans.reduce((total, media) => total + media.size, 0),
+    brokenReferences,
+  };
+}
+
+/**
+ * Permanently delete orphan media. Returns the number of media deleted.
+ */
+export async function deleteOrphanMedia(orphans: OrphanMedia[]): Promise<number> {
+  const referencedKeys = new Set(collectMediaReferences().map(ref => getMediaKey(ref.mediaId, ref.type)));
+  let deleted = 0;
+
+  for (const media of orphans) {
+    // Le média a pu être réutilisé depuis l'analyse
+    if (referencedKeys.has(getMediaKey(media.id, media.type)) || isRetainedMedia(media.id, media.type)) continue;
+
+    const success = media.type === 'image' ? await deleteImage(media.id) : await deleteAudio(media.id);
+    if (success) deleted++;
+  }
+  return deleted;
+}
+
+// Réenregistre le média à partir de la copie base64 gardée dans l'enregistrement
+const restoreMedia = async (ref: MediaReference, dataUrl: string | undefined): Promise<boolean> => {
+  if (!isBase64String(dataUrl)) return false;
+  const blob = dataUrlToBlob(dataUrl!);
+  return ref.type === 'image' ? storeImage(ref.mediaId, blob) : storeAudio(ref.mediaId, blob);
+};
+
+const clearSideReference = (side: FlashcardSide, type: MediaType): FlashcardSide =>
+  type === 'image' ? { ...side, imageId: undefined } : { ...side, audioId: undefined };
+
+// Répare une référence : restaure le média si possible, sinon retire l'id
+const repairReference = async (ref: MediaReference): Promise<'restored' | 'cleared' | null> => {
+  if (ref.owner === 'user') {
+    const users: Record<string, User> = getLocalStorageItem('users') || {};
+    const user = users[ref.ownerId];
+    if (!user || user.avatarId !== ref.mediaId) return null;
+    if (await restoreMedia(ref, user.avatar)) return 'restored';
+
+    users[user.id] = { ...user, avatarId: undefined };
+    setLocalStorageItem('users', users);
+    return 'cleared';
+  }
+
+  if (ref.owner === 'card') {
+    const card = getRecord('flashcards', ref.ownerId);
+    const sideName = ref.field.startsWith('front') ? 'front' : 'back';
+    const side = card?.[sideName];
+    if (!side || (ref.type === 'image' ? side.imageId : side.audioId) !== ref.mediaId) return null;
+    if (await restoreMedia(ref, ref.type === 'image' ? side.image : side.audio)) return 'restored';
+
+    await putRecord('flashcards', { ...card, [sideName]: clearSideReference(side, ref.type) });
+    return 'cleared';
+  }
+
+  const collection = ref.owner === 'deck' ? 'decks' : 'themes';
+  const record = getRecord(collection, ref.ownerId);
+  if (!record || record.coverImageId !== ref.mediaId) return null;
+  if (await restoreMedia(ref, record.coverImage)) return 'restored';
+
+  await putRecord(collection, { ...record, coverImageId: undefined });
+  return 'cleared';
+};
+
+/**
+ * Repair broken references: the media is stored again from the base64
+ * copy kept in the record when there is one, otherwise the dangling id
+ * is removed from the record
+ */
+export async function repairBrokenReferences(
+  references: MediaReference[]
+): Promise<{ restored: number; cleared: number }> {
+  const result = { restored: 0, cleared: 0 };
+
+  for (const ref of references) {
+    try {
+      const outcome = await repairReference(ref);
+      if (outcome) result[outcome]++;
+    } catch (error) {
+      console.error(`Erreur lors de la réparation de la référence ${ref.mediaId}:`, error);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,182 @@
+// Media references: which records point at each stored media, so that shared media are only deleted once unused
+import { Deck, Flashcard, MediaReference, MediaType, Theme, User } from './types';
+import { getLocalStorageItem } from './utils';
+import { getRecords } from '../repository/recordStore';
+import { deleteAudio, deleteImage, getMediaStoredAt } from '../indexedDBStorage';
+
+// Un média plus récent peut appartenir à un enregistrement en cours d'écriture
+const RECENT_MEDIA_MS = 10 * 60 * 1000;
+
+// Médias gardés hors des enregistrements (ex: par l'historique d'annulation)
+const retainedMedia = new Map<string, number>();
+
+/**
+ * Key identifying a media across the image and audio stores
+ */
+export const getMediaKey = (id: string, type: MediaType): string => `${type}:${id}`;
+
+/**
+ * Whether a media was stored too recently to be deleted: the record
+ * pointing at it may still be being written
+ */
+export function isRecentMedia(id: string, now: number = Date.now()): boolean {
+  // Les anciens ids aléatoires portent leur date de création
+  const timestamp = getMediaStoredAt(id) ?? Number(id.split('_')[1]);
+  return Number.isFinite(timestamp) && now - timestamp < RECENT_MEDIA_MS;
+}
+
+const coverReference = (
+  owner: 'deck' | 'theme',
+  record: Deck | Theme,
+  inTrash: boolean
+): MediaReference[] =>
+  record.coverImageId
+    ? [{
+        mediaId: record.coverImageId,
+        type: 'image',
+        owner,
+        ownerId: record.id,
+        field: 'coverImageId',
+        label: record.title,
+        inTrash,
+      }]
+    : [];
+
+const cardReferences = (card: Flashcard, inTrash: boolean): MediaReference[] => {
+  const references: MediaReference[] = [];
+  for (const sideName of ['front', 'back'] as const) {
+    const side = card[sideName];
+    if (side.imageId) {
+      references.push({
+        mediaId: side.imageId,
+        type: 'image',
+        owner: 'card',
+        ownerId: card.id,
+        field: `${sideName}.imageId`,
+        label: card.front.text,
+        inTrash,
+      });
+    }
+    if (side.audioId) {
+      references.push({
+        mediaId: side.audioId,
+        type: 'audio',
+        owner: 'card',
+        ownerId: card.id,
+        field: `${sideName}.audioId`,
+        label: card.front.text,
+        inTrash,
+      });
+    }
+  }
+  return references;
+};
+
+/**
+ * Media ids of a deck, theme or card
+ */
+export function getRecordMedia(record: Deck | Theme | Flashcard): Array<{ id: string; type: MediaType }> {
+  const references = 'front' in record ? cardReferences(record, false) : coverReference('deck', record, false);
+  return references.map(ref => ({ id: ref.mediaId, type: ref.type }));
+}
+
+/**
+ * Keep media from being deleted while something other than the records
+ * still needs them, such as a change that can be undone. Each call is
+ * balanced by a call to unretainMedia.
+ */
+export function retainMedia(media: Array<{ id: string; type: MediaType }>): void {
+  media.forEach(({ id, type }) => {
+    const key = getMediaKey(id, type);
+    retainedMedia.set(key, (retainedMedia.get(key) || 0) + 1);
+  });
+}
+
+/**
+ * Give back media kept by retainMedia. They are not deleted here: see
+ * releaseMedia.
+ */
+export function unretainMedia(media: Array<{ id: string; type: MediaType }>): void {
+  media.forEach(({ id, type }) => {
+    const key = getMediaKey(id, type);
+    const count = (retainedMedia.get(key) || 0) - 1;
+    if (count > 0) retainedMedia.set(key, count);
+    else retainedMedia.delete(key);
+  });
+}
+
+/**
+ * Whether a media is kept by retainMedia
+ */
+export const isRetainedMedia = (id: string, type: MediaType): boolean => retainedMedia.has(getMediaKey(id, type));
+
+const getUsers = (): Record<string, User> => getLocalStorageItem('users') || {};
+
+/**
+ * List every media id referenced by the decks, themes, cards and user
+ * avatars, including the records waiting in the trash
+ */
+export function collectMediaReferences(): MediaReference[] {
+  const references: MediaReference[] = [];
+
+  Object.values(getRecords('decks')).forEach(deck => references.push(...coverReference('deck', deck, false)));
+  Object.values(getRecords('themes')).forEach(theme => references.push(...coverReference('theme', theme, false)));
+  Object.values(getRecords('flashcards')).forEach(card => references.push(...cardReferences(card, false)));
+
+  // Les médias des éléments de la corbeille sont conservés jusqu'à la purge
+  Object.values(getRecords('trash')).forEach(entry => {
+    entry.decks.forEach(deck => references.push(...coverReference('deck', deck, true)));
+    entry.themes.forEach(theme => references.push(...coverReference('theme', theme, true)));
+    entry.flashcards.forEach(card => references.push(...cardReferences(card, true)));
+  });
+
+  Object.values(getUsers()).forEach(user => {
+    if (user.avatarId) {
+      references.push({
+        mediaId: user.avatarId,
+        type: 'image',
+        owner: 'user',
+        ownerId: user.id,
+        field: 'avatarId',
+        label: user.displayName || user.username,
+        inTrash: false,
+      });
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Count the references to each media, keyed by getMediaKey
+ */
+export function getMediaReferenceCounts(): Map<string, number> {
+  const counts = new Map<string, number>();
+  collectMediaReferences().forEach(ref => {
+    const key = getMediaKey(ref.mediaId, ref.type);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Delete the given media once nothing references them anymore. A media
+ * shared with another card, theme, deck or avatar, or retained by
+ * retainMedia, is kept. Returns the
+ * number of media deleted.
+ */
+export async function releaseMedia(media: Array<{ id: string; type: MediaType }>): Promise<number> {
+  const counts = getMediaReferenceCounts();
+  const released = new Set<string>();
+  let deleted = 0;
+
+  for (const { id, type } of media) {
+    const key = getMediaKey(id, type);
+    if (released.has(key) || counts.get(key) || retainedMedia.has(key) || isRecentMedia(id)) continue;
+    released.add(key);
+
+    const success = type === 'image' ? await deleteImage(id) : await deleteAudio(id);
+    if (success) deleted++;
+  }
+  return deleted;
+}
@@ -3,84 +3,68 @@
 import { isBase64String } from './utils';
 import { FlashcardSide, Flashcard } from './types';
 import {
-  storeImage,
-  storeAudio,
+  storeMedia,
   getImage,
   getAudio,
-  deleteImage,
-  deleteAudio,
-  mediaExists,
   base64ToBlob,
-  blobToBase64,
-  generateMediaId
+  blobToBase64
 } from '../indexedDBStorage';
 
 /**
- * Process and store media from a flashcard side
+ * Convert a base64 data URL to a blob of the same content type
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const contentType = dataUrl.split(';')[0].split(':')[1];
+  return base64ToBlob(dataUrl, contentType);
+}
+
+/**
+ * Process and store media from a flashcard side. Rejects if a media
+ * could not be stored, so the card is never saved with a dangling id.
  */
 export async function processFlashcardMedia(side: FlashcardSide): Promise<FlashcardSide> {
   const result = { ...side };
 
-  try {
-    // Traitement de l'image
-    if (isBase64String(side.image)) {
-      // L'image est en base64, la migrer vers IndexedDB
-      const imageId = generateMediaId('img');
-      const contentType = side.image!.split(';')[0].split(':')[1];
-      const imageBlob = base64ToBlob(side.image!, contentType);
-      const success = await storeImage(imageId, imageBlob);
-      
-      if (success) {
-        result.imageId = imageId;
-        // Garde une référence temporaire à l'image pour l'affichage immédiat
-        // mais elle sera supprimée lors du chargement suivant
-        result.image = side.image;
-      }
-    } else if (side.imageId) {
-      // L'imageId existe déjà, vérifier si l'image existe dans IndexedDB
-      const exists = await mediaExists(side.imageId, 'image');
-      if (!exists && side.image) {
-        // L'image n'existe pas dans IndexedDB mais nous avons une image en base64
-        if (isBase64String(side.image)) {
-          const contentType = side.image.split(';')[0].split(':')[1];
-          const imageBlob = base64ToBlob(side.image, contentType);
-          await storeImage(side.imageId, imageBlob);
-        }
-      }
+  // Traitement de l'image
+  if (isBase64String(side.image)) {
+    // L'image est en base64, la migrer vers IndexedDB
+    const imageId = await storeMedia('image', dataUrlToBlob(side.image!));
+    if (!imageId) {
+      throw new Error("Impossible d'enregistrer l'image de la carte");
     }
-    
-    // Traitement de l'audio
-    if (isBase64String(side.audio)) {
-      // L'audio est en base64, le migrer vers IndexedDB
-      const audioId = generateMediaId('aud');
-      const contentType = side.audio!.split(';')[0].split(':')[1];
-      const audioBlob = base64ToBlob(side.audio!, contentType);
-      const success = await storeAudio(audioId, audioBlob);
-      
-      if (success) {
-        result.audioId = audioId;
-        // Garde une référence temporaire à l'audio pour l'affichage immédiat
-        result.audio = side.audio;
-      }
-    } else if (side.audioId) {
-      // L'audioId existe déjà, vérifier si l'audio existe dans IndexedDB
-      const exists = await mediaExists(side.audioId, 'audio');
-      if (!exists && side.audio) {
-        // L'audio n'existe pas dans IndexedDB mais nous avons un audio en base64
-        if (isBase64String(side.audio)) {
-          const contentType = side.audio.split(';')[0].split(':')[1];
-          const audioBlob = base64ToBlob(side.audio, contentType);
-          await storeAudio(side.audioId, audioBlob);
-        }
-      }
+    result.imageId = imageId;
+    // Garde une référence temporaire à l'image pour l'affichage immédiat
+    // mais elle sera supprimée lors du chargement suivant
+    result.image = side.image;
+  }
+
+  // Traitement de l'audio
+  if (isBase64String(side.audio)) {
+    // L'audio est en base64, le migrer vers IndexedDB
+    const audioId = await storeMedia('audio', dataUrlToBlob(side.audio!));
+    if (!audioId) {
+      throw new Error("Impossible d'enregistrer l'audio de la carte");
     }
-  } catch (error) {
-    console.error('Erreur lors du traitement des médias:', error);
+    result.audioId = audioId;
+    // Garde une référence temporaire à l'audio pour l'affichage immédiat
+    result.audio = side.audio;
   }
 
   return result;
 }
 
+/**
+ * Store a base64 cover image in IndexedDB and return its media id.
+ * Rejects if the image could not be stored.
+ */
+export async function storeCoverImage(dataUrl: string): Promise<string> {
+  const coverImageId = await storeMedia('image', dataUrlToBlob(dataUrl));
+  if (!coverImageId) {
+    throw new Error("Impossible d'enregistrer l'image de couverture");
+  }
+  return coverImageId;
+}
+
 /**
  * Load media for a flashcard from IndexedDB
  */
@@ -136,24 +120,22 @@ export async function migrateBase64MediaToIndexedDB(
   try {
     // Traiter l'image si présente
     if (isBase64String(imageBase64)) {
-      const imageId = generateMediaId('img');
       const contentType = imageBase64!.split(';')[0].split(':')[1];
       const imageBlob = base64ToBlob(imageBase64!, contentType);
-      const success = await storeImage(imageId, imageBlob);
+      const imageId = await storeMedia('image', imageBlob);
       
-      if (success) {
+      if (imageId) {
         result.imageId = imageId;
       }
     }
     
     // Traiter l'audio si présent
     if (isBase64String(audioBase64)) {
-      const audioId = generateMediaId('aud');
       const contentType = audioBase64!.split(';')[0].split(':')[1];
       const audioBlob = base64ToBlob(audioBase64!, contentType);
-      const success = await storeAudio(audioId, audioBlob);
+      const audioId = await storeMedia('audio', audioBlob);
       
-      if (success) {
+      if (audioId) {
         result.audioId = audioId;
       }
     }
@@ -0,0 +1,52 @@
+// Review log management functionality
+import { ReviewLog, generateId } from './types';
+import { getRecord, getRecords, putRecord, setRecords } from '../repository/recordStore';
+
+/**
+ * Append an entry to the review log. Only this entry is written to the
+ * backend, in the background.
+ */
+export function addReviewLog(logData: Omit<ReviewLog, 'id'>): ReviewLog {
+  const newLog: ReviewLog = {
+    ...logData,
+    id: generateId(),
+  };
+
+  putRecord('reviewLogs', newLog).catch(error => {
+    console.error('Erreur lors de l\'enregistrement de la révision:', error);
+  });
+
+  return newLog;
+}
+
+/**
+ * Get all review log entries, oldest first
+ */
+export function getReviewLogs(): ReviewLog[] {
+  return Object.values(getRecords('reviewLogs')).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Get review log entries by card ID
+ */
+export function getReviewLogsByCard(cardId: string): ReviewLog[] {
+  return getReviewLogs().filter(log => log.cardId === cardId);
+}
+
+/**
+ * Get review log entries by deck ID
+ */
+export function getReviewLogsByDeck(deckId: string): ReviewLog[] {
+  return getReviewLogs().filter(log => log.deckId === deckId);
+}
+
+/**
+ * Delete a review log entry
+ */
+export function deleteReviewLog(logId: string): boolean {
+  if (!getRecord('reviewLogs', logId)) return false;
+
+  const logs = getRecords('reviewLogs');
+  delete logs[logId];
+  return setRecords('reviewLogs', logs);
+}
@@ -0,0 +1,132 @@
+// Cross-deck review queue built from card schedules
+import { getLocalStorageItem, setLocalStorageItem } from './utils';
+import { getFlashcards } from './flashcardStorage';
+import { getCardSchedules } from './scheduleStorage';
+import { StudyItem, expandStudyItems } from './studyItems';
+import { CardSchedule } from '../scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewLimits {
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+}
+
+export interface DailyReviewCounts {
+  newCards: number;
+  reviews: number;
+}
+
+export interface ReviewQueueItem {
+  card: StudyItem;
+  schedule: CardSchedule | null; // null pour une carte jamais étudiée
+  isNew: boolean;
+  overdueDays: number;
+}
+
+export const DEFAULT_REVIEW_LIMITS: ReviewLimits = {
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+};
+
+// Les limites se réinitialisent à minuit heure locale, pas à minuit UTC
+const todayKey = (now: number = Date.now()): string => {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Get the per-day review limits
+ */
+export function getReviewLimits(): ReviewLimits {
+  return { ...DEFAULT_REVIEW_LIMITS, ...(getLocalStorageItem('reviewLimits') || {}) };
+}
+
+/**
+ * Update the per-day review limits
+ */
+export function setReviewLimits(limits: Partial<ReviewLimits>): ReviewLimits {
+  const updatedLimits = { ...getReviewLimits(), ...limits };
+  setLocalStorageItem('reviewLimits', updatedLimits);
+  return updatedLimits;
+}
+
+/**
+ * Get how many new cards and reviews were studied today
+ */
+export function getDailyReviewCounts(now: number = Date.now()): DailyReviewCounts {
+  const counts = getLocalStorageItem('dailyReviewCounts') || {};
+  return counts[todayKey(now)] || { newCards: 0, reviews: 0 };
+}
+
+/**
+ * Count a studied card against today's limits
+ */
+export function recordDailyReview(isNew: boolean, now: number = Date.now()): DailyReviewCounts {
+  const key = todayKey(now);
+  const today = getDailyReviewCounts(now);
+  const updated = {
+    newCards: today.newCards + (isNew ? 1 : 0),
+    reviews: today.reviews + (isNew ? 0 : 1),
+  };
+
+  // Seul le compteur du jour est conservé
+  setLocalStorageItem('dailyReviewCounts', { [key]: updated });
+  return updated;
+}
+
+/**
+ * Build the queue of cards to study today across all decks.
+ * Due cards come first, most overdue (relative to their interval) first,
+ * followed by new cards in creation order. When deckIds is given,
+ * only cards from those decks are considered.
+ */
+export function buildReviewQueue(
+  deckIds?: string[],
+  now: number = Date.now(),
+  limits: ReviewLimits = getReviewLimits()
+): ReviewQueueItem[] {
+  const deckFilter = deckIds ? new Set(deckIds) : null;
+  const schedules = new Map(getCardSchedules().map(schedule => [schedule.cardId, schedule]));
+  const counts = getDailyReviewCounts(now);
+
+  const dueItems: (ReviewQueueItem & { overdueRatio: number })[] = [];
+  const newItems: ReviewQueueItem[] = [];
+
+  const cards = getFlashcards().filter(card => !deckFilter || deckFilter.has(card.deckId));
+
+  expandStudyItems(cards).forEach(card => {
+    const schedule = schedules.get(card.id);
+
+    if (!schedule) {
+      newItems.push({ card, schedule: null, isNew: true, overdueDays: 0 });
+      return;
+    }
+
+    if (schedule.due <= now) {
+      const overdueDays = (now - schedule.due) / DAY_MS;
+      dueItems.push({
+        card,
+        schedule,
+        isNew: false,
+        overdueDays,
+        overdueRatio: overdueDays / Math.max(schedule.interval, 1),
+      });
+    }
+  });
+
+  const reviewSlots = Math.max(0, limits.reviewsPerDay - counts.reviews);
+  const newSlots = Math.max(0, limits.newCardsPerDay - counts.newCards);
+
+  const reviews = dueItems
+    .sort((a, b) => b.overdueRatio - a.overdueRatio)
+    .slice(0, reviewSlots)
+    .map(({ overdueRatio, ...item }) => item);
+
+  const newCards = newItems
+    .sort((a, b) => a.card.createdAt - b.card.createdAt)
+    .slice(0, newSlots);
+
+  return [...reviews, ...newCards];
+}
@@ -9,7 +9,7 @@ import { getLocalStorageItem } from './utils';
 /**
  * Generate sample data for demonstration
  */
-export function generateSampleData() {
+export async function generateSampleData(): Promise<void> {
   // Vérifier si les utilisateurs existent déjà
   const users = getLocalStorageItem('users');
   if (users) return;
@@ -19,48 +19,48 @@ export function generateSampleData() {
   setUser(demoUser);
   
   // Créer un deck d'exemple
-  const deckId = createDeck({
+  const deckId = (await createDeck({
     title: "Introduction à la programmation",
     description: "Concepts fondamentaux de la programmation informatique",
     tags: ["programmation", "informatique", "débutant"],
     isPublic: true
-  }).id;
+  })).id;
   
   // Créer des thèmes pour ce deck
   const themeIds = [
-    createTheme({
+    (await createTheme({
       deckId,
       title: "Variables et Types",
       description: "Les bases des variables et des types de données"
-    }).id,
-    createTheme({
+    })).id,
+    (await createTheme({
       deckId,
       title: "Conditions",
       description: "Les structures conditionnelles en programmation"
-    }).id,
-    createTheme({
+    })).id,
+    (await createTheme({
       deckId,
       title: "Boucles",
       description: "Les différentes boucles en programmation"
-    }).id
+    })).id
   ];
   
   // Créer des flashcards pour ces thèmes
-  createFlashcard({
+  await createFlashcard({
     deckId,
     themeId: themeIds[0],
     front: { text: "Qu'est-ce qu'une variable?" },
     back: { text: "Une variable est un espace nommé en mémoire qui peut stocker une valeur." }
   });
   
-  createFlashcard({
+  await createFlashcard({
     deckId,
     themeId: themeIds[0],
     front: { text: "Quels sont les types de base en JavaScript?" },
     back: { text: "String, Number, Boolean, null, undefined, Symbol et BigInt" }
   });
   
-  createFlashcard({
+  await createFlashcard({
     deckId,
     themeId: themeIds[1],
     front: { text: "Qu'est-ce qu'une condition 'if'?" },
@@ -70,7 +70,7 @@ export function generateSampleData() {
     }
   });
   
-  createFlashcard({
+  await createFlashcard({
     deckId,
     themeId: themeIds[2],
     front: { text: "Quelle est la différence entre une boucle 'for' et 'while'?" },
@@ -0,0 +1,105 @@
+// Spaced-repetition schedule management functionality
+import { Flashcard, ReviewLog } from './types';
+import { getLocalStorageItem, setLocalStorageItem } from './utils';
+import { recordFlashcardReview } from './flashcardStorage';
+import { addReviewLog } from './reviewLogStorage';
+import { getCardIdFromStudyItemId, getStudyItemDirection } from './studyItems';
+import { CardSchedule, ReviewGrade, getActiveScheduler } from '../scheduler';
+
+export interface ReviewContext {
+  studyMode?: string;
+  sessionId?: string;
+  checkMethod?: ReviewLog['checkMethod'];
+  responseTime?: number; // En millisecondes
+  now?: number;
+}
+
+// Difficulté ressentie associée à chaque note
+const GRADE_DIFFICULTY: Record<ReviewGrade, Flashcard['difficulty']> = {
+  again: 'hard',
+  hard: 'hard',
+  good: 'medium',
+  easy: 'easy',
+};
+
+/**
+ * Get the schedule of a card, or null if it has never been reviewed
+ */
+export function getCardSchedule(cardId: string): CardSchedule | null {
+  const schedules = getLocalStorageItem('cardSchedules') || {};
+  return schedules[cardId] || null;
+}
+
+/**
+ * Get all card schedules
+ */
+export function getCardSchedules(): CardSchedule[] {
+  const schedules = getLocalStorageItem('cardSchedules') || {};
+  return Object.values(schedules) as CardSchedule[];
+}
+
+/**
+ * Save a card schedule
+ */
+export function saveCardSchedule(schedule: CardSchedule): CardSchedule {
+  const schedules = getLocalStorageItem('cardSchedules') || {};
+  schedules[schedule.cardId] = schedule;
+  setLocalStorageItem('cardSchedules', schedules);
+  return schedule;
+}
+
+/**
+ * Apply a grade to a card (or one of its study items), compute its
+ * next due date and log the review
+ */
+export function reviewCard(itemId: string, grade: ReviewGrade, context: ReviewContext = {}): CardSchedule {
+  const now = context.now ?? Date.now();
+  const cardId = getCardIdFromStudyItemId(itemId);
+  const scheduler = getActiveScheduler();
+  const previous = getCardSchedule(itemId);
+  const current = previous || scheduler.createSchedule(itemId, now);
+  const next = scheduler.review(current, grade, now);
+
+  saveCardSchedule(next);
+  const card = recordFlashcardReview(cardId, now, GRADE_DIFFICULTY[grade]);
+
+  addReviewLog({
+    cardId,
+    itemId: itemId !== cardId ? itemId : undefined,
+    direction: getStudyItemDirection(itemId),
+    deckId: card?.deckId || '',
+    timestamp: now,
+    grade,
+    responseTime: context.responseTime,
+    studyMode: context.studyMode || 'flashcards',
+    sessionId: context.sessionId,
+    checkMethod: context.checkMethod,
+    previousInterval: current.interval,
+    nextInterval: next.interval,
+    previousDue: previous?.due,
+    nextDue: next.due,
+  });
+
+  return next;
+}
+
+/**
+ * Check whether a card is due for review
+ */
+export function isCardDue(cardId: string, now: number = Date.now()): boolean {
+  const schedule = getCardSchedule(cardId);
+  return !schedule || schedule.due <= now;
+}
+
+/**
+ * Delete the schedules of a card and of all its study items
+ */
+export function deleteCardSchedule(cardId: string): boolean {
+  const schedules = getLocalStorageItem('cardSchedules') || {};
+  const keys = Object.keys(schedules).filter(key => getCardIdFromStudyItemId(key) === cardId);
+  if (keys.length === 0) return false;
+
+  keys.forEach(key => delete schedules[key]);
+  setLocalStorageItem('cardSchedules', schedules);
+  return true;
+}
@@ -0,0 +1,217 @@
+// Storage usage per deck and per media type, with the actions freeing space
+import {
+  CardStorageUsage,
+  Deck,
+  DeckStorageUsage,
+  Flashcard,
+  FlashcardSide,
+  MediaType,
+  SharedDeckExport,
+  StorageUsageReport,
+  Theme,
+} from './types';
+import { getRecord, getRecords, putRecord } from '../repository/recordStore';
+import { getMediaKey, releaseMedia } from './mediaReferences';
+import { loadFlashcardMedia } from './mediaStorage';
+import { deleteDeck, exportDeckToJson } from './deckStorage';
+import { blobToBase64, getImage, listStoredMedia, recompressStoredImage } from '../indexedDBStorage';
+
+// Part du quota à partir de laquelle l'utilisateur est averti
+const QUOTA_WARNING_RATIO = 0.8;
+const LARGEST_CARDS_COUNT = 5;
+
+type MediaItem = { id: string; type: MediaType };
+
+// Taille approximative d'un enregistrement sérialisé
+const recordSize = (record: unknown): number => JSON.stringify(record).length;
+
+const sideMedia = (side: FlashcardSide): MediaItem[] => [
+  ...(side.imageId ? [{ id: side.imageId, type: 'image' as const }] : []),
+  ...(side.audioId ? [{ id: side.audioId, type: 'audio' as const }] : []),
+];
+
+const cardMedia = (card: Flashcard): MediaItem[] => [...sideMedia(card.front), ...sideMedia(card.back)];
+
+const coverMedia = (record: Deck | Theme): MediaItem[] =>
+  record.coverImageId ? [{ id: record.coverImageId, type: 'image' }] : [];
+
+const getDeckRecords = (deckId: string) => {
+  const deck = getRecord('decks', deckId);
+  if (!deck) throw new Error("Ce deck n'existe plus");
+  return {
+    deck,
+    themes: Object.values(getRecords('themes')).filter(theme => theme.deckId === deckId),
+    flashcards: Object.values(getRecords('flashcards')).filter(card => card.deckId === deckId),
+  };
+};
+
+/**
+ * Compute the storage used by each deck and each media type, the largest
+ * cards and the browser estimate of the origin quota
+ */
+export async function getStorageUsage(): Promise<StorageUsageReport> {
+  const stored = await listStoredMedia();
+  const mediaSizes = new Map(stored.map(media => [getMediaKey(media.id, media.type), media.size]));
+
+  // Chaque média n'est compté qu'une fois par deck
+  const sumMedia = (media: MediaItem[], type: MediaType) => {
+    const keys = new Set(media.filter(item => item.type === type).map(item => getMediaKey(item.id, item.type)));
+    return Array.from(keys).reduce((total, key) => total + (mediaSizes.get(key) || 0), 0);
+  };
+
+  const themes = Object.values(getRecords('themes'));
+  const flashcards = Object.values(getRecords('flashcards'));
+
+  const decks: DeckStorageUsage[] = Object.values(getRecords('decks')).map(deck => {
+    const deckThemes = themes.filter(theme => theme.deckId === deck.id);
+    const deckCards = flashcards.filter(card => card.deckId === deck.id);
+    const media = [
+      ...coverMedia(deck),
+      ...deckThemes.flatMap(coverMedia),
+      ...deckCards.flatMap(cardMedia),
+    ];
+    const recordsSize = [deck, ...deckThemes, ...deckCards].reduce((total, record) => total + recordSize(record), 0);
+    const imageSize = sumMedia(media, 'image');
+    const audioSize = sumMedia(media, 'audio');
+
+    return {
+      deckId: deck.id,
+      title: deck.title,
+      cardCount: deckCards.length,
+      recordsSize,
+      imageSize,
+      audioSize,
+      totalSize: recordsSize + imageSize + audioSize,
+    };
+  });
+
+  const largestCards: CardStorageUsage[] = flashcards
+    .map(card => ({
+      cardId: card.id,
+      deckId: card.deckId,
+      label: card.front.text,
+      size: recordSize(card) + sumMedia(cardMedia(card), 'image') + sumMedia(cardMedia(card), 'audio'),
+    }))
+    .sort((a, b) => b.size - a.size)
+    .slice(0, LARGEST_CARDS_COUNT);
+
+  const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+    ? await navigator.storage.estimate().catch(() => null)
+    : null;
+
+  return {
+    usage: estimate?.usage,
+    quota: estimate?.quota,
+    nearQuota: !!estimate?.quota && (estimate.usage || 0) / estimate.quota >= QUOTA_WARNING_RATIO,
+    recordsSize: (['decks', 'themes', 'flashcards', 'trash'] as const)
+      .reduce((total, collection) => total + recordSize(getRecords(collection)), 0),
+    imageSize: stored.filter(media => media.type === 'image').reduce((total, media) => total + media.size, 0),
+    audioSize: stored.filter(media => media.type === 'audio').reduce((total, media) => total + media.size, 0),
+    decks: decks.sort((a, b) => b.totalSize - a.totalSize),
+    largestCards,
+  };
+}
+
+/**
+ * Re-encode the images of a deck with a lower quality. A lighter image is
+ * stored under its own content id and only the records of this deck are
+ * pointed at it: the original is deleted once no other deck uses it. The
+ * base64 copies kept in the records are replaced when the stored version is
+ * lighter. Returns the number of images recompressed.
+ */
+export async function recompressDeckImages(deckId: string): Promise<number> {
+  const { deck, themes, flashcards } = getDeckRecords(deckId);
+  const imageIds = new Set(
+    [...coverMedia(deck), ...themes.flatMap(coverMedia), ...flashcards.flatMap(cardMedia)]
+      .filter(media => media.type === 'image')
+      .map(media => media.id)
+  );
+
+  const recompressedIds = new Map<string, string>();
+  const dataUrls = new Map<string, string>();
+  for (const imageId of imageIds) {
+    const result = await recompressStoredImage(imageId);
+    if (result) recompressedIds.set(imageId, result.id);
+
+    const stored = result?.blob || await getImage(imageId);
+    if (stored) dataUrls.set(imageId, await blobToBase64(stored));
+  }
+
+  const lighter = (dataUrl: string | undefined, imageId: string | undefined) => {
+    const storedUrl = imageId ? dataUrls.get(imageId) : undefined;
+    return dataUrl && storedUrl && storedUrl.length < dataUrl.length ? storedUrl : dataUrl;
+  };
+  const newImageId = (imageId: string | undefined) =>
+    imageId ? recompressedIds.get(imageId) ?? imageId : imageId;
+
+  for (const record of [deck, ...themes]) {
+    const coverImage = lighter(record.coverImage, record.coverImageId);
+    const coverImageId = newImageId(record.coverImageId);
+    if (coverImage === record.coverImage && coverImageId === record.coverImageId) continue;
+    if ('deckId' in record) {
+      await putRecord('themes', { ...record, coverImage, coverImageId });
+    } else {
+      await putRecord('decks', { ...record, coverImage, coverImageId });
+    }
+  }
+
+  const recompressSide = (side: FlashcardSide): FlashcardSide => {
+    const image = lighter(side.image, side.imageId);
+    const imageId = newImageId(side.imageId);
+    return image === side.image && imageId === side.imageId ? side : { ...side, image, imageId };
+  };
+  for (const card of flashcards) {
+    const front = recompressSide(card.front);
+    const back = recompressSide(card.back);
+    if (front !== card.front || back !== card.back) {
+      await putRecord('flashcards', { ...card, front, back });
+    }
+  }
+
+  // Les images d'origine encore utilisées ailleurs sont conservées
+  await releaseMedia([...recompressedIds.keys()].map(id => ({ id, type: 'image' as const })));
+
+  return recompressedIds.size;
+}
+
+const withoutAudio = (side: FlashcardSide): FlashcardSide => ({ ...side, audio: undefined, audioId: undefined });
+
+/**
+ * Remove the audio of every card of a deck. The audio files are deleted
+ * unless another record still uses them. Returns the number of cards
+ * changed.
+ */
+export async function stripDeckAudio(deckId: string): Promise<number> {
+  const { flashcards } = getDeckRecords(deckId);
+  const cards = flashcards.filter(card =>
+    card.front.audio || card.front.audioId || card.back.audio || card.back.audioId
+  );
+
+  for (const card of cards) {
+    await putRecord('flashcards', { ...card, front: withoutAudio(card.front), back: withoutAudio(card.back) });
+  }
+
+  await releaseMedia(cards.flatMap(cardMedia).filter(media => media.type === 'audio'));
+  return cards.length;
+}
+
+/**
+ * Export a deck with the media of its cards inlined, so that it can be
+ * imported again once offloaded
+ */
+export async function exportDeckWithMedia(deckId: string): Promise<SharedDeckExport> {
+  const exportData = exportDeckToJson(deckId);
+  return {
+    ...exportData,
+    flashcards: await Promise.all(exportData.flashcards.map(loadFlashcardMedia)),
+  };
+}
+
+/**
+ * Remove an exported deck from this device. Like any deleted deck it
+ * goes to the trash and can be restored until the trash is purged,
+ * which then frees its media.
+ */
+export function offloadDeck(deckId: string): void {
+  if (!deleteDeck(deckId)) throw new Error("Ce deck n'existe plus");
+}
@@ -0,0 +1,117 @@
+// Study items: the unit that is shown, graded and scheduled
+import { Flashcard, StudyDirection } from './types';
+import { getRecords } from '../repository/recordStore';
+import { getClozeAnswer, getClozeIndices, renderClozeFront } from '../cloze';
+
+const ITEM_SEPARATOR = '::';
+const REVERSE_SUFFIX = 'r';
+
+export type StudyItemDirection = Exclude<StudyDirection, 'both'>;
+
+export interface StudyItem extends Flashcard {
+  cardId: string; // Carte source ; `id` est l'identifiant de l'élément
+  direction: StudyItemDirection; // En sens inverse, recto et verso sont échangés
+  cloze?: {
+    text: string; // Texte source avec ses marqueurs
+    index: number;
+  };
+}
+
+/**
+ * Build the study item id of a card, of one of its clozes or of its
+ * reverse direction
+ */
+export function getStudyItemId(cardId: string, clozeIndex?: number, direction: StudyItemDirection = 'forward'): string {
+  if (clozeIndex !== undefined) return `${cardId}${ITEM_SEPARATOR}c${clozeIndex}`;
+  return direction === 'reverse' ? `${cardId}${ITEM_SEPARATOR}${REVERSE_SUFFIX}` : cardId;
+}
+
+/**
+ * Get the card id a study item id belongs to
+ */
+export function getCardIdFromStudyItemId(itemId: string): string {
+  return itemId.split(ITEM_SEPARATOR)[0];
+}
+
+/**
+ * Get the direction a study item id is studied in
+ */
+export function getStudyItemDirection(itemId: string): StudyItemDirection {
+  return itemId.split(ITEM_SEPARATOR)[1] === REVERSE_SUFFIX ? 'reverse' : 'forward';
+}
+
+// Lecture directe : getDeck déclencherait le chargement de l'image de couverture
+const getDeckStudyDirection = (deckId: string): StudyDirection => {
+  const decks = getRecords('decks');
+  return decks[deckId]?.studyDirection || 'forward';
+};
+
+/**
+ * Resolve the study direction of a card: its own setting, else its deck's
+ */
+export function getCardStudyDirection(card: Flashcard, deckDirection?: StudyDirection): StudyDirection {
+  return card.studyDirection || deckDirection || getDeckStudyDirection(card.deckId);
+}
+
+/**
+ * Expand a card into its study items: one per cloze index for cloze
+ * cards, one per studied direction otherwise
+ */
+export function getStudyItems(card: Flashcard, deckDirection?: StudyDirection): StudyItem[] {
+  const indices = card.type === 'cloze' ? getClozeIndices(card.front.text) : [];
+
+  if (indices.length === 0) {
+    const direction = getCardStudyDirection(card, deckDirection);
+    const items: StudyItem[] = [];
+
+    if (direction !== 'reverse') {
+      items.push({ ...card, cardId: card.id, direction: 'forward' });
+    }
+    if (direction !== 'forward') {
+      items.push({
+        ...card,
+        id: getStudyItemId(card.id, undefined, 'reverse'),
+        cardId: card.id,
+        direction: 'reverse',
+        front: card.back,
+        back: card.front,
+      });
+    }
+    return items;
+  }
+
+  // Le verso d'une carte à trous sert de note complémentaire
+  const notes = [card.back.text, card.back.additionalInfo].filter(Boolean).join('\n');
+
+  return indices.map(index => ({
+    ...card,
+    id: getStudyItemId(card.id, index),
+    cardId: card.id,
+    direction: 'forward' as const,
+    front: { ...card.front, text: renderClozeFront(card.front.text, index) },
+    back: {
+      ...card.back,
+      text: getClozeAnswer(card.front.text, index),
+      additionalInfo: notes || undefined,
+      // Les réponses acceptées du verso ne concernent pas les trous
+      acceptedAnswers: undefined,
+      displayAnswer: undefined,
+    },
+    cloze: { text: card.front.text, index },
+  }));
+}
+
+/**
+ * Expand a list of cards into study items, keeping their order
+ */
+export function expandStudyItems(cards: Flashcard[]): StudyItem[] {
+  // Un seul accès au deck par deck plutôt que par carte
+  const deckDirections = new Map<string, StudyDirection>();
+
+  return cards.flatMap(card => {
+    if (!deckDirections.has(card.deckId)) {
+      deckDirections.set(card.deckId, getDeckStudyDirection(card.deckId));
+    }
+    return getStudyItems(card, deckDirections.get(card.deckId));
+  });
+}
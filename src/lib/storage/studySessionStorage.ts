@@ -1,4 +1,3 @@
-
 // Study session management functionality
 import { StudySession, generateId } from './types';
 import { getLocalStorageItem, setLocalStorageItem } from './utils';
@@ -20,6 +19,14 @@ export function createStudySession(sessionData: Partial<StudySession> & { deckId
     cardsReviewed: sessionData.cardsReviewed || 0,
     correctAnswers: sessionData.correctAnswers || 0,
     incorrectAnswers: sessionData.incorrectAnswers || 0,
+    status: 'active',
+    studyMode: sessionData.studyMode,
+    themeId: sessionData.themeId,
+    shuffle: sessionData.shuffle || false,
+    cardOrder: sessionData.cardOrder || [],
+    currentIndex: sessionData.currentIndex || 0,
+    pausedDuration: 0,
+    lastActivityAt: timestamp,
   };
   
   sessions[id] = newSession;
@@ -28,6 +35,14 @@ export function createStudySession(sessionData: Partial<StudySession> & { deckId
   return newSession;
 }
 
+/**
+ * Get a study session by ID
+ */
+export function getStudySession(sessionId: string): StudySession | null {
+  const sessions = getLocalStorageItem('studySessions') || {};
+  return sessions[sessionId] || null;
+}
+
 /**
  * Update a study session
  */
@@ -37,7 +52,7 @@ export function updateStudySession(sessionId: string, updates: Partial<StudySess
   
   if (!session) return null;
   
-  const updatedSession = { ...session, ...updates };
+  const updatedSession = { ...session, ...updates, lastActivityAt: Date.now() };
   
   sessions[sessionId] = updatedSession;
   setLocalStorageItem('studySessions', sessions);
@@ -45,6 +60,84 @@ export function updateStudySession(sessionId: string, updates: Partial<StudySess
   return updatedSession;
 }
 
+/**
+ * Pause a study session
+ */
+export function pauseStudySession(sessionId: string): StudySession | null {
+  const session = getStudySession(sessionId);
+  if (!session || session.status !== 'active') return session;
+  
+  return updateStudySession(sessionId, { status: 'paused', pausedAt: Date.now() });
+}
+
+/**
+ * Resume a paused study session. A session left active (page closed or
+ * reloaded) is treated as paused since its last activity.
+ */
+export function resumeStudySession(sessionId: string): StudySession | null {
+  const session = getStudySession(sessionId);
+  if (!session || session.status === 'completed') return session;
+  
+  const idleSince = session.status === 'paused' ? session.pausedAt : session.lastActivityAt;
+  const pausedFor = idleSince ? Math.max(0, Date.now() - idleSince) : 0;
+  
+  return updateStudySession(sessionId, {
+    status: 'active',
+    pausedAt: undefined,
+    pausedDuration: (session.pausedDuration || 0) + pausedFor,
+  });
+}
+
+/**
+ * Mark a study session as completed
+ */
+export function completeStudySession(sessionId: string, endTime: number = Date.now()): StudySession | null {
+  const session = getStudySession(sessionId);
+  if (!session) return null;
+  if (session.status === 'completed') return session;
+  
+  // Une session en pause se termine au moment où elle a été mise en pause
+  const effectiveEnd = session.status === 'paused' && session.pausedAt ? session.pausedAt : endTime;
+  
+  return updateStudySession(sessionId, {
+    status: 'completed',
+    endTime: effectiveEnd,
+    pausedAt: undefined,
+  });
+}
+
+/**
+ * Get the active duration of a study session in milliseconds, excluding pauses
+ */
+export function getStudySessionDuration(session: StudySession, now: number = Date.now()): number {
+  const end = session.endTime || (session.status === 'paused' && session.pausedAt ? session.pausedAt : now);
+  return Math.max(0, end - session.startTime - (session.pausedDuration || 0));
+}
+
+/**
+ * Get the most recent unfinished study session of a user for a deck
+ */
+export function getResumableStudySession(deckId: string, userId: string): StudySession | null {
+  const sessions = getStudySessionsByDeck(deckId)
+    .filter(session => session.userId === userId && session.status && session.status !== 'completed')
+    .sort((a, b) => (b.lastActivityAt || b.startTime) - (a.lastActivityAt || a.startTime));
+  
+  return sessions[0] || null;
+}
+
+/**
+ * Delete a study session
+ */
+export function deleteStudySession(sessionId: string): boolean {
+  const sessions = getLocalStorageItem('studySessions') || {};
+  if (!sessions[sessionId]) return false;
+  
+  delete sessions[sessionId];
+  setLocalStorageItem('studySessions', sessions);
+  
+  return true;
+}
+
 /**
  * Get study sessions by deck ID
  */
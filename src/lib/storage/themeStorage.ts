@@ -1,27 +1,22 @@
 
 // Theme management functionality
 import { Theme, generateId } from './types';
-import { getLocalStorageItem, setLocalStorageItem, isBase64String } from './utils';
-import { 
-  storeImage, 
-  deleteImage, 
-  getImage, 
-  blobToBase64, 
-  base64ToBlob, 
-  generateMediaId 
-} from '../indexedDBStorage';
+import { isBase64String } from './utils';
+import { getRecord, getRecords, putRecord } from '../repository/recordStore';
+import { moveToTrash } from './trashStorage';
+import { releaseMedia } from './mediaReferences';
+import { storeCoverImage } from './mediaStorage';
+import { getImage, blobToBase64 } from '../indexedDBStorage';
 
 /**
- * Create a new theme
+ * Create a new theme. Resolves once its cover image and the theme itself
+ * are stored.
  */
-export function createTheme(themeData: Partial<Theme> & { deckId: string }): Theme {
-  const themes = getLocalStorageItem('themes') || {};
-  
-  const id = generateId();
+export async function createTheme(themeData: Partial<Theme> & { deckId: string }): Promise<Theme> {
   const timestamp = Date.now();
   
   const newTheme: Theme = {
-    id,
+    id: generateId(),
     deckId: themeData.deckId,
     title: themeData.title || "Nouveau thème",
     description: themeData.description || "",
@@ -29,32 +24,15 @@ export function createTheme(themeData: Partial<Theme> & { deckId: string }): The
     coverImageId: themeData.coverImageId,
     createdAt: timestamp,
     updatedAt: timestamp,
+    sourceId: themeData.sourceId,
   };
   
-  // Traiter l'image de couverture si présente
+  // L'image de couverture est stockée avant le thème qui la référence
   if (isBase64String(newTheme.coverImage)) {
-    // Traitement asynchrone
-    (async () => {
-      try {
-        const coverImageId = generateMediaId('img');
-        const contentType = newTheme.coverImage!.split(';')[0].split(':')[1];
-        const imageBlob = base64ToBlob(newTheme.coverImage!, contentType);
-        const success = await storeImage(coverImageId, imageBlob);
-        
-        if (success) {
-          newTheme.coverImageId = coverImageId;
-          // Mettre à jour le thème dans localStorage
-          themes[id] = { ...newTheme };
-          setLocalStorageItem('themes', themes);
-        }
-      } catch (error) {
-        console.error('Erreur lors du traitement de l\'image de couverture:', error);
-      }
-    })();
+    newTheme.coverImageId = await storeCoverImage(newTheme.coverImage!);
   }
   
-  themes[id] = newTheme;
-  setLocalStorageItem('themes', themes);
+  await putRecord('themes', newTheme);
   
   return newTheme;
 }
@@ -63,7 +41,7 @@ export function createTheme(themeData: Partial<Theme> & { deckId: string }): The
  * Get a theme by ID
  */
 export function getTheme(themeId: string): Theme | null {
-  const themes = getLocalStorageItem('themes') || {};
+  const themes = getRecords('themes');
   const theme = themes[themeId];
   
   if (theme && theme.coverImageId) {
@@ -89,7 +67,7 @@ export function getTheme(themeId: string): Theme | null {
  * Get all themes
  */
 export function getThemes(): Theme[] {
-  const themes = getLocalStorageItem('themes') || {};
+  const themes = getRecords('themes');
   return Object.values(themes) as Theme[];
 }
 
@@ -97,81 +75,59 @@ export function getThemes(): Theme[] {
  * Get themes by deck ID
  */
 export function getThemesByDeck(deckId: string): Theme[] {
-  const themes = getLocalStorageItem('themes') || {};
+  const themes = getRecords('themes');
   return (Object.values(themes) as Theme[]).filter((theme: Theme) => theme.deckId === deckId);
 }
 
 /**
- * Update a theme
+ * Update a theme. Resolves once its new cover image and the theme itself
+ * are stored.
  */
-export function updateTheme(themeId: string, updates: Partial<Theme>): Theme | null {
-  const themes = getLocalStorageItem('themes') || {};
-  const theme = themes[themeId];
+export async function updateTheme(themeId: string, updates: Partial<Theme>): Promise<Theme | null> {
+  const theme = getRecord('themes', themeId);
   
   if (!theme) return null;
   
-  // Traiter l'image de couverture si présente et modifiée
-  if (isBase64String(updates.coverImage) && updates.coverImage !== theme.coverImage) {
-    // Traitement asynchrone
-    (async () => {
-      try {
-        // Supprimer l'ancienne image si elle existe
-        if (theme.coverImageId) {
-          await deleteImage(theme.coverImageId);
-        }
-        
-        const coverImageId = generateMediaId('img');
-        const contentType = updates.coverImage!.split(';')[0].split(':')[1];
-        const imageBlob = base64ToBlob(updates.coverImage!, contentType);
-        const success = await storeImage(coverImageId, imageBlob);
-        
-        if (success) {
-          // Mettre à jour le thème avec la nouvelle référence
-          theme.coverImageId = coverImageId;
-          theme.coverImage = updates.coverImage;
-          theme.updatedAt = Date.now();
-          themes[themeId] = { ...theme };
-          setLocalStorageItem('themes', themes);
-        }
-      } catch (error) {
-        console.error('Erreur lors du traitement de l\'image de couverture:', error);
-      }
-    })();
-    
-    // Ne pas inclure coverImage dans l'objet updates pour éviter la duplication
-    delete updates.coverImage;
+  const changes: Partial<Theme> = { ...updates };
+  
+  // Stocker la nouvelle image de couverture si elle a changé
+  const coverChanged = isBase64String(updates.coverImage) && updates.coverImage !== theme.coverImage;
+  if (coverChanged) {
+    changes.coverImageId = await storeCoverImage(updates.coverImage!);
   }
   
-  const updatedTheme = {
-    ...theme,
-    ...updates,
+  // Relire le thème : il a pu être modifié pendant le stockage de l'image
+  const latestTheme = getRecord('themes', themeId);
+  if (!latestTheme) return null;
+  
+  const updatedTheme: Theme = {
+    ...latestTheme,
+    ...changes,
     updatedAt: Date.now()
   };
   
-  themes[themeId] = updatedTheme;
-  setLocalStorageItem('themes', themes);
+  await putRecord('themes', updatedTheme);
+  
+  // L'ancienne image n'est supprimée qu'une fois le thème enregistré, et
+  // seulement si plus rien ne l'utilise
+  if (coverChanged && latestTheme.coverImageId) {
+    await releaseMedia([{ id: latestTheme.coverImageId, type: 'image' }]).catch(error => {
+      console.error('Erreur lors de la suppression de l\'ancienne image de couverture:', error);
+    });
+  }
   
   return updatedTheme;
 }
 
 /**
- * Delete a theme
+ * Move a theme to the trash. Its cards keep their link to it.
  */
 export function deleteTheme(themeId: string): boolean {
-  const themes = getLocalStorageItem('themes') || {};
-  const theme = themes[themeId];
+  const theme = getRecords('themes')[themeId];
   
   if (!theme) return false;
   
-  // Suppression de l'image de couverture si elle existe
-  if (theme.coverImageId) {
-    deleteImage(theme.coverImageId).catch(error => {
-      console.error('Erreur lors de la suppression de l\'image de couverture:', error);
-    });
-  }
-  
-  delete themes[themeId];
-  setLocalStorageItem('themes', themes);
+  moveToTrash('theme', { themes: [theme] });
   
   return true;
 }
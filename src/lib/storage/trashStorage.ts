@@ -0,0 +1,176 @@
+// Trash management: deleted decks, themes and cards can be restored until purged
+import { Deck, Flashcard, Theme, TrashEntry, TrashedEntity, generateId } from './types';
+import { getLocalStorageItem, setLocalStorageItem } from './utils';
+import { getRecord, getRecords, setRecords } from '../repository/recordStore';
+import { getCardSchedules, saveCardSchedule, deleteCardSchedule } from './scheduleStorage';
+import { getCardIdFromStudyItemId } from './studyItems';
+import { releaseMedia } from './mediaReferences';
+
+const RETENTION_SETTING_KEY = 'trashRetentionDays';
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the number of days deleted items are kept before being purged
+ */
+export function getTrashRetentionDays(): number {
+  const days = getLocalStorageItem(RETENTION_SETTING_KEY);
+  return typeof days === 'number' && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Set the number of days deleted items are kept before being purged
+ */
+export function setTrashRetentionDays(days: number): void {
+  setLocalStorageItem(RETENTION_SETTING_KEY, Math.max(1, Math.round(days)));
+}
+
+/**
+ * Move records to the trash. They are removed from their collections but
+ * their media and review schedules are kept with the entry.
+ */
+export function moveToTrash(
+  entity: TrashedEntity,
+  records: { decks?: Deck[]; themes?: Theme[]; flashcards?: Flashcard[] }
+): TrashEntry {
+  const decks = records.decks || [];
+  const themes = records.themes || [];
+  const flashcards = records.flashcards || [];
+
+  const cardIds = new Set(flashcards.map(card => card.id));
+  const schedules = getCardSchedules().filter(schedule =>
+    cardIds.has(getCardIdFromStudyItemId(schedule.cardId))
+  );
+
+  const main = entity === 'deck' ? decks[0] : entity === 'theme' ? themes[0] : flashcards[0];
+  const entry: TrashEntry = {
+    id: generateId(),
+    entity,
+    title: 'title' in main ? main.title : main.front.text,
+    deckId: 'deckId' in main ? main.deckId : main.id,
+    deletedAt: Date.now(),
+    decks,
+    themes,
+    flashcards,
+    schedules,
+  };
+
+  const removeFrom = <K extends 'decks' | 'themes' | 'flashcards'>(collection: K, ids: string[]) => {
+    if (ids.length === 0) return;
+    const current = getRecords(collection);
+    ids.forEach(id => delete current[id]);
+    setRecords(collection, current);
+  };
+
+  // L'entrée est écrite avant le retrait des enregistrements
+  const trash = getRecords('trash');
+  trash[entry.id] = entry;
+  setRecords('trash', trash);
+
+  removeFrom('flashcards', flashcards.map(card => card.id));
+  removeFrom('themes', themes.map(theme => theme.id));
+  removeFrom('decks', decks.map(deck => deck.id));
+  cardIds.forEach(cardId => deleteCardSchedule(cardId));
+
+  return entry;
+}
+
+/**
+ * Get the trash entries, most recently deleted first
+ */
+export function getTrashEntries(): TrashEntry[] {
+  return Object.values(getRecords('trash')).sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/**
+ * Find the most recent trash entry created by deleting the given record
+ */
+export function findTrashEntry(entity: TrashedEntity, recordId: string): TrashEntry | null {
+  return getTrashEntries().find(entry => {
+    if (entry.entity !== entity) return false;
+    const main = entity === 'deck' ? entry.decks[0] : entity === 'theme' ? entry.themes[0] : entry.flashcards[0];
+    return main?.id === recordId;
+  }) || null;
+}
+
+/**
+ * Put the records of a trash entry back where they were, with their
+ * media, theme links and review schedules. Fails if the deck of a theme
+ * or card no longer exists.
+ */
+export function restoreTrashEntry(entryId: string): TrashEntry {
+  const entry = getRecord('trash', entryId);
+  if (!entry) throw new Error("Cet élément n'est plus dans la corbeille");
+
+  if (entry.entity !== 'deck' && !getRecord('decks', entry.deckId)) {
+    throw new Error("Le deck de cet élément a été supprimé : restaurez-le d'abord");
+  }
+
+  const restore = <K extends 'decks' | 'themes' | 'flashcards'>(collection: K, items: Array<{ id: string }>) => {
+    if (items.length === 0) return;
+    const current = getRecords(collection);
+    items.forEach(item => {
+      current[item.id] = item as (typeof current)[string];
+    });
+    setRecords(collection, current);
+  };
+
+  restore('decks', entry.decks);
+  restore('themes', entry.themes);
+  restore('flashcards', entry.flashcards);
+  entry.schedules.forEach(schedule => saveCardSchedule(schedule));
+
+  const trash = getRecords('trash');
+  delete trash[entryId];
+  setRecords('trash', trash);
+
+  return entry;
+}
+
+// Supprime définitivement les médias des enregistrements d'une entrée
+// que plus aucun autre enregistrement n'utilise
+const deleteEntryMedia = async (entry: TrashEntry) => {
+  const imageIds = [
+    ...entry.decks.map(deck => deck.coverImageId),
+    ...entry.themes.map(theme => theme.coverImageId),
+    ...entry.flashcards.flatMap(card => [card.front.imageId, card.back.imageId]),
+  ].filter(Boolean) as string[];
+  const audioIds = entry.flashcards
+    .flatMap(card => [card.front.audioId, card.back.audioId])
+    .filter(Boolean) as string[];
+
+  await releaseMedia([
+    ...imageIds.map(id => ({ id, type: 'image' as const })),
+    ...audioIds.map(id => ({ id, type: 'audio' as const })),
+  ]);
+};
+
+/**
+ * Permanently delete trash entries and their media
+ */
+export async function purgeTrashEntries(entryIds: string[]): Promise<number> {
+  const trash = getRecords('trash');
+  const entries = entryIds.map(id => trash[id]).filter(Boolean);
+  if (entries.length === 0) return 0;
+
+  entries.forEach(entry => delete trash[entry.id]);
+  setRecords('trash', trash);
+
+  for (const entry of entries) {
+    try {
+      await deleteEntryMedia(entry);
+    } catch (error) {
+      console.error('Erreur lors de la suppression des médias:', error);
+    }
+  }
+  return entries.length;
+}
+
+/**
+ * Permanently delete the entries older than the retention period
+ */
+export function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  const limit = now - getTrashRetentionDays() * DAY_MS;
+  const expired = getTrashEntries().filter(entry => entry.deletedAt < limit);
+  return purgeTrashEntries(expired.map(entry => entry.id));
+}
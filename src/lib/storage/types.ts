@@ -1,5 +1,6 @@
 // Common data type definitions for the storage system
 import { v4 as uuidv4 } from 'uuid';
+import { CardSchedule, ReviewGrade } from '../scheduler/types';
 
 // Interfaces de données
 export interface User {
@@ -19,6 +20,9 @@ export interface User {
   };
 }
 
+// Sens d'étude : recto→verso, verso→recto ou les deux
+export type StudyDirection = 'forward' | 'reverse' | 'both';
+
 export interface Deck {
   id: string;
   title: string;
@@ -34,6 +38,8 @@ export interface Deck {
   isShared?: boolean;
   originalId?: string;
   isPublished?: boolean;
+  studyDirection?: StudyDirection; // 'forward' par défaut
+  sourceHashes?: SourceHashes; // Deck importé : titre, description, sens d'étude et couverture
 }
 
 export interface Theme {
@@ -45,6 +51,8 @@ export interface Theme {
   coverImageId?: string; // Référence à l'image stockée dans IndexedDB
   createdAt: number;
   updatedAt: number;
+  sourceId?: string; // Id du thème dans le deck source, pour les decks importés
+  sourceHashes?: SourceHashes; // Titre, description et couverture
 }
 
 export interface FlashcardSide {
@@ -54,12 +62,19 @@ export interface FlashcardSide {
   audio?: string;
   audioId?: string; // Référence à l'audio stocké dans IndexedDB
   additionalInfo?: string;
+  acceptedAnswers?: string[]; // Autres réponses acceptées quand ce côté est la réponse attendue
+  displayAnswer?: string; // Réponse de référence affichée après correction (`text` par défaut)
 }
 
+// 'cloze' : le texte du recto contient des marqueurs {{c1::...}}
+export type FlashcardType = 'basic' | 'cloze';
+
 export interface Flashcard {
   id: string;
   deckId: string;
   themeId?: string;
+  type?: FlashcardType; // 'basic' par défaut
+  studyDirection?: StudyDirection; // Hérite du deck si absent
   front: FlashcardSide;
   back: FlashcardSide;
   createdAt: number;
@@ -67,8 +82,33 @@ export interface Flashcard {
   lastReviewed?: number;
   reviewCount?: number;
   difficulty?: 'easy' | 'medium' | 'hard';
+  source?: FlashcardSource; // Carte d'un deck importé, liée à sa carte dans le deck source
+  sourceConflict?: FlashcardSourceConflict;
+}
+
+// Empreintes comparées à chaque mise à jour d'un deck importé pour savoir
+// quel côté a modifié le deck, un thème ou une carte depuis la fusion précédente
+export interface SourceHashes {
+  upstreamHash: string; // Version source lors de la dernière fusion
+  localHash: string; // Version locale juste après cette fusion
+}
+
+export interface FlashcardSource extends SourceHashes {
+  id: string; // Id de la carte dans le deck source
+}
+
+// Version source non appliquée car la carte a aussi été modifiée localement
+export interface FlashcardSourceConflict {
+  type?: FlashcardType;
+  studyDirection?: StudyDirection;
+  themeId?: string;
+  front: FlashcardSide;
+  back: FlashcardSide;
+  detectedAt: number;
 }
 
+export type StudySessionStatus = 'active' | 'paused' | 'completed';
+
 export interface StudySession {
   id: string;
   deckId: string;
@@ -78,19 +118,171 @@ export interface StudySession {
   cardsReviewed: number;
   correctAnswers: number;
   incorrectAnswers: number;
+  status?: StudySessionStatus;
+  studyMode?: string;
+  themeId?: string;
+  shuffle?: boolean;
+  cardOrder?: string[]; // Ordre des cartes (après mélange) pour reprendre la session
+  currentIndex?: number;
+  pausedAt?: number;
+  pausedDuration?: number; // Temps total passé en pause, en millisecondes
+  lastActivityAt?: number;
+}
+
+export interface ReviewLog {
+  id: string;
+  cardId: string;
+  itemId?: string; // Élément d'étude (ex: trou d'une carte cloze) quand il diffère de la carte
+  direction?: Exclude<StudyDirection, 'both'>;
+  deckId: string;
+  timestamp: number;
+  grade: ReviewGrade;
+  responseTime?: number; // Temps de réponse en millisecondes
+  studyMode: string;
+  sessionId?: string;
+  checkMethod?: 'flip' | 'manual' | 'auto' | 'gemini' | 'choice';
+  previousInterval: number; // En jours
+  nextInterval: number; // En jours
+  previousDue?: number;
+  nextDue: number;
 }
 
 export interface SharedDeckExport {
+  formatVersion: number; // Voir DECK_EXPORT_VERSION ; absent des fichiers de la version 1
   id: string;
   originalId: string;
   title: string;
   description: string;
+  studyDirection?: StudyDirection;
+  coverImage?: string;
+  coverImageId?: string; // Dans une archive : nom du fichier de media/
   themes: Theme[];
   flashcards: Flashcard[];
   createdAt: number;
   updatedAt: number;
 }
 
+// Bilan de la fusion d'une nouvelle version d'un deck source dans sa copie importée
+export interface DeckMergeReport {
+  deckId: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: number; // Modifiées des deux côtés : signalées, la version locale est gardée
+  removed: number; // Retirées de la source, mises à la corbeille
+  detached: number; // Retirées de la source mais modifiées localement : gardées sans lien
+  deckUpdated: boolean; // Titre, description, sens d'étude ou couverture repris de la source
+  themesAdded: number;
+  themesUpdated: number;
+  themesRemoved: number; // Retirés de la source, mis à la corbeille
+  themesKept: number; // Modifiés des deux côtés, ou retirés de la source mais modifiés ou utilisés : gardés
+}
+
+// Sauvegarde complète des données de l'utilisateur, enregistrements indexés par id
+export interface ExportedData {
+  formatVersion: number; // Voir DATA_EXPORT_VERSION
+  timestamp: number;
+  user?: Record<string, User>;
+  decks?: Record<string, Deck>;
+  flashcards?: Record<string, Flashcard>;
+  themes?: Record<string, Theme>;
+  studySessions?: Record<string, StudySession>;
+  reviewLogs?: Record<string, ReviewLog>;
+  cardSchedules?: Record<string, CardSchedule>; // Indexés par id de carte ou d'élément d'étude
+  shareCodes?: Record<string, unknown>;
+  mediaIds?: string[];
+}
+
+// Élément supprimé : un deck (avec ses thèmes et cartes), un thème ou une carte
+export type TrashedEntity = 'deck' | 'theme' | 'card';
+
+export interface TrashEntry {
+  id: string;
+  entity: TrashedEntity;
+  title: string; // Titre du deck ou du thème, recto de la carte
+  deckId: string;
+  deletedAt: number;
+  // Enregistrements retirés, restaurés tels quels ; leurs médias sont
+  // conservés jusqu'à la purge
+  decks: Deck[];
+  themes: Theme[];
+  flashcards: Flashcard[];
+  schedules: CardSchedule[];
+}
+
+export type MediaType = 'image' | 'audio';
+
+// Champ d'un enregistrement qui désigne un média d'IndexedDB
+export interface MediaReference {
+  mediaId: string;
+  type: MediaType;
+  owner: TrashedEntity | 'user';
+  ownerId: string;
+  field: 'coverImageId' | 'avatarId' | 'front.imageId' | 'front.audioId' | 'back.imageId' | 'back.audioId';
+  label: string; // Titre du deck ou du thème, recto de la carte, nom de l'utilisateur
+  inTrash: boolean;
+}
+
+export interface OrphanMedia {
+  id: string;
+  type: MediaType;
+  size: number;
+}
+
+export interface MediaIntegrityReport {
+  scannedAt: number;
+  storedCount: number;
+  referenceCount: number;
+  orphans: OrphanMedia[]; // Médias qu'aucun enregistrement ne désigne
+  orphanSize: number;
+  brokenReferences: MediaReference[]; // Références vers un média absent
+}
+
+// Tailles en octets ; un média partagé compte dans chaque deck qui l'utilise
+export interface DeckStorageUsage {
+  deckId: string;
+  title: string;
+  cardCount: number;
+  recordsSize: number; // Deck, thèmes et cartes, copies base64 comprises
+  imageSize: number;
+  audioSize: number;
+  totalSize: number;
+}
+
+export interface CardStorageUsage {
+  cardId: string;
+  deckId: string;
+  label: string;
+  size: number;
+}
+
+export interface StorageUsageReport {
+  usage?: number; // Estimation du navigateur, toutes données de l'origine
+  quota?: number;
+  nearQuota: boolean;
+  recordsSize: number;
+  imageSize: number;
+  audioSize: number;
+  decks: DeckStorageUsage[]; // Du plus volumineux au plus léger
+  largestCards: CardStorageUsage[];
+}
+
+// Rôle d'une colonne d'un fichier CSV dans l'assistant d'import
+export type CsvColumnRole = 'ignore' | 'front' | 'back' | 'additionalInfo' | 'theme' | 'tags';
+
+// Ligne du fichier convertie en carte, prête à être importée
+export interface CsvCardDraft {
+  line: number;
+  front: string;
+  back: string;
+  additionalInfo?: string;
+  theme?: string;
+  tags: string[];
+}
+
+// Deck existant ou nouveau deck à créer
+export type CsvImportTarget = { deckId: string } | { title: string };
+
 // Generate new IDs
 export const generateId = (): string => {
   return uuidv4();
@@ -0,0 +1,178 @@
+// Lecture et écriture des archives zip (paquets Anki, decks avec médias)
+// avec les flux de compression du navigateur
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * A file of a zip archive, decompressed on demand
+ */
+export interface ZipEntry {
+  name: string;
+  size: number; // Taille décompressée
+  read: () => Promise<ArrayBuffer>;
+}
+
+// Le répertoire central est à la fin, après un éventuel commentaire de 64 Ko maximum
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Archive zip invalide");
+};
+
+const inflate = async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error("Votre navigateur ne permet pas de lire les archives compressées");
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+/**
+ * List the files of a zip archive. Encrypted and zip64 archives are rejected.
+ */
+export function readZip(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error("Les archives zip64 ne sont pas prises en charge");
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("Archive zip invalide");
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 1) throw new Error("Les archives zip chiffrées ne sont pas prises en charge");
+    if (compressedSize === 0xffffffff || headerOffset === 0xffffffff) {
+      throw new Error("Les archives zip64 ne sont pas prises en charge");
+    }
+
+    entries.set(name, {
+      name,
+      size,
+      read: async () => {
+        if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) throw new Error("Archive zip invalide");
+        // L'en-tête local peut avoir un champ extra différent de celui du répertoire central
+        const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+        const data = buffer.slice(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORED) return data;
+        if (method === METHOD_DEFLATE) return inflate(data);
+        throw new Error(`Méthode de compression non prise en charge : ${method}`);
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * A file to write in a zip archive
+ */
+export interface ZipFileInput {
+  name: string;
+  data: Blob | string;
+  compress?: boolean; // Inutile pour les images et les sons, déjà compressés
+}
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const deflate = async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+// Date et heure au format MS-DOS des en-têtes zip
+const toDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/**
+ * Build a zip archive. Files are deflated when asked and supported by
+ * the browser, stored as is otherwise.
+ */
+export async function createZip(files: ZipFileInput[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const [time, date] = toDosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let offset = 0;
+  let centralSize = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const content = typeof file.data === 'string'
+      ? encoder.encode(file.data).buffer
+      : await file.data.arrayBuffer();
+    const shouldCompress = !!file.compress && typeof CompressionStream !== 'undefined';
+    const data = shouldCompress ? await deflate(content) : content;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true); // Noms en UTF-8
+    header.setUint16(8, shouldCompress ? METHOD_DEFLATE : METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc32(new Uint8Array(content)), true);
+    header.setUint32(18, data.byteLength, true);
+    header.setUint32(22, content.byteLength, true);
+    header.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    entry.setUint16(4, 20, true);
+    for (let i = 4; i < 30; i++) entry.setUint8(i + 2, header.getUint8(i));
+    entry.setUint32(42, offset, true);
+
+    parts.push(header, name, data);
+    centralDirectory.push(entry, name);
+    offset += 30 + name.length + data.byteLength;
+    centralSize += 46 + name.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
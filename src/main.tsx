@@ -1,5 +1,37 @@
-import { createRoot } from 'react-dom/client'
+import { createRoot, Root } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { initRepository, createMemoryBackend } from './lib/repository'
+import { hasPendingMigrations } from './lib/migrations'
+import { purgeExpiredTrash } from './lib/storage/trashStorage'
+import { initSearchIndex } from './lib/search'
+import DataMigrationScreen from './components/DataMigrationScreen'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const startApp = (root: Root) => {
+  root.render(<App />);
+
+  // Effacer les éléments restés dans la corbeille au-delà de leur durée de conservation
+  purgeExpiredTrash().catch(error => {
+    console.error("Erreur lors de la purge de la corbeille:", error);
+  });
+
+  // L'index de recherche est ouvert, ou reconstruit, en arrière-plan
+  initSearchIndex();
+};
+
+// Les decks, thèmes et cartes doivent être chargés avant le premier rendu
+initRepository()
+  .catch(error => {
+    console.error("Stockage indisponible, les données ne seront pas conservées:", error);
+    return initRepository([createMemoryBackend()]);
+  })
+  .then(() => {
+    const root = createRoot(document.getElementById("root")!);
+
+    // Les migrations en attente s'exécutent derrière un écran de progression
+    if (hasPendingMigrations()) {
+      root.render(<DataMigrationScreen onComplete={() => startApp(root)} />);
+    } else {
+      startApp(root);
+    }
+  });
@@ -18,7 +18,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { createDeck, getBase64, getUser } from "@/lib/localStorage";
+import { getBase64, getUser } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 
 const CreatePage = () => {
   const { toast } = useToast();
@@ -94,7 +95,7 @@ const CreatePage = () => {
     }
   };
 
-  const handleCreateDeck = () => {
+  const handleCreateDeck = async () => {
     if (!title.trim()) {
       toast({
         title: "Titre requis",
@@ -107,7 +108,7 @@ const CreatePage = () => {
     try {
       const userId = getUser()?.id || "anonymous";
 
-      const newDeck = createDeck({
+      const newDeck = await repository.createDeck({
         title: title.trim(),
         description: description.trim(),
         coverImage,
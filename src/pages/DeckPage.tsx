@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { 
   BookOpen, 
@@ -24,25 +24,32 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import FlashCard from "@/components/FlashCard";
 import ThemeCard from "@/components/ThemeCard";
 import FlashCardItem from "@/components/FlashCardItem";
 import ThemeImageUploader from "@/components/ThemeImageUploader";
+import UndoToastAction from "@/components/UndoToastAction";
+import ClozeHelper from "@/components/ClozeHelper";
+import StudyDirectionSelect from "@/components/StudyDirectionSelect";
+import AcceptedAnswersEditor from "@/components/AcceptedAnswersEditor";
+import { Checkbox } from "@/components/ui/checkbox";
+import { hasCloze } from "@/lib/cloze";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useScrollToHash } from "@/hooks/use-scroll-to-hash";
 
 import { 
-  getDeck, 
-  getThemesByDeck, 
-  getFlashcardsByDeck, 
   getUser, 
-  createTheme, 
-  createFlashcard, 
   getBase64, 
   Theme,
-  Flashcard
+  Flashcard,
+  FlashcardType,
+  StudyDirection
 } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { undoableRepository } from "@/lib/history";
 
 const DeckPage = () => {
   const { id } = useParams<{ id: string }>();
@@ -58,7 +65,11 @@ const DeckPage = () => {
   const [showCardDialog, setShowCardDialog] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [shareUrl, setShareUrl] = useState("");
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [moveTargetThemeId, setMoveTargetThemeId] = useState("");
   const isMobile = useIsMobile();
+  useScrollToHash(!isLoading && flashcards.length > 0);
   
   const [newTheme, setNewTheme] = useState({
     title: "",
@@ -68,52 +79,66 @@ const DeckPage = () => {
   
   const [newCard, setNewCard] = useState({
     themeId: "" as string | undefined,
+    type: "basic" as FlashcardType,
+    studyDirection: undefined as StudyDirection | undefined,
     front: {
       text: "",
       image: undefined as string | undefined,
       audio: undefined as string | undefined,
+      acceptedAnswers: undefined as string[] | undefined,
+      displayAnswer: undefined as string | undefined,
     },
     back: {
       text: "",
       image: undefined as string | undefined,
       audio: undefined as string | undefined,
+      acceptedAnswers: undefined as string[] | undefined,
+      displayAnswer: undefined as string | undefined,
     },
   });
   
   const [activeCardIndex, setActiveCardIndex] = useState(0);
+  const frontTextRef = useRef<HTMLTextAreaElement>(null);
   
   useEffect(() => {
     if (!id) return;
+    let deckAuthorId: string | null = null;
     
-    const deckData = getDeck(id);
-    if (!deckData) {
-      toast({
-        title: "Deck introuvable",
-        description: "Le deck que vous recherchez n'existe pas",
-        variant: "destructive",
-      });
-      navigate("/");
-      return;
-    }
-    
-    setDeck(deckData);
-    const currentUser = getUser();
-    setUser(currentUser);
-    setIsOwner(deckData.authorId === currentUser?.id);
-    
-    const deckThemes = getThemesByDeck(id);
-    setThemes(deckThemes);
-    
-    const deckCards = getFlashcardsByDeck(id);
-    setFlashcards(deckCards);
+    const loadDeck = async () => {
+      const deckData = await repository.getDeck(id);
+      if (!deckData) {
+        toast({
+          title: "Deck introuvable",
+          description: "Le deck que vous recherchez n'existe pas",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+      
+      deckAuthorId = deckData.authorId;
+      setDeck(deckData);
+      const currentUser = getUser();
+      setUser(currentUser);
+      setIsOwner(deckData.authorId === currentUser?.id);
+      
+      const [deckThemes, deckCards] = await Promise.all([
+        repository.getThemesByDeck(id),
+        repository.getFlashcardsByDeck(id),
+      ]);
+      setThemes(deckThemes);
+      setFlashcards(deckCards);
+      
+      setIsLoading(false);
+    };
     
-    setIsLoading(false);
+    loadDeck();
     
     const checkOwnershipInterval = setInterval(() => {
       const freshUser = getUser();
-      if (freshUser?.id !== user?.id) {
+      if (deckAuthorId && freshUser?.id !== user?.id) {
         setUser(freshUser);
-        setIsOwner(deckData.authorId === freshUser?.id);
+        setIsOwner(deckAuthorId === freshUser?.id);
       }
     }, 3000);
     
@@ -122,17 +147,23 @@ const DeckPage = () => {
     };
   }, [id, navigate, toast]);
   
-  const refreshThemes = () => {
+  const refreshThemes = async () => {
     if (!id) return;
-    const deckThemes = getThemesByDeck(id);
+    const deckThemes = await repository.getThemesByDeck(id);
     setThemes(deckThemes);
   };
 
-  const refreshFlashcards = () => {
+  const refreshFlashcards = async () => {
     if (!id) return;
-    const deckCards = getFlashcardsByDeck(id);
+    const deckCards = await repository.getFlashcardsByDeck(id);
     setFlashcards(deckCards);
   };
+
+  // Thèmes et cartes de ce deck modifiés ailleurs (autre page ou autre onglet)
+  useStorageChanges(() => {
+    refreshThemes();
+    refreshFlashcards();
+  }, ["theme", "card"], id);
   
   const handleThemeImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -243,7 +274,7 @@ const DeckPage = () => {
     }
   };
   
-  const createNewTheme = () => {
+  const createNewTheme = async () => {
     if (!id) return;
     
     if (!newTheme.title.trim()) {
@@ -256,7 +287,7 @@ const DeckPage = () => {
     }
     
     try {
-      const theme = createTheme({
+      const theme = await undoableRepository.createTheme({
         deckId: id,
         title: newTheme.title.trim(),
         description: newTheme.description.trim(),
@@ -273,7 +304,8 @@ const DeckPage = () => {
       
       toast({
         title: "Thème créé",
-        description: "Le thme a été ajouté avec succès",
+        description: "Le thème a été ajouté avec succès",
+        action: <UndoToastAction />,
       });
     } catch (error) {
       console.error("Error creating theme:", error);
@@ -285,7 +317,7 @@ const DeckPage = () => {
     }
   };
   
-  const createNewCard = () => {
+  const createNewCard = async () => {
     if (!id) return;
     
     if (!newCard.front.text.trim() && !newCard.front.image) {
@@ -297,7 +329,17 @@ const DeckPage = () => {
       return;
     }
     
-    if (!newCard.back.text.trim() && !newCard.back.image) {
+    if (newCard.type === "cloze" && !hasCloze(newCard.front.text)) {
+      toast({
+        title: "Aucun trou",
+        description: "Ajoutez au moins un trou {{c1::...}} au texte du recto",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // Le verso d'une carte à trous est facultatif
+    if (newCard.type !== "cloze" && !newCard.back.text.trim() && !newCard.back.image) {
       toast({
         title: "Contenu requis",
         description: "Veuillez ajouter du texte ou une image au verso de la carte",
@@ -307,18 +349,24 @@ const DeckPage = () => {
     }
     
     try {
-      const card = createFlashcard({
+      const card = await undoableRepository.createFlashcard({
         deckId: id,
         themeId: newCard.themeId || undefined,
+        type: newCard.type,
+        studyDirection: newCard.type === "cloze" ? undefined : newCard.studyDirection,
         front: {
           text: newCard.front.text.trim(),
           image: newCard.front.image,
           audio: newCard.front.audio,
+          acceptedAnswers: newCard.type === "cloze" ? undefined : newCard.front.acceptedAnswers,
+          displayAnswer: newCard.type === "cloze" ? undefined : newCard.front.displayAnswer?.trim() || undefined,
         },
         back: {
           text: newCard.back.text.trim(),
           image: newCard.back.image,
           audio: newCard.back.audio,
+          acceptedAnswers: newCard.type === "cloze" ? undefined : newCard.back.acceptedAnswers,
+          displayAnswer: newCard.type === "cloze" ? undefined : newCard.back.displayAnswer?.trim() || undefined,
         },
       });
       
@@ -326,21 +374,28 @@ const DeckPage = () => {
       setShowCardDialog(false);
       setNewCard({
         themeId: "",
+        type: "basic",
+        studyDirection: undefined,
         front: {
           text: "",
           image: undefined,
           audio: undefined,
+          acceptedAnswers: undefined,
+          displayAnswer: undefined,
         },
         back: {
           text: "",
           image: undefined,
           audio: undefined,
+          acceptedAnswers: undefined,
+          displayAnswer: undefined,
         },
       });
       
       toast({
         title: "Carte créée",
         description: "La flashcard a été ajoutée avec succès",
+        action: <UndoToastAction />,
       });
     } catch (error) {
       console.error("Error creating flashcard:", error);
@@ -352,6 +407,57 @@ const DeckPage = () => {
     }
   };
   
+  const toggleCardSelection = (cardId: string) => {
+    setSelectedCardIds(ids =>
+      ids.includes(cardId) ? ids.filter(selectedId => selectedId !== cardId) : [...ids, cardId]
+    );
+  };
+  
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedCardIds([]);
+  };
+  
+  const moveSelectedCards = async () => {
+    try {
+      const count = await undoableRepository.moveFlashcardsToTheme(selectedCardIds, moveTargetThemeId || undefined);
+      await refreshFlashcards();
+      stopSelecting();
+      toast({
+        title: "Cartes déplacées",
+        description: `${count} carte(s) déplacée(s)`,
+        action: <UndoToastAction />,
+      });
+    } catch (error) {
+      console.error("Error moving flashcards:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de déplacer les cartes",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const deleteSelectedCards = async () => {
+    try {
+      const count = await undoableRepository.deleteFlashcards(selectedCardIds);
+      await refreshFlashcards();
+      stopSelecting();
+      toast({
+        title: "Cartes supprimées",
+        description: `${count} carte(s) déplacée(s) dans la corbeille`,
+        action: <UndoToastAction />,
+      });
+    } catch (error) {
+      console.error("Error deleting flashcards:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de supprimer les cartes",
+        variant: "destructive",
+      });
+    }
+  };
+  
   // Fonction pour générer un code de partage temporaire
   const generateShareLink = () => {
     if (!id) return;
@@ -578,21 +684,68 @@ const DeckPage = () => {
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold">Cartes ({flashcards.length})</h2>
                 {deck?.authorId === getUser()?.id && (
-                  <Button variant="outline" size="sm" onClick={() => setShowCardDialog(true)}>
-                    <PlusIcon className="h-4 w-4 mr-1" />
-                    Ajouter une carte
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      {isSelecting ? "Terminer" : "Sélectionner"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setShowCardDialog(true)}>
+                      <PlusIcon className="h-4 w-4 mr-1" />
+                      Ajouter une carte
+                    </Button>
+                  </div>
                 )}
               </div>
               
+              {isSelecting && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4 p-3 border rounded-lg bg-secondary/20">
+                  <span className="text-sm font-medium flex-1">
+                    {selectedCardIds.length} carte(s) sélectionnée(s)
+                  </span>
+                  <select
+                    aria-label="Thème de destination"
+                    className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    value={moveTargetThemeId}
+                    onChange={(e) => setMoveTargetThemeId(e.target.value)}
+                  >
+                    <option value="">Aucun thème</option>
+                    {themes.map((theme) => (
+                      <option key={theme.id} value={theme.id}>
+                        {theme.title}
+                      </option>
+                    ))}
+                  </select>
+                  <Button size="sm" variant="outline" disabled={selectedCardIds.length === 0} onClick={moveSelectedCards}>
+                    <Layers className="h-4 w-4 mr-1" />
+                    Déplacer
+                  </Button>
+                  <Button size="sm" variant="destructive" disabled={selectedCardIds.length === 0} onClick={deleteSelectedCards}>
+                    Supprimer
+                  </Button>
+                </div>
+              )}
+              
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {flashcards.map((card) => (
-                  <FlashCardItem
-                    key={card.id}
-                    card={card}
-                    onDelete={refreshFlashcards}
-                    onUpdate={refreshFlashcards}
-                  />
+                  <div key={card.id} id={`card-${card.id}`} className="relative">
+                    {isSelecting && (
+                      <Checkbox
+                        aria-label="Sélectionner la carte"
+                        className="absolute top-2 left-2 z-10 bg-background"
+                        checked={selectedCardIds.includes(card.id)}
+                        onCheckedChange={() => toggleCardSelection(card.id)}
+                      />
+                    )}
+                    <FlashCardItem
+                      card={card}
+                      onDelete={refreshFlashcards}
+                      onUpdate={refreshFlashcards}
+                    />
+                  </div>
                 ))}
               </div>
             </div>
@@ -741,15 +894,37 @@ const DeckPage = () => {
               </div>
             )}
             
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="card-cloze"
+                checked={newCard.type === "cloze"}
+                onCheckedChange={(checked) => setNewCard({ ...newCard, type: checked ? "cloze" : "basic" })}
+              />
+              <Label htmlFor="card-cloze">Texte à trous</Label>
+            </div>
+            
+            {newCard.type !== "cloze" && (
+              <div className="space-y-2">
+                <Label htmlFor="card-direction">Sens d'étude</Label>
+                <StudyDirectionSelect
+                  id="card-direction"
+                  value={newCard.studyDirection}
+                  onChange={(studyDirection) => setNewCard({ ...newCard, studyDirection })}
+                  allowInherit
+                />
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="space-y-4 border p-4 rounded-lg">
-                <h3 className="font-medium">Recto de la carte</h3>
+                <h3 className="font-medium">{newCard.type === "cloze" ? "Texte à trous" : "Recto de la carte"}</h3>
                 
                 <div className="space-y-2">
                   <Label htmlFor="front-text">Texte</Label>
                   <Textarea
+                    ref={frontTextRef}
                     id="front-text"
-                    placeholder="Ex: Définition, question, mot..."
+                    placeholder={newCard.type === "cloze" ? "Ex: La capitale de la France est {{c1::Paris}}" : "Ex: Définition, question, mot..."}
                     rows={3}
                     value={newCard.front.text}
                     onChange={(e) => setNewCard({
@@ -757,8 +932,30 @@ const DeckPage = () => {
                       front: { ...newCard.front, text: e.target.value },
                     })}
                   />
+                  {newCard.type === "cloze" && (
+                    <ClozeHelper
+                      textareaRef={frontTextRef}
+                      value={newCard.front.text}
+                      onChange={(text) => setNewCard({
+                        ...newCard,
+                        front: { ...newCard.front, text },
+                      })}
+                    />
+                  )}
                 </div>
                 
+                {newCard.type !== "cloze" && (
+                  <AcceptedAnswersEditor
+                    id="new-front"
+                    acceptedAnswers={newCard.front.acceptedAnswers}
+                    displayAnswer={newCard.front.displayAnswer}
+                    onChange={(changes) => setNewCard({
+                      ...newCard,
+                      front: { ...newCard.front, ...changes },
+                    })}
+                  />
+                )}
+                
                 <div className="space-y-2">
                   <Label htmlFor="front-image">Image (optionnelle)</Label>
                   <Input
@@ -796,7 +993,7 @@ const DeckPage = () => {
               </div>
               
               <div className="space-y-4 border p-4 rounded-lg">
-                <h3 className="font-medium">Verso de la carte</h3>
+                <h3 className="font-medium">{newCard.type === "cloze" ? "Verso (facultatif)" : "Verso de la carte"}</h3>
                 
                 <div className="space-y-2">
                   <Label htmlFor="back-text">Texte</Label>
@@ -812,6 +1009,18 @@ const DeckPage = () => {
                   />
                 </div>
                 
+                {newCard.type !== "cloze" && (
+                  <AcceptedAnswersEditor
+                    id="new-back"
+                    acceptedAnswers={newCard.back.acceptedAnswers}
+                    displayAnswer={newCard.back.displayAnswer}
+                    onChange={(changes) => setNewCard({
+                      ...newCard,
+                      back: { ...newCard.back, ...changes },
+                    })}
+                  />
+                )}
+                
                 <div className="space-y-2">
                   <Label htmlFor="back-image">Image (optionnelle)</Label>
                   <Input
@@ -25,17 +25,19 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import StudyDirectionSelect from "@/components/StudyDirectionSelect";
+import UndoToastAction from "@/components/UndoToastAction";
 
 import { 
-  getDeck, 
-  updateDeck, 
-  deleteDeck, 
   getBase64, 
   getUser, 
-  Deck
+  Deck,
+  StudyDirection
 } from "@/lib/localStorage";
 
 import { publishDeck, unpublishDeck, updatePublishedDeck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { undoableRepository } from "@/lib/history";
 
 const EditDeckPage = () => {
   const { id } = useParams<{ id: string }>();
@@ -50,6 +52,7 @@ const EditDeckPage = () => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [isPublic, setIsPublic] = useState(false);
+  const [studyDirection, setStudyDirection] = useState<StudyDirection>("forward");
   const [coverImage, setCoverImage] = useState<string | undefined>(undefined);
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState("");
@@ -59,10 +62,10 @@ const EditDeckPage = () => {
   const [publishError, setPublishError] = useState<string | null>(null);
 
   // Function to load deck data
-  const loadDeck = () => {
+  const loadDeck = async () => {
     if (!id) return;
     
-    const deckData = getDeck(id);
+    const deckData = await repository.getDeck(id);
     if (!deckData) {
       toast({
         title: "Deck introuvable",
@@ -77,6 +80,7 @@ const EditDeckPage = () => {
     setTitle(deckData.title);
     setDescription(deckData.description);
     setIsPublic(deckData.isPublic);
+    setStudyDirection(deckData.studyDirection || "forward");
     setCoverImage(deckData.coverImage);
     setTags(deckData.tags || []);
   };
@@ -84,38 +88,43 @@ const EditDeckPage = () => {
   useEffect(() => {
     if (!id) return;
     
-    const deckData = getDeck(id);
-    if (!deckData) {
-      toast({
-        title: "Deck introuvable",
-        description: "Le deck que vous cherchez n'existe pas",
-        variant: "destructive",
-      });
-      navigate("/");
-      return;
-    }
+    const loadOwnDeck = async () => {
+      const deckData = await repository.getDeck(id);
+      if (!deckData) {
+        toast({
+          title: "Deck introuvable",
+          description: "Le deck que vous cherchez n'existe pas",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
     
-    const user = getUser();
-    const userIsOwner = deckData.authorId === user?.id;
+      const user = getUser();
+      const userIsOwner = deckData.authorId === user?.id;
     
-    if (!userIsOwner) {
-      toast({
-        title: "Accès refusé",
-        description: "Vous n'êtes pas autorisé à modifier ce deck",
-        variant: "destructive",
-      });
-      navigate(`/deck/${id}`);
-      return;
-    }
+      if (!userIsOwner) {
+        toast({
+          title: "Accès refusé",
+          description: "Vous n'êtes pas autorisé à modifier ce deck",
+          variant: "destructive",
+        });
+        navigate(`/deck/${id}`);
+        return;
+      }
     
-    setDeck(deckData);
-    setTitle(deckData.title);
-    setDescription(deckData.description);
-    setIsPublic(deckData.isPublic);
-    setCoverImage(deckData.coverImage);
-    setTags(deckData.tags || []);
-    setIsOwner(userIsOwner);
-    setIsLoading(false);
+      setDeck(deckData);
+      setTitle(deckData.title);
+      setDescription(deckData.description);
+      setIsPublic(deckData.isPublic);
+      setStudyDirection(deckData.studyDirection || "forward");
+      setCoverImage(deckData.coverImage);
+      setTags(deckData.tags || []);
+      setIsOwner(userIsOwner);
+      setIsLoading(false);
+    };
+
+    loadOwnDeck();
   }, [id, navigate, toast]);
   
   const handleSave = async () => {
@@ -131,10 +140,11 @@ const EditDeckPage = () => {
     }
     
     try {
-      const updatedDeck = updateDeck(id, {
+      const updatedDeck = await undoableRepository.updateDeck(id, {
         title: title.trim(),
         description: description.trim(),
         isPublic,
+        studyDirection,
         coverImage,
         tags,
       });
@@ -144,11 +154,12 @@ const EditDeckPage = () => {
         toast({
           title: "Deck mis à jour",
           description: "Les modifications ont été enregistrées avec succès",
+          action: <UndoToastAction />,
         });
         
         // Mettre à jour le deck publié si nécessaire
         if (updatedDeck && updatedDeck.isPublished) {
-          updatePublishedDeck(updatedDeck.id);
+          await updatePublishedDeck(updatedDeck.id);
         }
         
         navigate(`/deck/${id}`);
@@ -163,16 +174,17 @@ const EditDeckPage = () => {
     }
   };
   
-  const handleDeleteDeck = () => {
+  const handleDeleteDeck = async () => {
     if (!id) return;
     
     try {
-      const success = deleteDeck(id);
+      const success = await undoableRepository.deleteDeck(id);
       
       if (success) {
         toast({
           title: "Deck supprimé",
-          description: "Le deck a été supprimé avec succès",
+          description: "Le deck a été déplacé dans la corbeille",
+          action: <UndoToastAction />,
         });
         navigate("/home");
       }
@@ -232,19 +244,19 @@ const EditDeckPage = () => {
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
   
-  const handlePublish = () => {
+  const handlePublish = async () => {
     if (!deck) return;
     
     if (deck.isPublished) {
       // Dépublier le deck
-      unpublishDeck(deck.id);
+      await unpublishDeck(deck.id);
     } else {
       // Publier le deck
-      publishDeck(deck.id);
+      await publishDeck(deck.id);
     }
     
     // Recharger le deck
-    loadDeck();
+    await loadDeck();
     
     toast({
       title: deck.isPublished ? "Deck dépublié" : "Deck publié",
@@ -266,7 +278,7 @@ const EditDeckPage = () => {
           description: "Votre deck n'est plus visible dans l'explorateur",
         });
         
-        const updatedDeck = getDeck(id || '');
+        const updatedDeck = await repository.getDeck(id || '');
         if (updatedDeck) {
           setDeck(updatedDeck);
         }
@@ -520,6 +532,23 @@ const EditDeckPage = () => {
           
           <Separator className="bg-indigo-100 dark:bg-indigo-800/20" />
           
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="study-direction">Sens d'étude</Label>
+              <div className="text-sm text-muted-foreground">
+                En « Les deux sens », chaque carte est révisée et planifiée séparément dans chaque sens
+              </div>
+            </div>
+            <StudyDirectionSelect
+              id="study-direction"
+              value={studyDirection}
+              onChange={(value) => setStudyDirection(value || "forward")}
+              className="w-[180px]"
+            />
+          </div>
+          
+          <Separator className="bg-indigo-100 dark:bg-indigo-800/20" />
+          
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label htmlFor="public-switch">Visibilité</Label>
@@ -559,7 +588,7 @@ const EditDeckPage = () => {
           <DialogHeader>
             <DialogTitle>Confirmer la suppression</DialogTitle>
             <DialogDescription>
-              Êtes-vous sûr de vouloir supprimer ce deck ? Cette action est irréversible et toutes les cartes associées seront également supprimées.
+              Êtes-vous sûr de vouloir supprimer ce deck ? Il sera déplacé dans la corbeille avec ses thèmes et ses cartes, d'où vous pourrez le restaurer.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="flex space-x-2 justify-end">
@@ -567,7 +596,7 @@ const EditDeckPage = () => {
               Annuler
             </Button>
             <Button variant="destructive" onClick={handleDeleteDeck}>
-              Supprimer définitivement
+              Supprimer
             </Button>
           </DialogFooter>
         </DialogContent>
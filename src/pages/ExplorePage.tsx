@@ -7,7 +7,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { SearchIcon, Filter, X, FileUp } from "lucide-react";
 import DeckCard, { DeckCardProps } from "@/components/DeckCard";
-import { getDecks, getFlashcardsByDeck, Deck, getUser } from "@/lib/localStorage";
+import { Deck, getUser } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import ShareDeckDialog from "@/components/ShareDeckDialog";
@@ -17,8 +19,12 @@ const getSharedImportedDecks = () => {
   return [];
 };
 
+// Actualisation de secours quand le canal temps réel ne répond pas
+const FALLBACK_REFRESH_MS = 60 * 1000;
+
 const ExplorePage = () => {
   const [decks, setDecks] = useState<DeckCardProps[]>([]);
+  const [localDecks, setLocalDecks] = useState<Deck[]>([]);
   const [filteredDecks, setFilteredDecks] = useState<DeckCardProps[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [activeFilters, setActiveFilters] = useState<string[]>([]);
@@ -58,14 +64,16 @@ const ExplorePage = () => {
         isPublic: true
       }));
 
+      const storedDecks = await repository.getDecks();
+      setLocalDecks(storedDecks);
+
       // Si on est dans l'onglet "shared", ajouter les decks partagés importés
       if (activeTab === "shared") {
         const sharedDecks = getSharedImportedDecks();
-        const localDecks = getDecks();
         
-        const importedDeckCards = sharedDecks
-          .map(shared => {
-            const deck = localDecks.find(d => d.id === shared.localDeckId);
+        const importedDeckCards = (await Promise.all(sharedDecks
+          .map(async shared => {
+            const deck = storedDecks.find(d => d.id === shared.localDeckId);
             if (!deck) return null;
             
             return {
@@ -75,11 +83,11 @@ const ExplorePage = () => {
               coverImage: deck.coverImage,
               tags: deck.tags,
               author: "Importé",
-              cardCount: getFlashcardsByDeck(deck.id).length,
+              cardCount: (await repository.getFlashcardsByDeck(deck.id)).length,
               isPublic: deck.isPublic,
               isShared: true
             };
-          })
+          })))
           .filter(Boolean) as DeckCardProps[];
         
         // Combiner avec les decks publics
@@ -104,12 +112,35 @@ const ExplorePage = () => {
   useEffect(() => {
     loadPublicDecks();
     
-    // Set up periodic refresh
-    const intervalId = setInterval(loadPublicDecks, 5000);
+    // Les decks publiés ailleurs arrivent par le temps réel Supabase ; si le
+    // canal est indisponible, la liste est rechargée périodiquement
+    let fallbackId: ReturnType<typeof setInterval> | null = null;
+    const stopFallback = () => {
+      if (fallbackId) clearInterval(fallbackId);
+      fallbackId = null;
+    };
+
+    const channel = supabase
+      .channel('explore-public-decks')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'decks' }, () => loadPublicDecks())
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          stopFallback();
+        } else if ((status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') && !fallbackId) {
+          console.warn("Temps réel indisponible pour les decks publics, actualisation périodique");
+          fallbackId = setInterval(loadPublicDecks, FALLBACK_REFRESH_MS);
+        }
+      });
     
-    return () => clearInterval(intervalId);
+    return () => {
+      stopFallback();
+      supabase.removeChannel(channel);
+    };
   }, [activeTab]);
 
+  // Les decks importés sont locaux : recharger quand ils changent
+  useStorageChanges(() => loadPublicDecks(), ["deck", "card"]);
+
   useEffect(() => {
     filterDecks();
   }, [searchTerm, activeFilters, decks]);
@@ -264,8 +295,8 @@ const ExplorePage = () => {
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredDecks
               .sort((a, b) => {
-                const deckA = getDecks().find(d => d.id === a.id);
-                const deckB = getDecks().find(d => d.id === b.id);
+                const deckA = localDecks.find(d => d.id === a.id);
+                const deckB = localDecks.find(d => d.id === b.id);
                 if (!deckA || !deckB) return 0;
                 return new Date(deckB.createdAt).getTime() - new Date(deckA.createdAt).getTime();
               })
@@ -2,11 +2,13 @@
 // Corrigeons le problème dans HomePage.tsx
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
-import { getDecks, getUser, Deck } from "@/lib/localStorage";
+import { getUser, Deck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 import { Button } from "@/components/ui/button";
 import DeckCard from "@/components/DeckCard";
-import { BookOpen, ClipboardList, PlusIcon } from "lucide-react";
+import { BookOpen, CalendarCheck, ClipboardList, PlusIcon } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useStorageQuery } from "@/hooks/use-storage-changes";
 
 const HomePage = () => {
   const [recentDecks, setRecentDecks] = useState<Deck[]>([]);
@@ -14,28 +16,23 @@ const HomePage = () => {
   const [user, setUser] = useState(getUser());
   const isMobile = useIsMobile();
 
+  // Les decks sont rechargés à chaque modification, y compris dans un autre onglet
+  const { data: allDecks } = useStorageQuery(repository.getDecks, ['deck']);
+
   useEffect(() => {
-    // Charger les decks
-    const loadDecks = () => {
-      const allDecks = getDecks();
-      // Trier par date de dernière modification pour les decks récents
-      const recent = [...allDecks]
-        .filter(deck => deck.authorId === user?.id)
-        .sort((a, b) => b.updatedAt - a.updatedAt)
-        .slice(0, 3);
-      
-      setRecentDecks(recent);
-      
-      // Simuler des decks populaires (dans une vraie app, cela serait basé sur des statistiques)
-      setPopularDecks(allDecks.filter(deck => deck.isPublic).slice(0, 3));
-    };
+    if (!allDecks) return;
+    
+    // Trier par date de dernière modification pour les decks récents
+    const recent = [...allDecks]
+      .filter(deck => deck.authorId === user?.id)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, 3);
     
-    loadDecks();
+    setRecentDecks(recent);
     
-    // Mettre à jour régulièrement les decks
-    const interval = setInterval(loadDecks, 5000);
-    return () => clearInterval(interval);
-  }, [user?.id]);
+    // Simuler des decks populaires (dans une vraie app, cela serait basé sur des statistiques)
+    setPopularDecks(allDecks.filter(deck => deck.isPublic).slice(0, 3));
+  }, [allDecks, user?.id]);
 
   return (
     <div className="container px-4 py-6 md:py-8">
@@ -81,6 +78,12 @@ const HomePage = () => {
                 Explorer
               </Link>
             </Button>
+            <Button asChild variant="outline" className="border-primary/20 text-primary hover:bg-primary/10 w-full sm:w-auto">
+              <Link to="/review">
+                <CalendarCheck className="mr-2 h-4 w-4" />
+                Révisions du jour
+              </Link>
+            </Button>
           </div>
         </div>
         
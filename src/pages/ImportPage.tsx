@@ -5,24 +5,24 @@ import {
   Check,
   Download,
   AlertTriangle,
-  FileQuestion
+  FileQuestion,
+  FileUp
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import FileImporter from "@/components/deck-sharing/FileImporter";
+import CsvImporter from "@/components/deck-sharing/CsvImporter";
 
 import { 
   getSharedDeck,
-  createDeck,
-  createTheme,
-  createFlashcard,
-  getThemesByDeck,
-  getFlashcardsByDeck,
   getUser,
   Deck
 } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 
 const ImportPage = () => {
   const { code } = useParams<{ code: string }>();
@@ -72,7 +72,7 @@ const ImportPage = () => {
       }
       
       // Create a new deck
-      const newDeck = createDeck({
+      const newDeck = await repository.createDeck({
         title: `${deck.title} (Importé)`,
         description: deck.description,
         coverImage: deck.coverImage,
@@ -82,15 +82,15 @@ const ImportPage = () => {
       });
       
       // Get themes and flashcards from the original deck
-      const originalThemes = getThemesByDeck(deck.id);
-      const originalCards = getFlashcardsByDeck(deck.id);
+      const originalThemes = await repository.getThemesByDeck(deck.id);
+      const originalCards = await repository.getFlashcardsByDeck(deck.id);
       
       // Create a map to track new theme IDs
       const themeIdMap = new Map<string, string>();
       
       // Create themes
       for (const theme of originalThemes) {
-        const newTheme = createTheme({
+        const newTheme = await repository.createTheme({
           deckId: newDeck.id,
           title: theme.title,
           description: theme.description,
@@ -104,7 +104,7 @@ const ImportPage = () => {
       for (const card of originalCards) {
         const newThemeId = card.themeId ? themeIdMap.get(card.themeId) : undefined;
         
-        createFlashcard({
+        await repository.createFlashcard({
           deckId: newDeck.id,
           themeId: newThemeId,
           front: {
@@ -149,7 +149,47 @@ const ImportPage = () => {
     );
   }
   
-  if (!deck || !code) {
+  // Sans code de partage : import depuis un fichier (export JSON, paquet Anki ou CSV)
+  if (!code) {
+    return (
+      <div className="container px-4 py-8">
+        <Link to="/my-decks" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Retour à mes decks
+        </Link>
+        
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <div className="mx-auto rounded-full p-3 bg-green-100 text-green-600 mb-2">
+                <FileUp className="h-6 w-6" />
+              </div>
+              <CardTitle className="text-center">Importer depuis un fichier</CardTitle>
+              <CardDescription className="text-center">
+                Importez un deck exporté depuis l'application, un paquet Anki ou un tableau de cartes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="deck">
+                <TabsList className="grid w-full grid-cols-2 mb-4">
+                  <TabsTrigger value="deck">Deck ou paquet Anki</TabsTrigger>
+                  <TabsTrigger value="csv">CSV / TSV</TabsTrigger>
+                </TabsList>
+                <TabsContent value="deck">
+                  <FileImporter onClose={() => navigate("/my-decks")} />
+                </TabsContent>
+                <TabsContent value="csv">
+                  <CsvImporter onImported={deckId => navigate(`/deck/${deckId}`)} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+  
+  if (!deck) {
     return (
       <div className="container px-4 py-8">
         <Link to="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
@@ -12,9 +12,12 @@ import {
   Clock,
   Star,
   X,
+  Trash2,
   Check, // Importation du composant Check
 } from "lucide-react";
-import { getDecks, Deck, getUser } from "@/lib/localStorage";
+import { Deck, getUser } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -44,10 +47,11 @@ const MyDecksPage = () => {
 
   useEffect(() => {
     loadDecks();
-    const interval = setInterval(loadDecks, 3000);
-    return () => clearInterval(interval);
   }, []);
 
+  // Recharger uniquement quand un deck change (ici ou dans un autre onglet)
+  useStorageChanges(() => loadDecks(), ["deck"]);
+
   useEffect(() => {
     // Extraire tous les tags uniques des decks
     const allTags: string[] = [];
@@ -61,9 +65,8 @@ const MyDecksPage = () => {
     setTags(allTags);
   }, [decks]);
 
-  const loadDecks = () => {
-    const allDecks = getDecks();
-    const userDecks = allDecks.filter((deck) => deck.authorId === user?.id);
+  const loadDecks = async () => {
+    const userDecks = user ? await repository.getDecksByUser(user.id) : [];
 
     // Set all decks
     setDecks(userDecks);
@@ -118,7 +121,13 @@ const MyDecksPage = () => {
     <div className="container px-4 py-8">
       <div className="flex flex-col md:flex-row items-start gap-4 mb-8">
         <h1 className="text-3xl font-bold">Mes decks</h1>
-        <div className="flex-1 flex justify-end">
+        <div className="flex-1 flex justify-end gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/trash">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Corbeille
+            </Link>
+          </Button>
           <Button asChild>
             <Link to="/create">
               <PlusIcon className="h-4 w-4 mr-2" />
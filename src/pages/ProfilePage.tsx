@@ -12,9 +12,11 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import ProfileAvatar from "@/components/ProfileAvatar";
 import { getProfile, updateProfile, resetUserData, logout } from "@/lib/localStorage";
-import { Loader2, Save, RefreshCw, AlertTriangle, User } from "lucide-react";
+import { Loader2, Save, AlertTriangle, User } from "lucide-react";
 import DataImportExport from "@/components/DataImportExport";
 import StorageMigrationTool from "@/components/StorageMigrationTool";
+import MediaIntegrityTool from "@/components/MediaIntegrityTool";
+import StorageUsageDashboard from "@/components/StorageUsageDashboard";
 import { hasSession } from "@/lib/sessionManager";
 import { useIsMobile } from '@/hooks/use-mobile';
 import { User as UserType } from '@/lib/storage/types';
@@ -467,43 +469,9 @@ const ProfilePage = () => {
           
           <StorageMigrationTool />
           
-          <Card>
-            <CardHeader>
-              <CardTitle>Utilisation de l'espace</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Espace utilisé (LocalStorage)</span>
-                  <span>2.3 MB / 5 MB</span>
-                </div>
-                <Progress value={46} className="h-2" />
-              </div>
-              
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Espace utilisé (IndexedDB)</span>
-                  <span>13.7 MB / 50 MB</span>
-                </div>
-                <Progress value={27} className="h-2" />
-              </div>
-              
-              <Button 
-                variant="outline" 
-                className="w-full mt-2"
-                onClick={() => {
-                  // Cette fonction serait implémentée dans un contexte réel
-                  toast({
-                    title: "Vérification effectuée",
-                    description: "L'utilisation de l'espace a été actualisée"
-                  });
-                }}
-              >
-                <RefreshCw className="mr-2 h-4 w-4" />
-                Actualiser les statistiques d'espace
-              </Button>
-            </CardContent>
-          </Card>
+          <MediaIntegrityTool />
+          
+          <StorageUsageDashboard />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import FlashCard from "@/components/FlashCard";
+import GradeButtons from "@/components/GradeButtons";
+import {
+  Deck,
+  ReviewLimits,
+  ReviewQueueItem,
+  buildReviewQueue,
+  getDailyReviewCounts,
+  getReviewLimits,
+  getUser,
+  recordDailyReview,
+  reviewCard,
+  setReviewLimits,
+} from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { ReviewGrade } from "@/lib/scheduler";
+import { recordCardStudy, updateSessionStats } from "@/lib/sessionManager";
+import { ArrowLeft, CalendarCheck, Settings } from "lucide-react";
+
+const ReviewPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [decks, setDecks] = useState<Record<string, Deck>>({});
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [initialQueueSize, setInitialQueueSize] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [limits, setLimits] = useState<ReviewLimits>(getReviewLimits());
+  const [showSettings, setShowSettings] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const cardShownAtRef = useRef<number>(Date.now());
+
+  const loadQueue = useCallback(async () => {
+    const user = getUser();
+    if (!user) return;
+
+    const userDecks = await repository.getDecksByUser(user.id);
+    setDecks(Object.fromEntries(userDecks.map(deck => [deck.id, deck])));
+
+    const reviewQueue = buildReviewQueue(userDecks.map(deck => deck.id));
+    setQueue(reviewQueue);
+    setInitialQueueSize(reviewQueue.length);
+    setIsFlipped(false);
+    cardShownAtRef.current = Date.now();
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+    updateSessionStats({
+      studySessions: 1,
+      lastStudyDate: new Date().toISOString(),
+    });
+  }, [loadQueue]);
+
+  // Espace ou Entrée pour afficher la réponse
+  useEffect(() => {
+    if (isFlipped || queue.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "BUTTON") return;
+
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        setIsFlipped(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isFlipped, queue.length]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    const [current, ...rest] = queue;
+    if (!current) return;
+
+    try {
+      const schedule = reviewCard(current.card.id, grade, {
+        studyMode: "review",
+        checkMethod: "flip",
+        responseTime: Date.now() - cardShownAtRef.current,
+      });
+      recordDailyReview(current.isNew);
+      recordCardStudy(grade !== "again");
+
+      // Une carte oubliée est remise en fin de file pour la session en cours
+      const nextQueue = grade === "again"
+        ? [...rest, { ...current, schedule, isNew: false, overdueDays: 0 }]
+        : rest;
+
+      setQueue(nextQueue);
+      setReviewedCount(prev => prev + 1);
+      setIsFlipped(false);
+      cardShownAtRef.current = Date.now();
+
+      if (nextQueue.length === 0) {
+        toast({
+          title: "Révisions terminées !",
+          description: "Vous avez révisé toutes les cartes prévues pour aujourd'hui.",
+        });
+      }
+    } catch (error) {
+      console.error("Error grading card:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer la révision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveLimits = () => {
+    const updatedLimits = setReviewLimits({
+      newCardsPerDay: Math.max(0, Math.round(limits.newCardsPerDay)),
+      reviewsPerDay: Math.max(0, Math.round(limits.reviewsPerDay)),
+    });
+    setLimits(updatedLimits);
+    setShowSettings(false);
+    loadQueue();
+    toast({
+      title: "Limites mises à jour",
+      description: "La file de révision a été recalculée",
+    });
+  };
+
+  const current = queue[0];
+  const counts = getDailyReviewCounts();
+  const newRemaining = queue.filter(item => item.isNew).length;
+  const dueRemaining = queue.length - newRemaining;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col mb-6 sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <CalendarCheck className="h-7 w-7 text-primary" />
+              Révisions du jour
+            </h1>
+            <p className="text-muted-foreground">
+              Toutes les cartes à réviser, tous decks confondus
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Badge variant="outline">{dueRemaining} à réviser</Badge>
+            <Badge variant="outline">{newRemaining} nouvelles</Badge>
+            <Button variant="outline" size="icon" onClick={() => setShowSettings(!showSettings)}>
+              <Settings className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {showSettings && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Limites quotidiennes</CardTitle>
+              <CardDescription>
+                Aujourd'hui : {counts.newCards} nouvelles cartes et {counts.reviews} révisions effectuées
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="new-cards-limit">Nouvelles cartes par jour</Label>
+                  <Input
+                    id="new-cards-limit"
+                    type="number"
+                    min={0}
+                    value={limits.newCardsPerDay}
+                    onChange={(e) => setLimits({ ...limits, newCardsPerDay: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reviews-limit">Révisions par jour</Label>
+                  <Input
+                    id="reviews-limit"
+                    type="number"
+                    min={0}
+                    value={limits.reviewsPerDay}
+                    onChange={(e) => setLimits({ ...limits, reviewsPerDay: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSaveLimits}>Enregistrer</Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loaded ? (
+          <p className="text-center">Chargement des révisions...</p>
+        ) : !current ? (
+          <div className="max-w-md mx-auto text-center">
+            <Alert className="mb-4">
+              <AlertTitle>Aucune carte à réviser</AlertTitle>
+              <AlertDescription>
+                {reviewedCount > 0
+                  ? `Vous avez terminé vos ${reviewedCount} révisions du jour. Revenez demain !`
+                  : "Aucune carte n'est due pour le moment. Revenez plus tard ou ajoutez de nouvelles cartes."}
+              </AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate("/my-decks")} variant="outline">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Retour à mes decks
+            </Button>
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{decks[current.card.deckId]?.title || "Deck"}</Badge>
+                  {current.card.direction === "reverse" && <Badge variant="outline">Verso → Recto</Badge>}
+                </div>
+                {current.isNew ? (
+                  <Badge>Nouvelle</Badge>
+                ) : current.overdueDays >= 1 ? (
+                  <Badge variant="destructive">En retard de {Math.floor(current.overdueDays)} j</Badge>
+                ) : null}
+              </div>
+              <Progress
+                value={initialQueueSize > 0 ? Math.min(100, (reviewedCount / initialQueueSize) * 100) : 0}
+                className="mt-4"
+              />
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex justify-center">
+                <div className="w-full max-w-xl" onClick={() => setIsFlipped(true)}>
+                  <FlashCard
+                    key={`${current.card.id}-${reviewedCount}`}
+                    id={current.card.id}
+                    front={current.card.front}
+                    back={current.card.back}
+                    cloze={current.card.cloze}
+                    onCardFlip={() => {}}
+                    className={isFlipped ? "flipped" : ""}
+                  />
+                </div>
+              </div>
+
+              {isFlipped ? (
+                <GradeButtons
+                  cardId={current.card.id}
+                  schedule={current.schedule}
+                  onGrade={handleGrade}
+                />
+              ) : (
+                <Button className="w-full" onClick={() => setIsFlipped(true)}>
+                  Afficher la réponse
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPage;
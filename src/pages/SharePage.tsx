@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,8 +9,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Clipboard, Share2, Check, Copy, QrCode, Link2, Send, Download, Upload } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { getDecks, createShareCode, Deck } from "@/lib/localStorage";
+import { createShareCode, Deck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 import { exportSessionData, getSessionKey } from "@/lib/sessionManager";
+import DeckExporter from "@/components/deck-sharing/DeckExporter";
 
 const SharePage = () => {
   const { toast } = useToast();
@@ -21,7 +23,11 @@ const SharePage = () => {
   const [exportData, setExportData] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState<string | null>(null);
   
-  const decks = getDecks();
+  const [decks, setDecks] = useState<Deck[]>([]);
+
+  useEffect(() => {
+    repository.getDecks().then(setDecks);
+  }, []);
 
   const generateShareCode = () => {
     if (!selectedDeck) {
@@ -280,6 +286,18 @@ const SharePage = () => {
             )}
           </Card>
           
+          <Card className="border-indigo-100 dark:border-indigo-900/30">
+            <CardHeader>
+              <CardTitle>Exporter un deck</CardTitle>
+              <CardDescription>
+                Téléchargez un deck avec ses médias pour l'importer sur un autre appareil
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DeckExporter selectedDeck={selectedDeck || undefined} onDeckSelect={setSelectedDeck} />
+            </CardContent>
+          </Card>
+          
           <div className="bg-gradient-to-r from-indigo-50 to-purple-50 dark:from-indigo-950/30 dark:to-purple-950/30 rounded-xl p-6 text-center shadow-sm">
             <h3 className="text-lg font-semibold mb-2">Vous avez reçu un code de partage ?</h3>
             <p className="text-sm text-muted-foreground mb-4">
@@ -4,7 +4,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import { getDecks, getFlashcardsByDeck, getStudySessionsByDeck, getTheme } from "@/lib/localStorage";
+import { getStudySessionsByDeck, getReviewLogsByDeck } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
 import { useNavigate } from "react-router-dom";
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
@@ -16,90 +17,116 @@ const StatsPage = () => {
   const [flashcardStats, setFlashcardStats] = useState([]);
   const [studyStats, setStudyStats] = useState([]);
   const [themeDistribution, setThemeDistribution] = useState([]);
+  const [directionStats, setDirectionStats] = useState([]);
 
   useEffect(() => {
-    const loadedDecks = getDecks();
-    setDecks(loadedDecks);
-    
-    if (loadedDecks.length > 0 && !selectedDeck) {
-      setSelectedDeck(loadedDecks[0].id);
-    }
+    repository.getDecks().then(loadedDecks => {
+      setDecks(loadedDecks);
+      
+      if (loadedDecks.length > 0 && !selectedDeck) {
+        setSelectedDeck(loadedDecks[0].id);
+      }
+    });
   }, []);
 
   useEffect(() => {
     if (!selectedDeck) return;
+
+    const loadStats = async () => {
+      // Charger les statistiques des flashcards
+      const flashcards = await repository.getFlashcardsByDeck(selectedDeck);
+      const themes = await repository.getThemesByDeck(selectedDeck);
     
-    // Charger les statistiques des flashcards
-    const flashcards = getFlashcardsByDeck(selectedDeck);
-    
-    // Calculer la distribution des difficultés
-    const difficultyCount = {
-      easy: 0,
-      medium: 0,
-      hard: 0,
-      notReviewed: 0
-    };
+      // Calculer la distribution des difficultés
+      const difficultyCount = {
+        easy: 0,
+        medium: 0,
+        hard: 0,
+        notReviewed: 0
+      };
     
-    flashcards.forEach(card => {
-      if (!card.reviewCount || card.reviewCount === 0) {
-        difficultyCount.notReviewed++;
-      } else if (card.difficulty === 'easy') {
-        difficultyCount.easy++;
-      } else if (card.difficulty === 'medium') {
-        difficultyCount.medium++;
-      } else if (card.difficulty === 'hard') {
-        difficultyCount.hard++;
-      }
-    });
+      flashcards.forEach(card => {
+        if (!card.reviewCount || card.reviewCount === 0) {
+          difficultyCount.notReviewed++;
+        } else if (card.difficulty === 'easy') {
+          difficultyCount.easy++;
+        } else if (card.difficulty === 'medium') {
+          difficultyCount.medium++;
+        } else if (card.difficulty === 'hard') {
+          difficultyCount.hard++;
+        }
+      });
     
-    const flashcardData = [
-      { name: 'Facile', value: difficultyCount.easy },
-      { name: 'Moyen', value: difficultyCount.medium },
-      { name: 'Difficile', value: difficultyCount.hard },
-      { name: 'Non révisé', value: difficultyCount.notReviewed }
-    ];
+      const flashcardData = [
+        { name: 'Facile', value: difficultyCount.easy },
+        { name: 'Moyen', value: difficultyCount.medium },
+        { name: 'Difficile', value: difficultyCount.hard },
+        { name: 'Non révisé', value: difficultyCount.notReviewed }
+      ];
     
-    setFlashcardStats(flashcardData);
+      setFlashcardStats(flashcardData);
     
-    // Charger les statistiques des sessions d'étude
-    const sessions = getStudySessionsByDeck(selectedDeck);
+      // Charger les statistiques des sessions d'étude
+      const sessions = getStudySessionsByDeck(selectedDeck);
     
-    // Calculer les statistiques par session
-    const sessionData = sessions.map(session => ({
-      name: new Date(session.startTime).toLocaleDateString(),
-      correct: session.correctAnswers,
-      incorrect: session.incorrectAnswers,
-      total: session.cardsReviewed
-    }));
+      // Calculer les statistiques par session
+      const sessionData = sessions.map(session => ({
+        name: new Date(session.startTime).toLocaleDateString(),
+        correct: session.correctAnswers,
+        incorrect: session.incorrectAnswers,
+        total: session.cardsReviewed
+      }));
     
-    setStudyStats(sessionData);
+      setStudyStats(sessionData);
     
-    // Calculer la distribution par thème
-    const themeCount = {};
-    let unthemed = 0;
+      // Calculer la distribution par thème
+      const themeCount = {};
+      let unthemed = 0;
     
-    flashcards.forEach(card => {
-      if (card.themeId) {
-        const theme = getTheme(card.themeId);
-        if (theme) {
-          themeCount[theme.title] = (themeCount[theme.title] || 0) + 1;
+      flashcards.forEach(card => {
+        if (card.themeId) {
+          const theme = themes.find(t => t.id === card.themeId);
+          if (theme) {
+            themeCount[theme.title] = (themeCount[theme.title] || 0) + 1;
+          }
+        } else {
+          unthemed++;
         }
-      } else {
-        unthemed++;
+      });
+    
+      const themeData = Object.entries(themeCount).map(([name, value]) => ({
+        name,
+        value
+      }));
+    
+      if (unthemed > 0) {
+        themeData.push({ name: 'Sans thème', value: unthemed });
       }
-    });
     
-    const themeData = Object.entries(themeCount).map(([name, value]) => ({
-      name,
-      value
-    }));
+      setThemeDistribution(themeData);
     
-    if (unthemed > 0) {
-      themeData.push({ name: 'Sans thème', value: unthemed });
-    }
+      // Calculer les résultats par sens d'étude à partir du journal des révisions
+      const directionCount = {
+        forward: { correct: 0, incorrect: 0 },
+        reverse: { correct: 0, incorrect: 0 }
+      };
     
-    setThemeDistribution(themeData);
+      getReviewLogsByDeck(selectedDeck).forEach(log => {
+        const counts = directionCount[log.direction || 'forward'];
+        if (log.grade === 'again') {
+          counts.incorrect++;
+        } else {
+          counts.correct++;
+        }
+      });
     
+      setDirectionStats([
+        { name: 'Recto → Verso', ...directionCount.forward },
+        { name: 'Verso → Recto', ...directionCount.reverse }
+      ].filter(item => item.correct + item.incorrect > 0));
+    };
+
+    loadStats();
   }, [selectedDeck]);
 
   const handleDeckChange = (value) => {
@@ -203,6 +230,31 @@ const StatsPage = () => {
                   </div>
                 </CardContent>
               </Card>
+              
+              {directionStats.length > 0 && (
+                <Card className="md:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Par sens d'étude</CardTitle>
+                    <CardDescription>
+                      Réponses correctes et incorrectes dans chaque sens
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-[200px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={directionStats} layout="vertical" margin={{ left: 40 }}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis type="number" />
+                          <YAxis type="category" dataKey="name" />
+                          <Tooltip />
+                          <Bar dataKey="correct" stackId="a" fill="#4ade80" name="Correctes" />
+                          <Bar dataKey="incorrect" stackId="a" fill="#f87171" name="Incorrectes" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </TabsContent>
           
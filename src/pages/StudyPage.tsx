@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,29 +12,67 @@ import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import FlashCard from "@/components/FlashCard";
-import { getDeck, getFlashcardsByDeck, Flashcard, getThemesByDeck } from "@/lib/localStorage";
+import GradeButtons from "@/components/GradeButtons";
+import {
+  Flashcard,
+  reviewCard,
+  ReviewLog,
+  getUser,
+  StudySession,
+  createStudySession,
+  getStudySession,
+  updateStudySession,
+  pauseStudySession,
+  resumeStudySession,
+  completeStudySession,
+  deleteStudySession,
+  getResumableStudySession,
+  getStudySessionDuration,
+  getCardSchedule,
+  StudyItem,
+  FlashcardSide,
+  expandStudyItems,
+} from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { ReviewGrade } from "@/lib/scheduler";
+import {
+  buildMultipleChoiceQuestion,
+  DEFAULT_CHOICE_COUNT,
+  MIN_CHOICE_COUNT,
+  MAX_CHOICE_COUNT,
+} from "@/lib/multipleChoice";
+import { cn } from "@/lib/utils";
+import { AnswerCheckResult, checkAnswer, getDisplayAnswer, getSideAnswers } from "@/lib/answerChecker";
+import AnswerDiff from "@/components/AnswerDiff";
 import { recordCardStudy, updateSessionStats } from "@/lib/sessionManager";
-import { ArrowLeft, ArrowRight, Check, X, Shuffle, ThumbsUp, ThumbsDown, Lightbulb, MessageSquare, Repeat } from "lucide-react";
+import { ArrowLeft, ArrowRight, Check, X, Shuffle, ThumbsUp, ThumbsDown, Lightbulb, MessageSquare, Repeat, Pause, Play } from "lucide-react";
 import { evaluateAnswer } from "@/services/geminiService";
 
 enum StudyMode {
   FLASHCARDS = "flashcards",
   QUIZ = "quiz",
   WRITE = "write",
+  MULTIPLE_CHOICE = "multiple-choice",
 }
 
 enum QuizCheckMethod {
   MANUAL = "manual",
+  LOCAL = "local",
   AUTO = "auto",
 }
 
+interface CheckOptions {
+  grade?: ReviewGrade;
+  advanceDelay?: number;
+}
+
 const StudyPage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [studyMode, setStudyMode] = useState<StudyMode>(StudyMode.FLASHCARDS);
   const [cards, setCards] = useState<Flashcard[]>([]);
-  const [filteredCards, setFilteredCards] = useState<Flashcard[]>([]);
+  const [filteredCards, setFilteredCards] = useState<StudyItem[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [showAnswer, setShowAnswer] = useState(false);
@@ -45,7 +83,8 @@ const StudyPage = () => {
   const [themes, setThemes] = useState<any[]>([]);
   const [quizAnswers, setQuizAnswers] = useState<{ [key: string]: string }>({});
   const [quizResults, setQuizResults] = useState<{ [key: string]: boolean }>({});
-  const [quizCheckMethod, setQuizCheckMethod] = useState<QuizCheckMethod>(QuizCheckMethod.MANUAL);
+  const [quizCheckMethod, setQuizCheckMethod] = useState<QuizCheckMethod>(QuizCheckMethod.LOCAL);
+  const [answerChecks, setAnswerChecks] = useState<{ [key: string]: AnswerCheckResult }>({});
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [incorrectAnswers, setIncorrectAnswers] = useState(0);
   const [showResults, setShowResults] = useState(false);
@@ -57,71 +96,272 @@ const StudyPage = () => {
   });
   const [apiChecking, setApiChecking] = useState(false);
   const [studyStartTime] = useState(new Date());
+  const [resumableSession, setResumableSession] = useState<StudySession | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [choiceCount, setChoiceCount] = useState<number>(() => {
+    return Number(localStorage.getItem('multiple-choice-count')) || DEFAULT_CHOICE_COUNT;
+  });
+  const [selectedChoice, setSelectedChoice] = useState<number | null>(null);
   const answerInputRef = useRef<HTMLInputElement>(null);
+  const cardShownAtRef = useRef<number>(Date.now());
+  const sessionIdRef = useRef<string | null>(null);
   const geminiEndpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent";
 
   useEffect(() => {
     if (!id) return;
 
-    try {
-      const deckData = getDeck(id);
-      if (!deckData) {
+    const loadStudyData = async () => {
+      try {
+        const deckData = await repository.getDeck(id);
+        if (!deckData) {
+          toast({
+            title: "Deck introuvable",
+            description: "Le deck demandé n'existe pas",
+            variant: "destructive",
+          });
+          navigate("/");
+          return;
+        }
+        setDeck(deckData);
+
+        const deckCards = await repository.getFlashcardsByDeck(id);
+        setCards(deckCards);
+
+        const deckThemes = await repository.getThemesByDeck(id);
+        setThemes(deckThemes);
+
+        rebuildStudyCards(deckCards, "all", false);
+
+        const user = getUser();
+        const unfinished = user ? getResumableStudySession(id, user.id) : null;
+        if (unfinished && unfinished.cardOrder?.length) {
+          setResumableSession(unfinished);
+        }
+
+        updateSessionStats({
+          studySessions: 1,
+          lastStudyDate: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error loading study data:", error);
         toast({
-          title: "Deck introuvable",
-          description: "Le deck demandé n'existe pas",
+          title: "Erreur",
+          description: "Impossible de charger les données du deck",
           variant: "destructive",
         });
-        navigate("/");
-        return;
       }
-      setDeck(deckData);
+    };
 
-      const deckCards = getFlashcardsByDeck(id);
-      setCards(deckCards);
+    loadStudyData();
+  }, [id, navigate, toast]);
 
-      const deckThemes = getThemesByDeck(id);
-      setThemes(deckThemes);
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+    setSelectedChoice(null);
+  }, [currentCardIndex, filteredCards, studyMode]);
 
-      setFilteredCards(shuffle ? shuffleArray([...deckCards]) : [...deckCards]);
+  // Les distracteurs sont pris dans tout le deck, pas seulement dans le thème étudié
+  const studyItemPool = useMemo(() => expandStudyItems(cards), [cards]);
 
-      updateSessionStats({
-        studySessions: 1,
-        lastStudyDate: new Date().toISOString(),
-      });
-    } catch (error) {
-      console.error("Error loading study data:", error);
-      toast({
-        title: "Erreur",
-        description: "Impossible de charger les données du deck",
-        variant: "destructive",
-      });
-    }
-  }, [id, navigate, toast]);
+  const choiceQuestion = useMemo(() => {
+    const item = filteredCards[currentCardIndex];
+    if (studyMode !== StudyMode.MULTIPLE_CHOICE || !item) return null;
+    return buildMultipleChoiceQuestion(item, studyItemPool, choiceCount);
+  }, [studyMode, filteredCards, currentCardIndex, studyItemPool, choiceCount]);
+
+  // Espace ou Entrée pour retourner la carte en mode flashcards
+  useEffect(() => {
+    if (studyMode !== StudyMode.FLASHCARDS || showResults || isPaused) return;
 
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "BUTTON") return;
+
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        setIsFlipped(prev => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [studyMode, showResults, isPaused]);
+
+  // Touches 1 à N pour choisir une réponse en mode QCM
   useEffect(() => {
-    if (!cards.length) return;
+    if (studyMode !== StudyMode.MULTIPLE_CHOICE || showResults || isPaused) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") return;
 
-    let filtered = [...cards];
+      const index = Number(e.key) - 1;
+      if (Number.isInteger(index) && index >= 0 && index < MAX_CHOICE_COUNT) {
+        document.getElementById(`choice-${index}`)?.click();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [studyMode, showResults, isPaused]);
 
-    if (studyTheme !== "all") {
-      filtered = filtered.filter(card => card.themeId === studyTheme);
+  // Sauvegarder la position courante pour pouvoir reprendre la session
+  useEffect(() => {
+    if (sessionIdRef.current) {
+      updateStudySession(sessionIdRef.current, { currentIndex: currentCardIndex });
     }
+  }, [currentCardIndex]);
 
-    if (shuffle) {
-      filtered = shuffleArray(filtered);
+  // Une session quittée (fermeture, rechargement, changement de page) est mise
+  // en pause, pour que le temps passé hors de la page ne compte pas comme étude
+  useEffect(() => {
+    // Seule une session que la page a elle-même mise en pause reprend au retour
+    let pausedOnHide: string | null = null;
+    const pauseCurrentSession = () => {
+      const sessionId = sessionIdRef.current;
+      if (sessionId && getStudySession(sessionId)?.status === 'active') {
+        pauseStudySession(sessionId);
+        pausedOnHide = sessionId;
+      }
+    };
+    // Page restaurée depuis le cache du navigateur : l'étude continue
+    const handlePageShow = (e: PageTransitionEvent) => {
+      if (e.persisted && pausedOnHide && pausedOnHide === sessionIdRef.current) {
+        resumeStudySession(pausedOnHide);
+      }
+      pausedOnHide = null;
+    };
+
+    window.addEventListener("pagehide", pauseCurrentSession);
+    window.addEventListener("pageshow", handlePageShow);
+    return () => {
+      window.removeEventListener("pagehide", pauseCurrentSession);
+      window.removeEventListener("pageshow", handlePageShow);
+      pauseCurrentSession();
+    };
+  }, []);
+
+  const ensureSession =(): string | null => {
+    if (sessionIdRef.current) return sessionIdRef.current;
+
+    const user = getUser();
+    if (!user || !id) return null;
+
+    const session = createStudySession({
+      deckId: id,
+      userId: user.id,
+      studyMode,
+      themeId: studyTheme !== "all" ? studyTheme : undefined,
+      shuffle,
+      cardOrder: filteredCards.map(card => card.id),
+      currentIndex: currentCardIndex,
+    });
+    sessionIdRef.current = session.id;
+    return session.id;
+  };
+
+  const endSession = () => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+
+    sessionIdRef.current = null;
+    setIsPaused(false);
+
+    // Une session sans aucune carte étudiée n'est pas conservée
+    const session = getStudySession(sessionId);
+    if (session && session.cardsReviewed > 0) {
+      completeStudySession(sessionId);
+    } else {
+      deleteStudySession(sessionId);
     }
+  };
 
-    setFilteredCards(filtered);
+  const resetStudyProgress = () => {
     setCurrentCardIndex(0);
     setIsFlipped(false);
     setShowAnswer(false);
     setShowHint(false);
     setQuizAnswers({});
     setQuizResults({});
+    setAnswerChecks({});
     setCorrectAnswers(0);
     setIncorrectAnswers(0);
     setShowResults(false);
-  }, [studyTheme, shuffle, cards]);
+  };
+
+  const rebuildStudyCards = (sourceCards: Flashcard[], theme: string, shouldShuffle: boolean) => {
+    endSession();
+
+    let filtered = [...sourceCards];
+
+    if (theme !== "all") {
+      filtered = filtered.filter(card => card.themeId === theme);
+    }
+
+    const items = expandStudyItems(filtered);
+    setFilteredCards(shouldShuffle ? shuffleArray(items) : items);
+    resetStudyProgress();
+  };
+
+  const handleResumeSession = () => {
+    if (!resumableSession) return;
+
+    const itemsById = new Map(expandStudyItems(cards).map(item => [item.id, item]));
+    const orderedCards = (resumableSession.cardOrder || [])
+      .map(itemId => itemsById.get(itemId))
+      .filter((item): item is StudyItem => !!item);
+
+    if (orderedCards.length === 0) {
+      handleDiscardSession();
+      return;
+    }
+
+    endSession();
+    setStudyMode((resumableSession.studyMode as StudyMode) || StudyMode.FLASHCARDS);
+    setStudyTheme(resumableSession.themeId || "all");
+    setShuffle(!!resumableSession.shuffle);
+    setFilteredCards(orderedCards);
+    resetStudyProgress();
+    setCurrentCardIndex(Math.min(resumableSession.currentIndex || 0, orderedCards.length - 1));
+    setCorrectAnswers(resumableSession.correctAnswers);
+    setIncorrectAnswers(resumableSession.incorrectAnswers);
+
+    sessionIdRef.current = resumableSession.id;
+    resumeStudySession(resumableSession.id);
+    setResumableSession(null);
+
+    toast({
+      title: "Session reprise",
+      description: `Reprise à la carte ${Math.min((resumableSession.currentIndex || 0) + 1, orderedCards.length)} sur ${orderedCards.length}`,
+    });
+  };
+
+  const handleDiscardSession = () => {
+    if (!resumableSession) return;
+
+    if (resumableSession.cardsReviewed > 0) {
+      completeStudySession(resumableSession.id, resumableSession.lastActivityAt);
+    } else {
+      deleteStudySession(resumableSession.id);
+    }
+    setResumableSession(null);
+  };
+
+  const handlePauseToggle = () => {
+    if (isPaused) {
+      if (sessionIdRef.current) {
+        resumeStudySession(sessionIdRef.current);
+      }
+      cardShownAtRef.current = Date.now();
+      setIsPaused(false);
+    } else {
+      const sessionId = ensureSession();
+      if (sessionId) {
+        pauseStudySession(sessionId);
+      }
+      setIsPaused(true);
+    }
+  };
 
   const shuffleArray = <T,>(array: T[]): T[] => {
     const newArray = [...array];
@@ -158,32 +398,71 @@ const StudyPage = () => {
     }
   };
 
+  const gradeCard = (cardId: string, grade: ReviewGrade, checkMethod: ReviewLog['checkMethod']) => {
+    const isCorrect = grade !== 'again';
+    recordCardStudy(isCorrect);
+
+    const sessionId = ensureSession();
+    const session = sessionId ? getStudySession(sessionId) : null;
+    if (session) {
+      updateStudySession(session.id, {
+        cardsReviewed: session.cardsReviewed + 1,
+        correctAnswers: session.correctAnswers + (isCorrect ? 1 : 0),
+        incorrectAnswers: session.incorrectAnswers + (isCorrect ? 0 : 1),
+        currentIndex: currentCardIndex,
+      });
+    }
+
+    try {
+      reviewCard(cardId, grade, {
+        studyMode,
+        sessionId: sessionId || undefined,
+        checkMethod,
+        responseTime: Date.now() - cardShownAtRef.current,
+      });
+    } catch (error) {
+      console.error("Error scheduling card:", error);
+    }
+  };
+
   const handleCardFlip = () => {
-    setIsFlipped(!isFlipped);
-    if (!isFlipped) {
-      recordCardStudy(true);
+    setIsFlipped(prev => !prev);
+  };
+
+  const handleFlashcardGrade = (grade: ReviewGrade) => {
+    const card = filteredCards[currentCardIndex];
+    if (!card) return;
+
+    gradeCard(card.id, grade, 'flip');
+
+    if (grade === 'again') {
+      setIncorrectAnswers(prev => prev + 1);
+    } else {
+      setCorrectAnswers(prev => prev + 1);
+    }
+
+    if (currentCardIndex < filteredCards.length - 1) {
+      handleNextCard();
+    } else {
+      recordStudySession();
+      setShowResults(true);
     }
   };
 
   const handleThemeChange = (value: string) => {
     setStudyTheme(value);
+    rebuildStudyCards(cards, value, shuffle);
   };
 
   const handleShuffleToggle = () => {
     setShuffle(!shuffle);
+    rebuildStudyCards(cards, studyTheme, !shuffle);
   };
 
   const handleStudyModeChange = (mode: StudyMode) => {
+    endSession();
     setStudyMode(mode);
-    setCurrentCardIndex(0);
-    setIsFlipped(false);
-    setShowAnswer(false);
-    setShowHint(false);
-    setQuizAnswers({});
-    setQuizResults({});
-    setCorrectAnswers(0);
-    setIncorrectAnswers(0);
-    setShowResults(false);
+    resetStudyProgress();
   };
 
   const handleQuizAnswer = (e: React.ChangeEvent<HTMLInputElement>, cardId: string) => {
@@ -216,9 +495,10 @@ const StudyPage = () => {
         [cardId]: isCorrect
       });
       
+      gradeCard(cardId, isCorrect ? 'good' : 'again', 'gemini');
+      
       if (isCorrect) {
         setCorrectAnswers(prev => prev + 1);
-        recordCardStudy(true);
         toast({
           title: "Correct!",
           description: feedback,
@@ -226,7 +506,6 @@ const StudyPage = () => {
         });
       } else {
         setIncorrectAnswers(prev => prev + 1);
-        recordCardStudy(false);
         toast({
           title: "Incorrect",
           description: feedback,
@@ -248,18 +527,26 @@ const StudyPage = () => {
     }
   };
 
-  const handleManualCheck = (cardId: string, isCorrect: boolean) => {
+  const handleManualCheck = (
+    cardId: string,
+    isCorrect: boolean,
+    checkMethod: ReviewLog['checkMethod'] = 'manual',
+    { grade, advanceDelay = 1000 }: CheckOptions = {}
+  ) => {
+    // Une carte déjà notée ne compte pas une seconde révision
+    if (quizResults[cardId] !== undefined) return;
+
     setQuizResults({
       ...quizResults,
       [cardId]: isCorrect
     });
     
+    gradeCard(cardId, grade || (isCorrect ? 'good' : 'again'), checkMethod);
+    
     if (isCorrect) {
       setCorrectAnswers(prev => prev + 1);
-      recordCardStudy(true);
     } else {
       setIncorrectAnswers(prev => prev + 1);
-      recordCardStudy(false);
     }
     
     if (currentCardIndex < filteredCards.length - 1) {
@@ -268,16 +555,43 @@ const StudyPage = () => {
         if (answerInputRef.current) {
           answerInputRef.current.focus();
         }
-      }, 1000);
+      }, advanceDelay);
     } else {
       recordStudySession();
       setShowResults(true);
     }
   };
 
+  const handleLocalCheck = (cardId: string) => {
+    const userAnswer = quizAnswers[cardId] || '';
+    if (quizResults[cardId] !== undefined) return;
+    
+    if (!userAnswer.trim()) {
+      toast({
+        title: "Réponse vide",
+        description: "Veuillez entrer une réponse avant de vérifier",
+        variant: "default",
+      });
+      return;
+    }
+    
+    const result = checkAnswer(userAnswer, getSideAnswers(filteredCards[currentCardIndex].back));
+    setAnswerChecks({
+      ...answerChecks,
+      [cardId]: result
+    });
+    
+    // Une réponse acceptée avec des fautes de frappe compte comme « Difficile »
+    handleManualCheck(cardId, result.isCorrect, 'auto', {
+      grade: result.isCorrect && !result.isExact ? 'hard' : undefined,
+      advanceDelay: result.isExact ? 1000 : 3000,
+    });
+  };
+
   const handleAutoCheck = async (cardId: string) => {
     const userAnswer = quizAnswers[cardId] || '';
-    const correctAnswer = filteredCards[currentCardIndex].back.text;
+    if (quizResults[cardId] !== undefined || apiChecking) return;
+    const correctAnswer = getSideAnswers(filteredCards[currentCardIndex].back).join(" / ");
     
     if (!userAnswer.trim()) {
       toast({
@@ -303,15 +617,35 @@ const StudyPage = () => {
         setShowResults(true);
       }
     } else {
-      const isCorrect = userAnswer.trim().toLowerCase() === correctAnswer.trim().toLowerCase();
-      handleManualCheck(cardId, isCorrect);
+      handleLocalCheck(cardId);
     }
   };
 
+  const handleChoiceSelect = (index: number) => {
+    const item = filteredCards[currentCardIndex];
+    if (!item || !choiceQuestion || selectedChoice !== null) return;
+
+    setSelectedChoice(index);
+    handleManualCheck(item.id, index === choiceQuestion.correctIndex, 'choice');
+  };
+
+  const handleChoiceCountChange = (value: string) => {
+    const count = Number(value);
+    setChoiceCount(count);
+    localStorage.setItem('multiple-choice-count', String(count));
+  };
+
   const recordStudySession = () => {
     try {
       const endTime = new Date();
-      const durationMinutes = Math.round((endTime.getTime() - studyStartTime.getTime()) / (1000 * 60));
+      const sessionId = sessionIdRef.current;
+      sessionIdRef.current = null;
+      
+      const session = sessionId ? completeStudySession(sessionId, endTime.getTime()) : null;
+      const durationMs = session
+        ? getStudySessionDuration(session)
+        : endTime.getTime() - studyStartTime.getTime();
+      const durationMinutes = Math.round(durationMs / (1000 * 60));
       
       updateSessionStats({
         totalStudyTime: durationMinutes,
@@ -325,15 +659,8 @@ const StudyPage = () => {
   };
 
   const restartStudy = () => {
-    setCurrentCardIndex(0);
-    setIsFlipped(false);
-    setShowAnswer(false);
-    setShowHint(false);
-    setQuizAnswers({});
-    setQuizResults({});
-    setCorrectAnswers(0);
-    setIncorrectAnswers(0);
-    setShowResults(false);
+    endSession();
+    resetStudyProgress();
     
     if (shuffle) {
       setFilteredCards(shuffleArray([...filteredCards]));
@@ -355,6 +682,54 @@ const StudyPage = () => {
     }
   }, [geminiApiKey, toast]);
 
+  const renderAlternativeAnswers = (side: FlashcardSide) => {
+    const alternatives = getSideAnswers(side).filter(answer => answer !== getDisplayAnswer(side));
+    if (alternatives.length === 0) return null;
+    
+    return (
+      <p className="mt-1 text-sm text-muted-foreground">
+        Également accepté : {alternatives.join(", ")}
+      </p>
+    );
+  };
+
+  const renderAnswerFeedback = (cardId: string) => {
+    if (quizResults[cardId] === undefined) return null;
+    
+    const isCorrect = quizResults[cardId];
+    const check = answerChecks[cardId];
+    
+    return (
+      <div className={`p-4 mt-2 border rounded-lg ${
+        isCorrect 
+          ? "bg-green-50 border-green-200 text-green-800 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300" 
+          : "bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300"
+      }`}>
+        <div className="flex items-center">
+          {isCorrect ? (
+            <>
+              <Check className="h-5 w-5 mr-2" />
+              <span>Correct !</span>
+            </>
+          ) : (
+            <>
+              <X className="h-5 w-5 mr-2" />
+              <span>Incorrect. La bonne réponse est: {getDisplayAnswer(filteredCards[currentCardIndex].back)}</span>
+            </>
+          )}
+        </div>
+        {check && !check.isExact && (
+          <div className="mt-3 space-y-1">
+            <p className="text-xs opacity-80">
+              {check.isCorrect ? "Accepté malgré quelques fautes :" : "Correction de votre réponse :"}
+            </p>
+            <AnswerDiff diff={check.diff} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (!deck || filteredCards.length === 0) {
     return (
       <div className="container py-8 text-center">
@@ -388,10 +763,20 @@ const StudyPage = () => {
             <h1 className="text-3xl font-bold">{deck.title}</h1>
             <p className="text-muted-foreground">
               Carte {currentCardIndex + 1} sur {filteredCards.length}
+              {filteredCards[currentCardIndex]?.direction === "reverse" && " · Sens inverse (verso → recto)"}
             </p>
           </div>
           
           <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              onClick={handlePauseToggle}
+              disabled={showResults}
+            >
+              {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
+              {isPaused ? "Reprendre" : "Pause"}
+            </Button>
+
             <Button
               variant="outline"
               onClick={handleShuffleToggle}
@@ -419,393 +804,530 @@ const StudyPage = () => {
           </div>
         </div>
 
-        <Card className="mb-6">
-          <CardHeader>
-            <Tabs defaultValue={studyMode} onValueChange={(value) => handleStudyModeChange(value as StudyMode)}>
-              <TabsList className="grid w-full grid-cols-3">
-                <TabsTrigger value={StudyMode.FLASHCARDS}>Flashcards</TabsTrigger>
-                <TabsTrigger value={StudyMode.QUIZ}>Quiz</TabsTrigger>
-                <TabsTrigger value={StudyMode.WRITE}>Écriture</TabsTrigger>
-              </TabsList>
-            </Tabs>
-          </CardHeader>
-          <CardContent>
-            {studyMode === StudyMode.FLASHCARDS && (
-              <div className="flex justify-center">
-                {filteredCards.length > 0 && (
-                  <div className="w-full max-w-xl" onClick={handleCardFlip}>
-                    <FlashCard
-                      id={filteredCards[currentCardIndex].id}
-                      front={filteredCards[currentCardIndex].front}
-                      back={filteredCards[currentCardIndex].back}
-                      onCardFlip={() => {}}
-                      className={isFlipped ? "flipped" : ""}
-                    />
-                  </div>
-                )}
+        {resumableSession && (
+          <Alert className="mb-6">
+            <Repeat className="h-4 w-4" />
+            <AlertTitle>Session interrompue</AlertTitle>
+            <AlertDescription>
+              <p className="mb-3">
+                Vous avez une session commencée le {new Date(resumableSession.startTime).toLocaleString()} arrêtée
+                à la carte {(resumableSession.currentIndex || 0) + 1} sur {resumableSession.cardOrder?.length}
+                {" "}({resumableSession.cardsReviewed} cartes étudiées).
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleResumeSession}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Reprendre
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleDiscardSession}>
+                  Nouvelle session
+                </Button>
               </div>
-            )}
-            
-            {studyMode === StudyMode.QUIZ && !showResults && (
-              <div className="space-y-6">
-                <div className="flex items-center justify-center mb-4">
-                  <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
-                </div>
-                
-                <div className="text-center mb-6">
-                  <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
-                  
-                  {filteredCards[currentCardIndex].front.image && (
-                    <div className="flex justify-center mb-4">
-                      <img
-                        src={filteredCards[currentCardIndex].front.image}
-                        alt="Question"
-                        className="max-h-60 rounded-lg"
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isPaused ? (
+          <Card className="mb-6">
+            <CardHeader className="text-center">
+              <CardTitle>Session en pause</CardTitle>
+              <CardDescription>
+                Votre progression est sauvegardée. Vous pourrez reprendre à la carte {currentCardIndex + 1}.
+              </CardDescription>
+            </CardHeader>
+            <CardFooter className="justify-center">
+              <Button onClick={handlePauseToggle}>
+                <Play className="mr-2 h-4 w-4" />
+                Reprendre
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : (
+          <Card className="mb-6">
+            <CardHeader>
+              <Tabs value={studyMode} onValueChange={(value) => handleStudyModeChange(value as StudyMode)}>
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value={StudyMode.FLASHCARDS}>Flashcards</TabsTrigger>
+                  <TabsTrigger value={StudyMode.QUIZ}>Quiz</TabsTrigger>
+                  <TabsTrigger value={StudyMode.MULTIPLE_CHOICE}>QCM</TabsTrigger>
+                  <TabsTrigger value={StudyMode.WRITE}>Écriture</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              {studyMode === StudyMode.FLASHCARDS && !showResults && (
+                <div className="flex flex-col items-center gap-6">
+                  {filteredCards.length > 0 && (
+                    <div className="w-full max-w-xl">
+                      <FlashCard
+                        key={filteredCards[currentCardIndex].id}
+                        id={filteredCards[currentCardIndex].id}
+                        front={filteredCards[currentCardIndex].front}
+                        back={filteredCards[currentCardIndex].back}
+                        cloze={filteredCards[currentCardIndex].cloze}
+                        isFlipped={isFlipped}
+                        onCardFlip={handleCardFlip}
                       />
                     </div>
                   )}
-                  
-                  {showHint && (
-                    <Alert className="mt-4 bg-yellow-50 dark:bg-yellow-900/20">
-                      <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      <AlertTitle>Indice</AlertTitle>
-                      <AlertDescription className="italic">
-                        {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
-                      </AlertDescription>
-                    </Alert>
+
+                  {isFlipped ? (
+                    <GradeButtons
+                      cardId={filteredCards[currentCardIndex].id}
+                      schedule={getCardSchedule(filteredCards[currentCardIndex].id)}
+                      onGrade={handleFlashcardGrade}
+                      className="w-full max-w-xl"
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Retournez la carte (Espace) puis évaluez votre réponse (touches 1 à 4)
+                    </p>
                   )}
                 </div>
-                
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="answer">Votre réponse</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        ref={answerInputRef}
-                        id="answer"
-                        value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
-                        onChange={(e) => handleQuizAnswer(e, filteredCards[currentCardIndex].id)}
-                        className="flex-1"
-                        placeholder="Entrez votre réponse..."
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            handleAutoCheck(filteredCards[currentCardIndex].id);
-                          }
-                        }}
-                      />
-                      
-                      <Button onClick={() => setShowHint(!showHint)} variant="outline" className="shrink-0">
-                        <Lightbulb className="h-4 w-4" />
-                      </Button>
-                    </div>
+              )}
+              
+              {studyMode === StudyMode.QUIZ && !showResults && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-center mb-4">
+                    <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
                   </div>
                   
-                  {quizCheckMethod === QuizCheckMethod.AUTO ? (
-                    <Button 
-                      onClick={() => handleAutoCheck(filteredCards[currentCardIndex].id)}
-                      className="w-full"
-                      disabled={apiChecking}
-                    >
-                      {apiChecking ? "Vérification..." : "Vérifier ma réponse"}
-                    </Button>
-                  ) : (
-                    <>
-                      <div className="flex items-center space-x-2 mb-4">
-                        <Button
-                          onClick={() => setShowAnswer(!showAnswer)}
-                          variant="outline"
-                          size="sm"
-                        >
-                          {showAnswer ? "Masquer la réponse" : "Afficher la réponse"}
-                        </Button>
+                  <div className="text-center mb-6">
+                    <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
+                    
+                    {filteredCards[currentCardIndex].front.image && (
+                      <div className="flex justify-center mb-4">
+                        <img
+                          src={filteredCards[currentCardIndex].front.image}
+                          alt="Question"
+                          className="max-h-60 rounded-lg"
+                        />
                       </div>
-                      
-                      {showAnswer && (
-                        <div className="p-4 border rounded-lg bg-secondary/10">
-                          <p className="font-medium">Réponse correcte:</p>
-                          <p className="mt-1">{filteredCards[currentCardIndex].back.text}</p>
-                          {filteredCards[currentCardIndex].back.image && (
-                            <div className="mt-2">
-                              <img
-                                src={filteredCards[currentCardIndex].back.image}
-                                alt="Answer"
-                                className="max-h-40 mx-auto rounded-lg"
-                              />
-                            </div>
-                          )}
-                        </div>
-                      )}
-                      
-                      <div className="flex justify-center gap-2 mt-4">
-                        <Button 
-                          onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
-                          variant="outline"
-                          className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
-                        >
-                          <ThumbsDown className="mr-2 h-4 w-4" />
-                          Incorrect
-                        </Button>
+                    )}
+                    
+                    {showHint && (
+                      <Alert className="mt-4 bg-yellow-50 dark:bg-yellow-900/20">
+                        <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+                        <AlertTitle>Indice</AlertTitle>
+                        <AlertDescription className="italic">
+                          {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                  
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="answer">Votre réponse</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          ref={answerInputRef}
+                          id="answer"
+                          value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
+                          onChange={(e) => handleQuizAnswer(e, filteredCards[currentCardIndex].id)}
+                          className="flex-1"
+                          placeholder="Entrez votre réponse..."
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              if (quizCheckMethod === QuizCheckMethod.AUTO) {
+                                handleAutoCheck(filteredCards[currentCardIndex].id);
+                              } else {
+                                handleLocalCheck(filteredCards[currentCardIndex].id);
+                              }
+                            }
+                          }}
+                        />
                         
-                        <Button 
-                          onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
-                          variant="outline"
-                          className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
-                        >
-                          <ThumbsUp className="mr-2 h-4 w-4" />
-                          Correct
+                        <Button onClick={() => setShowHint(!showHint)} variant="outline" className="shrink-0">
+                          <Lightbulb className="h-4 w-4" />
                         </Button>
                       </div>
-                    </>
-                  )}
-                  
-                  {quizResults[filteredCards[currentCardIndex].id] !== undefined && (
-                    <div className={`p-4 mt-2 border rounded-lg ${
-                      quizResults[filteredCards[currentCardIndex].id] 
-                        ? "bg-green-50 border-green-200 text-green-800 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300" 
-                        : "bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300"
-                    }`}>
-                      <div className="flex items-center">
-                        {quizResults[filteredCards[currentCardIndex].id] ? (
-                          <>
-                            <Check className="h-5 w-5 mr-2" />
-                            <span>Correct !</span>
-                          </>
-                        ) : (
-                          <>
-                            <X className="h-5 w-5 mr-2" />
-                            <span>Incorrect. La bonne réponse est: {filteredCards[currentCardIndex].back.text}</span>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            )}
-            
-            {studyMode === StudyMode.WRITE && !showResults && (
-              <div className="space-y-6">
-                <div className="flex items-center justify-center mb-4">
-                  <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
-                </div>
-                
-                <div className="text-center mb-6">
-                  <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
-                  
-                  {filteredCards[currentCardIndex].front.image && (
-                    <div className="flex justify-center mb-4">
-                      <img
-                        src={filteredCards[currentCardIndex].front.image}
-                        alt="Question"
-                        className="max-h-60 rounded-lg"
-                      />
                     </div>
-                  )}
+                    
+                    {quizCheckMethod === QuizCheckMethod.AUTO ? (
+                      <Button 
+                        onClick={() => handleAutoCheck(filteredCards[currentCardIndex].id)}
+                        className="w-full"
+                        disabled={apiChecking || quizResults[filteredCards[currentCardIndex].id] !== undefined}
+                      >
+                        {apiChecking ? "Vérification..." : "Vérifier ma réponse"}
+                      </Button>
+                    ) : quizCheckMethod === QuizCheckMethod.LOCAL ? (
+                      <Button 
+                        onClick={() => handleLocalCheck(filteredCards[currentCardIndex].id)}
+                        className="w-full"
+                      >
+                        Vérifier ma réponse
+                      </Button>
+                    ) : (
+                      <>
+                        <div className="flex items-center space-x-2 mb-4">
+                          <Button
+                            onClick={() => setShowAnswer(!showAnswer)}
+                            variant="outline"
+                            size="sm"
+                          >
+                            {showAnswer ? "Masquer la réponse" : "Afficher la réponse"}
+                          </Button>
+                        </div>
+                        
+                        {showAnswer && (
+                          <div className="p-4 border rounded-lg bg-secondary/10">
+                            <p className="font-medium">Réponse correcte:</p>
+                            <p className="mt-1">{getDisplayAnswer(filteredCards[currentCardIndex].back)}</p>
+                            {renderAlternativeAnswers(filteredCards[currentCardIndex].back)}
+                            {filteredCards[currentCardIndex].back.image && (
+                              <div className="mt-2">
+                                <img
+                                  src={filteredCards[currentCardIndex].back.image}
+                                  alt="Answer"
+                                  className="max-h-40 mx-auto rounded-lg"
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        
+                        <div className="flex justify-center gap-2 mt-4">
+                          <Button 
+                            onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
+                            variant="outline"
+                            disabled={quizResults[filteredCards[currentCardIndex].id] !== undefined}
+                            className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
+                          >
+                            <ThumbsDown className="mr-2 h-4 w-4" />
+                            Incorrect
+                          </Button>
+                          
+                          <Button 
+                            onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
+                            variant="outline"
+                            disabled={quizResults[filteredCards[currentCardIndex].id] !== undefined}
+                            className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
+                          >
+                            <ThumbsUp className="mr-2 h-4 w-4" />
+                            Correct
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                    
+                    {renderAnswerFeedback(filteredCards[currentCardIndex].id)}
+                  </div>
                 </div>
-                
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="writeAnswer">Écrivez votre réponse</Label>
-                    <textarea
-                      id="writeAnswer"
-                      className="w-full min-h-[120px] p-3 rounded-md border border-input bg-background"
-                      value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
-                      onChange={(e) => handleQuizAnswer(e as any, filteredCards[currentCardIndex].id)}
-                      placeholder="Écrivez votre réponse ici..."
-                    />
+              )}
+              
+              {studyMode === StudyMode.MULTIPLE_CHOICE && !showResults && choiceQuestion && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-center mb-4">
+                    <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
                   </div>
                   
-                  <div className="flex justify-between">
-                    <Button
-                      onClick={() => setShowHint(!showHint)}
-                      variant="outline"
-                      className="flex items-center gap-1"
-                    >
-                      <Lightbulb className="h-4 w-4" />
-                      Indice
-                    </Button>
+                  <div className="text-center mb-6">
+                    <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
                     
-                    <Button
-                      onClick={() => setShowAnswer(!showAnswer)}
-                      variant="outline"
-                    >
-                      {showAnswer ? "Masquer la réponse" : "Afficher la réponse"}
-                    </Button>
+                    {filteredCards[currentCardIndex].front.image && (
+                      <div className="flex justify-center mb-4">
+                        <img
+                          src={filteredCards[currentCardIndex].front.image}
+                          alt="Question"
+                          className="max-h-60 rounded-lg"
+                        />
+                      </div>
+                    )}
                   </div>
                   
-                  {showHint && (
-                    <Alert className="mt-2 bg-yellow-50 dark:bg-yellow-900/20">
-                      <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      <AlertTitle>Indice</AlertTitle>
-                      <AlertDescription className="italic">
-                        {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
+                  {choiceQuestion.options.length < MIN_CHOICE_COUNT ? (
+                    <Alert>
+                      <Lightbulb className="h-4 w-4" />
+                      <AlertTitle>Pas assez de réponses</AlertTitle>
+                      <AlertDescription>
+                        Ce deck ne contient pas assez de réponses différentes pour proposer un QCM. Utilisez un autre mode d'étude.
                       </AlertDescription>
                     </Alert>
-                  )}
-                  
-                  {showAnswer && (
-                    <div className="p-4 border rounded-lg bg-secondary/10 mt-2">
-                      <p className="font-medium">Réponse correcte:</p>
-                      <p className="mt-1">{filteredCards[currentCardIndex].back.text}</p>
-                      {filteredCards[currentCardIndex].back.image && (
-                        <div className="mt-2">
-                          <img
-                            src={filteredCards[currentCardIndex].back.image}
-                            alt="Answer"
-                            className="max-h-40 mx-auto rounded-lg"
-                          />
-                        </div>
-                      )}
-                      {filteredCards[currentCardIndex].back.additionalInfo && (
-                        <div className="mt-2 p-2 bg-primary/5 rounded text-sm">
-                          <p className="font-medium">Informations supplémentaires:</p>
-                          <p>{filteredCards[currentCardIndex].back.additionalInfo}</p>
-                        </div>
-                      )}
+                  ) : (
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {choiceQuestion.options.map((option, index) => {
+                        const isCorrectOption = index === choiceQuestion.correctIndex;
+                        const isSelected = index === selectedChoice;
+                        
+                        return (
+                          <Button
+                            key={`${choiceQuestion.itemId}-${index}`}
+                            id={`choice-${index}`}
+                            variant="outline"
+                            onClick={() => handleChoiceSelect(index)}
+                            className={cn(
+                              "h-auto min-h-12 justify-start whitespace-normal text-left py-3",
+                              selectedChoice !== null && isCorrectOption && "bg-green-50 border-green-300 text-green-800 dark:bg-green-900/20 dark:border-green-700 dark:text-green-300",
+                              isSelected && !isCorrectOption && "bg-red-50 border-red-300 text-red-800 dark:bg-red-900/20 dark:border-red-700 dark:text-red-300"
+                            )}
+                          >
+                            <span className="mr-3 text-xs text-muted-foreground">{index + 1}</span>
+                            {option}
+                          </Button>
+                        );
+                      })}
                     </div>
                   )}
                   
-                  <div className="flex justify-center gap-2 mt-4">
-                    <Button 
-                      onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
-                      variant="outline"
-                      className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
-                    >
-                      <ThumbsDown className="mr-2 h-4 w-4" />
-                      Incorrect
-                    </Button>
+                  <div className="flex items-center justify-end gap-2">
+                    <Label htmlFor="choice-count" className="text-sm text-muted-foreground">
+                      Nombre de choix
+                    </Label>
+                    <Select value={String(choiceCount)} onValueChange={handleChoiceCountChange}>
+                      <SelectTrigger id="choice-count" className="w-[80px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: MAX_CHOICE_COUNT - MIN_CHOICE_COUNT + 1 }, (_, i) => MIN_CHOICE_COUNT + i).map(count => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              
+              {studyMode === StudyMode.WRITE && !showResults && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-center mb-4">
+                    <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
+                  </div>
+                  
+                  <div className="text-center mb-6">
+                    <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
+                    
+                    {filteredCards[currentCardIndex].front.image && (
+                      <div className="flex justify-center mb-4">
+                        <img
+                          src={filteredCards[currentCardIndex].front.image}
+                          alt="Question"
+                          className="max-h-60 rounded-lg"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="writeAnswer">Écrivez votre réponse</Label>
+                      <textarea
+                        id="writeAnswer"
+                        className="w-full min-h-[120px] p-3 rounded-md border border-input bg-background"
+                        value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
+                        onChange={(e) => handleQuizAnswer(e as any, filteredCards[currentCardIndex].id)}
+                        placeholder="Écrivez votre réponse ici..."
+                      />
+                    </div>
+                    
+                    <div className="flex justify-between">
+                      <Button
+                        onClick={() => setShowHint(!showHint)}
+                        variant="outline"
+                        className="flex items-center gap-1"
+                      >
+                        <Lightbulb className="h-4 w-4" />
+                        Indice
+                      </Button>
+                      
+                      <Button
+                        onClick={() => setShowAnswer(!showAnswer)}
+                        variant="outline"
+                      >
+                        {showAnswer ? "Masquer la réponse" : "Afficher la réponse"}
+                      </Button>
+                    </div>
+                    
+                    {showHint && (
+                      <Alert className="mt-2 bg-yellow-50 dark:bg-yellow-900/20">
+                        <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+                        <AlertTitle>Indice</AlertTitle>
+                        <AlertDescription className="italic">
+                          {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    {showAnswer && (
+                      <div className="p-4 border rounded-lg bg-secondary/10 mt-2">
+                        <p className="font-medium">Réponse correcte:</p>
+                        <p className="mt-1">{getDisplayAnswer(filteredCards[currentCardIndex].back)}</p>
+                        {renderAlternativeAnswers(filteredCards[currentCardIndex].back)}
+                        {filteredCards[currentCardIndex].back.image && (
+                          <div className="mt-2">
+                            <img
+                              src={filteredCards[currentCardIndex].back.image}
+                              alt="Answer"
+                              className="max-h-40 mx-auto rounded-lg"
+                            />
+                          </div>
+                        )}
+                        {filteredCards[currentCardIndex].back.additionalInfo && (
+                          <div className="mt-2 p-2 bg-primary/5 rounded text-sm">
+                            <p className="font-medium">Informations supplémentaires:</p>
+                            <p>{filteredCards[currentCardIndex].back.additionalInfo}</p>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     
                     <Button 
-                      onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
-                      variant="outline"
-                      className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
+                      onClick={() => handleLocalCheck(filteredCards[currentCardIndex].id)}
+                      className="w-full"
                     >
-                      <ThumbsUp className="mr-2 h-4 w-4" />
-                      Correct
+                      Vérifier ma réponse
                     </Button>
+                    
+                    {renderAnswerFeedback(filteredCards[currentCardIndex].id)}
+                    
+                    <div className="flex justify-center gap-2 mt-4">
+                      <Button 
+                        onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
+                        variant="outline"
+                        disabled={quizResults[filteredCards[currentCardIndex].id] !== undefined}
+                        className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
+                      >
+                        <ThumbsDown className="mr-2 h-4 w-4" />
+                        Incorrect
+                      </Button>
+                      
+                      <Button 
+                        onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
+                        variant="outline"
+                        disabled={quizResults[filteredCards[currentCardIndex].id] !== undefined}
+                        className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
+                      >
+                        <ThumbsUp className="mr-2 h-4 w-4" />
+                        Correct
+                      </Button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-            
-            {showResults && (
-              <div className="space-y-6">
-                <div className="text-center">
-                  <h2 className="text-2xl font-bold mb-2">Résultats</h2>
-                  <p className="text-muted-foreground mb-6">
-                    Vous avez terminé l'étude de {filteredCards.length} cartes
-                  </p>
-                  
-                  <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mb-6">
-                    <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
-                      <p className="text-sm text-muted-foreground">Réponses correctes</p>
-                      <p className="text-3xl font-bold text-green-600 dark:text-green-400">{correctAnswers}</p>
+              )}
+              
+              {showResults && (
+                <div className="space-y-6">
+                  <div className="text-center">
+                    <h2 className="text-2xl font-bold mb-2">Résultats</h2>
+                    <p className="text-muted-foreground mb-6">
+                      Vous avez terminé l'étude de {filteredCards.length} cartes
+                    </p>
+                    
+                    <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mb-6">
+                      <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+                        <p className="text-sm text-muted-foreground">Réponses correctes</p>
+                        <p className="text-3xl font-bold text-green-600 dark:text-green-400">{correctAnswers}</p>
+                      </div>
+                      
+                      <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                        <p className="text-sm text-muted-foreground">Réponses incorrectes</p>
+                        <p className="text-3xl font-bold text-red-600 dark:text-red-400">{incorrectAnswers}</p>
+                      </div>
                     </div>
                     
-                    <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
-                      <p className="text-sm text-muted-foreground">Réponses incorrectes</p>
-                      <p className="text-3xl font-bold text-red-600 dark:text-red-400">{incorrectAnswers}</p>
+                    <div className="space-y-2 max-w-md mx-auto mb-6">
+                      <div className="flex justify-between items-center">
+                        <Label>Performance</Label>
+                        <Badge variant="outline">
+                          {Math.round((correctAnswers / (correctAnswers + incorrectAnswers)) * 100) || 0}%
+                        </Badge>
+                      </div>
+                      <Progress 
+                        value={
+                          correctAnswers + incorrectAnswers > 0
+                            ? (correctAnswers / (correctAnswers + incorrectAnswers)) * 100
+                            : 0
+                        }
+                        className="h-2"
+                      />
                     </div>
+                    
+                    <Button onClick={restartStudy} className="mx-2">
+                      <Repeat className="mr-2 h-4 w-4" />
+                      Recommencer
+                    </Button>
+                    
+                    <Button onClick={() => navigate(`/deck/${id}`)} variant="outline" className="mx-2">
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Retour au deck
+                    </Button>
                   </div>
-                  
-                  <div className="space-y-2 max-w-md mx-auto mb-6">
-                    <div className="flex justify-between items-center">
-                      <Label>Performance</Label>
-                      <Badge variant="outline">
-                        {Math.round((correctAnswers / (correctAnswers + incorrectAnswers)) * 100) || 0}%
-                      </Badge>
-                    </div>
-                    <Progress 
-                      value={
-                        correctAnswers + incorrectAnswers > 0
-                          ? (correctAnswers / (correctAnswers + incorrectAnswers)) * 100
-                          : 0
-                      }
-                      className="h-2"
-                    />
+                </div>
+              )}
+            </CardContent>
+            
+            {studyMode === StudyMode.QUIZ && !showResults && (
+              <CardFooter className="flex flex-col gap-4">
+                <div className="w-full border-t pt-4">
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="quiz-check-method">
+                      Méthode de vérification:
+                    </Label>
+                    <Select
+                      value={quizCheckMethod}
+                      onValueChange={(value) => setQuizCheckMethod(value as QuizCheckMethod)}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={QuizCheckMethod.LOCAL}>Automatique (hors ligne)</SelectItem>
+                        <SelectItem value={QuizCheckMethod.MANUAL}>Manuelle</SelectItem>
+                        <SelectItem value={QuizCheckMethod.AUTO}>Automatique (API Gemini)</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
                   
-                  <Button onClick={restartStudy} className="mx-2">
-                    <Repeat className="mr-2 h-4 w-4" />
-                    Recommencer
-                  </Button>
-                  
-                  <Button onClick={() => navigate(`/deck/${id}`)} variant="outline" className="mx-2">
-                    <ArrowLeft className="mr-2 h-4 w-4" />
-                    Retour au deck
-                  </Button>
+                  {quizCheckMethod === QuizCheckMethod.AUTO && (
+                    <div className="mt-2 space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="api-key">Clé API Gemini</Label>
+                        <Input
+                          id="api-key"
+                          type="password"
+                          value={geminiApiKey}
+                          placeholder="Entrez votre clé API Gemini-1.5-flash"
+                          onChange={(e) => setGeminiApiKey(e.target.value)}
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="enable-gemini"
+                          checked={isGeminiEnabled}
+                          onCheckedChange={setIsGeminiEnabled}
+                        />
+                        <Label htmlFor="enable-gemini">
+                          Activer la vérification automatique avec Gemini
+                        </Label>
+                      </div>
+                      {!isGeminiEnabled && (
+                        <p className="text-xs text-muted-foreground">
+                          Sans l'API Gemini, la vérification utilisera le correcteur hors ligne (accents, ponctuation et fautes de frappe tolérés).
+                        </p>
+                      )}
+                      <Alert className="mt-2 bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700">
+                        <MessageSquare className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+                        <AlertTitle>Note sur l'API Gemini</AlertTitle>
+                        <AlertDescription className="text-xs">
+                          Utilisez une clé API pour Gemini 1.5 Flash. Vous pouvez l'obtenir sur 
+                          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" 
+                             className="underline text-blue-600 dark:text-blue-400 ml-1">
+                            Google AI Studio
+                          </a>.
+                        </AlertDescription>
+                      </Alert>
+                    </div>
+                  )}
                 </div>
-              </div>
+              </CardFooter>
             )}
-          </CardContent>
-          
-          {studyMode === StudyMode.QUIZ && !showResults && (
-            <CardFooter className="flex flex-col gap-4">
-              <div className="w-full border-t pt-4">
-                <div className="flex items-center space-x-2">
-                  <Label htmlFor="quiz-check-method">
-                    Méthode de vérification:
-                  </Label>
-                  <Select
-                    value={quizCheckMethod}
-                    onValueChange={(value) => setQuizCheckMethod(value as QuizCheckMethod)}
-                  >
-                    <SelectTrigger className="w-[180px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value={QuizCheckMethod.MANUAL}>Manuelle</SelectItem>
-                      <SelectItem value={QuizCheckMethod.AUTO}>Automatique (API)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                {quizCheckMethod === QuizCheckMethod.AUTO && (
-                  <div className="mt-2 space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Label htmlFor="api-key">Clé API Gemini</Label>
-                      <Input
-                        id="api-key"
-                        type="password"
-                        value={geminiApiKey}
-                        placeholder="Entrez votre clé API Gemini-1.5-flash"
-                        onChange={(e) => setGeminiApiKey(e.target.value)}
-                      />
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Switch
-                        id="enable-gemini"
-                        checked={isGeminiEnabled}
-                        onCheckedChange={setIsGeminiEnabled}
-                      />
-                      <Label htmlFor="enable-gemini">
-                        Activer la vérification automatique avec Gemini
-                      </Label>
-                    </div>
-                    {!isGeminiEnabled && (
-                      <p className="text-xs text-muted-foreground">
-                        La vérification automatique utilisera une correspondance exacte sans l'API Gemini.
-                      </p>
-                    )}
-                    <Alert className="mt-2 bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700">
-                      <MessageSquare className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                      <AlertTitle>Note sur l'API Gemini</AlertTitle>
-                      <AlertDescription className="text-xs">
-                        Utilisez une clé API pour Gemini 1.5 Flash. Vous pouvez l'obtenir sur 
-                        <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" 
-                           className="underline text-blue-600 dark:text-blue-400 ml-1">
-                          Google AI Studio
-                        </a>.
-                      </AlertDescription>
-                    </Alert>
-                  </div>
-                )}
-              </div>
-            </CardFooter>
-          )}
-        </Card>
+          </Card>
+        )}
         
-        {(studyMode === StudyMode.FLASHCARDS && !showResults) && (
+        {(studyMode === StudyMode.FLASHCARDS && !showResults && !isPaused) && (
           <div className="flex justify-between">
             <Button
               onClick={handlePrevCard}
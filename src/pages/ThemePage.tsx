@@ -20,22 +20,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { useStorageChanges } from "@/hooks/use-storage-changes";
 import FlashCard from "@/components/FlashCard";
 import FlashCardItem from "@/components/FlashCardItem";
+import UndoToastAction from "@/components/UndoToastAction";
 
 import { 
-  getDeck, 
-  getTheme, 
-  getFlashcardsByTheme, 
   getUser, 
-  createFlashcard, 
   getBase64,
-  updateFlashcard,
-  deleteFlashcard,
   Flashcard,
   Theme,
   Deck
 } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+import { undoableRepository } from "@/lib/history";
 
 const ThemePage = () => {
   const { deckId, themeId } = useParams<{ deckId: string; themeId: string }>();
@@ -72,39 +70,49 @@ const ThemePage = () => {
   useEffect(() => {
     if (!deckId || !themeId) return;
     
-    const deckData = getDeck(deckId);
-    if (!deckData) {
-      toast({
-        title: "Deck introuvable",
-        description: "Le deck que vous recherchez n'existe pas",
-        variant: "destructive",
-      });
-      navigate("/");
-      return;
-    }
+    const loadTheme = async () => {
+      const deckData = await repository.getDeck(deckId);
+      if (!deckData) {
+        toast({
+          title: "Deck introuvable",
+          description: "Le deck que vous recherchez n'existe pas",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
     
-    const themeData = getTheme(themeId);
-    if (!themeData) {
-      toast({
-        title: "Thème introuvable",
-        description: "Le thème que vous recherchez n'existe pas",
-        variant: "destructive",
-      });
-      navigate(`/deck/${deckId}`);
-      return;
-    }
+      const themeData = await repository.getTheme(themeId);
+      if (!themeData) {
+        toast({
+          title: "Thème introuvable",
+          description: "Le thème que vous recherchez n'existe pas",
+          variant: "destructive",
+        });
+        navigate(`/deck/${deckId}`);
+        return;
+      }
     
-    setDeck(deckData);
-    setTheme(themeData);
-    setIsOwner(deckData.authorId === user?.id);
+      setDeck(deckData);
+      setTheme(themeData);
+      setIsOwner(deckData.authorId === user?.id);
     
-    // Load flashcards
-    const themeCards = getFlashcardsByTheme(themeId);
-    setFlashcards(themeCards);
+      // Load flashcards
+      const themeCards = await repository.getFlashcardsByTheme(themeId);
+      setFlashcards(themeCards);
     
-    setIsLoading(false);
+      setIsLoading(false);
+    };
+
+    loadTheme();
   }, [deckId, themeId, navigate, toast, user?.id]);
 
+  // Cartes ajoutées, modifiées ou restaurées ailleurs (annulation, autre onglet)
+  useStorageChanges(async () => {
+    if (!themeId) return;
+    setFlashcards(await repository.getFlashcardsByTheme(themeId));
+  }, ["card"], deckId);
+
   // Vérifier le défilement du contenu du dialogue
   useEffect(() => {
     if (showCardDialog && dialogContentRef.current) {
@@ -221,7 +229,7 @@ const ThemePage = () => {
     setFlashcards(updatedCards);
   };
 
-  const createNewCard = () => {
+  const createNewCard = async () => {
     if (!deckId || !themeId) return;
     
     if (!newCard.front.text.trim() && !newCard.front.image) {
@@ -257,7 +265,7 @@ const ThemePage = () => {
         additionalInfo: showBackAdditionalInfo ? newCard.back.additionalInfo.trim() : undefined
       };
       
-      const card = createFlashcard({
+      const card = await undoableRepository.createFlashcard({
         deckId,
         themeId,
         front: frontData,
@@ -288,6 +296,7 @@ const ThemePage = () => {
       toast({
         title: "Carte créée",
         description: "La flashcard a été ajoutée avec succès",
+        action: <UndoToastAction />,
       });
     } catch (error) {
       console.error("Error creating flashcard:", error);
@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, BookOpen, Layers, FileText, RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageQuery } from "@/hooks/use-storage-changes";
+import { TrashEntry, getTrashRetentionDays, setTrashRetentionDays, purgeExpiredTrash } from "@/lib/localStorage";
+import { repository } from "@/lib/repository";
+
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITY_LABELS: Record<TrashEntry['entity'], string> = {
+  deck: "Deck",
+  theme: "Thème",
+  card: "Carte",
+};
+
+const ENTITY_ICONS = {
+  deck: BookOpen,
+  theme: Layers,
+  card: FileText,
+};
+
+const TrashPage = () => {
+  const { toast } = useToast();
+  const { data: entries, isLoading } = useStorageQuery(repository.getTrash, ["trash"]);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [showEmptyDialog, setShowEmptyDialog] = useState(false);
+  const [entryToDelete, setEntryToDelete] = useState<TrashEntry | null>(null);
+
+  // Les éléments trop anciens sont effacés à l'ouverture de la corbeille
+  useEffect(() => {
+    purgeExpiredTrash().catch(error => {
+      console.error("Erreur lors de la purge de la corbeille:", error);
+    });
+  }, [retentionDays]);
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await repository.restoreFromTrash(entry.id);
+      toast({
+        title: "Élément restauré",
+        description: `« ${entry.title} » a été restauré`,
+      });
+    } catch (error) {
+      console.error("Error restoring trash entry:", error);
+      toast({
+        title: "Restauration impossible",
+        description: error instanceof Error ? error.message : "Impossible de restaurer cet élément",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entryToDelete) return;
+
+    try {
+      await repository.deleteFromTrash(entryToDelete.id);
+      toast({
+        title: "Élément supprimé",
+        description: `« ${entryToDelete.title} » a été supprimé définitivement`,
+      });
+    } catch (error) {
+      console.error("Error deleting trash entry:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de supprimer cet élément",
+        variant: "destructive",
+      });
+    } finally {
+      setEntryToDelete(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      const count = await repository.emptyTrash();
+      toast({
+        title: "Corbeille vidée",
+        description: `${count} élément(s) supprimé(s) définitivement`,
+      });
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de vider la corbeille",
+        variant: "destructive",
+      });
+    } finally {
+      setShowEmptyDialog(false);
+    }
+  };
+
+  const getDaysLeft = (entry: TrashEntry) =>
+    Math.max(0, Math.ceil((entry.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  const getContentSummary = (entry: TrashEntry) => {
+    if (entry.entity === 'deck') {
+      return `${entry.themes.length} thème(s), ${entry.flashcards.length} carte(s)`;
+    }
+    if (entry.entity === 'theme') {
+      return "Les cartes du thème restent dans le deck";
+    }
+    return entry.flashcards[0]?.back.text || "";
+  };
+
+  return (
+    <div className="container px-4 py-8">
+      <Link to="/my-decks" className="text-muted-foreground hover:text-foreground flex items-center mb-6">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Retour à mes decks
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mb-8">
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold">Corbeille</h1>
+          <p className="text-muted-foreground mt-1">
+            Les éléments supprimés sont conservés {retentionDays} jours avant d'être effacés définitivement.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="trash-retention">Conservation</Label>
+            <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+              <SelectTrigger id="trash-retention" className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} jours
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setShowEmptyDialog(true)}
+            disabled={!entries || entries.length === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Vider la corbeille
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Chargement...</p>
+      ) : !entries || entries.length === 0 ? (
+        <div className="text-center py-16 border rounded-lg bg-card">
+          <Trash2 className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">La corbeille est vide</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {entries.map(entry => {
+            const Icon = ENTITY_ICONS[entry.entity];
+            return (
+              <Card key={entry.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="secondary" className="flex items-center gap-1">
+                      <Icon className="h-3 w-3" />
+                      {ENTITY_LABELS[entry.entity]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      Supprimé le {new Date(entry.deletedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <CardTitle className="text-lg line-clamp-2">{entry.title || "Sans titre"}</CardTitle>
+                  <CardDescription className="line-clamp-2">{getContentSummary(entry)}</CardDescription>
+                </CardHeader>
+                <CardContent className="pb-2">
+                  <p className="text-xs text-muted-foreground">
+                    Suppression définitive dans {getDaysLeft(entry)} jour(s)
+                  </p>
+                </CardContent>
+                <CardFooter className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEntryToDelete(entry)}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Supprimer
+                  </Button>
+                  <Button size="sm" onClick={() => handleRestore(entry)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restaurer
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!entryToDelete} onOpenChange={open => !open && setEntryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Supprimer définitivement</DialogTitle>
+            <DialogDescription>
+              « {entryToDelete?.title} » et ses médias seront effacés. Cette action est irréversible.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryToDelete(null)}>
+              Annuler
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Supprimer définitivement
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEmptyDialog} onOpenChange={setShowEmptyDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Vider la corbeille</DialogTitle>
+            <DialogDescription>
+              Tous les éléments de la corbeille et leurs médias seront effacés. Cette action est irréversible.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEmptyDialog(false)}>
+              Annuler
+            </Button>
+            <Button variant="destructive" onClick={handleEmptyTrash}>
+              Vider la corbeille
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,12 @@
+-- Publie les modifications de public.decks sur le canal temps réel :
+-- la page Explorer se met à jour quand un deck est publié ou modifié
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'decks'
+  ) then
+    alter publication supabase_realtime add table public.decks;
+  end if;
+end
+$$;